@@ -1,5 +1,150 @@
-const { app, BrowserWindow, ipcMain, dialog } = require('electron');
+const { app, BrowserWindow, ipcMain, dialog, shell } = require('electron');
 const path = require('path');
+const fs = require('fs');
+const { createNotificationScheduler } = require('./notifications.cjs');
+
+// --- WORKSPACE STORE ---
+// The whole workspace lives in a single versioned JSON document in userData.
+// The renderer reads and writes it through the IPC handlers below.
+const STORE_SCHEMA_VERSION = 3;
+const STORE_FILE_NAME = 'workspace.json';
+
+const getStorePath = () => path.join(app.getPath('userData'), STORE_FILE_NAME);
+
+// Each migration upgrades a document from version (key - 1) to version key.
+// Version 0 is the raw dump of the renderer's old localStorage keys.
+const STORE_MIGRATIONS = {
+  1: (data) => {
+    const next = { ...data };
+    // Pre view-mode builds stored a single `ws_items` / `ws_minimized` list
+    if (next.ws_items && !next.ws_items_free) next.ws_items_free = next.ws_items;
+    if (next.ws_minimized && !next.ws_minimized_free) next.ws_minimized_free = next.ws_minimized;
+    delete next.ws_items;
+    delete next.ws_minimized;
+    return next;
+  },
+  2: (data) => {
+    // Free and structured views used to keep separate copies of every module.
+    // Fold them into one module list plus a layout map per view.
+    const {
+      ws_items_free = [], ws_items_structured = [],
+      ws_minimized_free = [], ws_minimized_structured = [],
+      ...rest
+    } = data;
+    const isStructured = data.ws_viewMode === 'structured';
+    const activeItems = isStructured ? ws_items_structured : ws_items_free;
+    const activeMinimized = isStructured ? ws_minimized_structured : ws_minimized_free;
+    const otherItems = isStructured ? ws_items_free : ws_items_structured;
+    const otherMinimized = isStructured ? ws_minimized_free : ws_minimized_structured;
+
+    const activeIds = new Set(activeItems.map((m) => m.i));
+    const minimizedIds = new Set([
+      ...activeMinimized.map((m) => m.i),
+      ...otherMinimized.filter((m) => !activeIds.has(m.i)).map((m) => m.i),
+    ]);
+
+    // The active view holds the most recent copy of each module
+    const modules = [];
+    const seen = new Set();
+    [...activeItems, ...activeMinimized, ...otherItems, ...otherMinimized].forEach((item) => {
+      if (!item || !item.i || seen.has(item.i)) return;
+      seen.add(item.i);
+      const { x, y, w, h, prevPos, orderIndex, ...record } = item;
+      modules.push({ ...record, minimized: minimizedIds.has(item.i) });
+    });
+
+    const findIn = (list, id) => list.find((m) => m.i === id);
+    const layoutFree = {};
+    modules.forEach((module, index) => {
+      const placed = findIn(ws_items_free, module.i);
+      const minimized = findIn(ws_minimized_free, module.i);
+      const source = placed || (minimized && (minimized.prevPos || minimized)) || findIn(ws_items_structured, module.i) || {};
+      layoutFree[module.i] = {
+        x: placed ? placed.x : (source.x ?? (index % 10) * 16),
+        y: placed ? placed.y : (source.y ?? Math.floor(index / 10) * 12),
+        w: source.w || 12,
+        h: source.h || 12,
+      };
+    });
+
+    const structuredSources = [...ws_items_structured, ...ws_minimized_structured];
+    const ordered = [...modules].sort((a, b) => {
+      const aOrder = findIn(structuredSources, a.i)?.orderIndex ?? Number.MAX_SAFE_INTEGER;
+      const bOrder = findIn(structuredSources, b.i)?.orderIndex ?? Number.MAX_SAFE_INTEGER;
+      return aOrder - bOrder;
+    });
+    const layoutStructured = {};
+    ordered.forEach((module, index) => {
+      const source = findIn(structuredSources, module.i) || {};
+      layoutStructured[module.i] = { orderIndex: index, w: source.w || 16, h: source.h || 12 };
+    });
+
+    return { ...rest, ws_modules: modules, ws_layout_free: layoutFree, ws_layout_structured: layoutStructured };
+  },
+  3: (data) => {
+    // Modules and layouts move into the first of a list of named boards
+    const { ws_modules = [], ws_layout_free = {}, ws_layout_structured = {}, ...rest } = data;
+    const board = {
+      id: 'board-default',
+      name: 'My Workspace',
+      modules: ws_modules,
+      layoutFree: ws_layout_free,
+      layoutStructured: ws_layout_structured,
+      eventScope: 'shared',
+      todoScope: 'board',
+    };
+    return { ...rest, ws_boards: [board], ws_activeBoardId: board.id };
+  },
+};
+
+const migrateStore = (doc) => {
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+  let data = doc.data && typeof doc.data === 'object' ? doc.data : {};
+  if (version > STORE_SCHEMA_VERSION) {
+    console.warn(`Workspace store version ${version} is newer than this build (${STORE_SCHEMA_VERSION})`);
+    return { schemaVersion: version, data };
+  }
+  while (version < STORE_SCHEMA_VERSION) {
+    version += 1;
+    data = STORE_MIGRATIONS[version](data);
+  }
+  return { schemaVersion: version, data };
+};
+
+// Write to a temp file first and rename over the target so a crash mid-write
+// never leaves a truncated document behind.
+const writeStore = (doc) => {
+  const filePath = getStorePath();
+  const tmpPath = `${filePath}.tmp`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tmpPath, JSON.stringify(doc), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+};
+
+// Returns null when there is no store yet, and { corruptPath } when it could not be read. A store
+// from a newer build is copied aside (backupPath) first, since the next save writes it in this
+// build's format.
+const readStore = () => {
+  const filePath = getStorePath();
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const doc = migrateStore(raw);
+    if (doc.schemaVersion > STORE_SCHEMA_VERSION) {
+      const backupPath = `${filePath}.v${doc.schemaVersion}-${Date.now()}`;
+      fs.copyFileSync(filePath, backupPath);
+      return { ...doc, backupPath };
+    }
+    if (doc.schemaVersion !== raw.schemaVersion) writeStore(doc);
+    return doc;
+  } catch (error) {
+    // Keep the unreadable file around for manual recovery instead of overwriting it
+    console.error('Failed to read workspace store:', error);
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    fs.renameSync(filePath, corruptPath);
+    return { corruptPath };
+  }
+};
 
 const createWindow = () => {
   // Create the browser window.
@@ -49,6 +194,118 @@ ipcMain.handle('open-image-dialog', async () => {
   return null;
 });
 
+// IPC handlers for workspace archives (export/import)
+const ARCHIVE_FILTERS = [{ name: 'Workspace Archive', extensions: ['wsarchive', 'zip'] }];
+
+ipcMain.handle('save-archive-dialog', async (event, defaultName) => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: defaultName,
+    filters: ARCHIVE_FILTERS
+  });
+  return result.canceled || !result.filePath ? null : result.filePath;
+});
+
+ipcMain.handle('open-archive-dialog', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: ARCHIVE_FILTERS
+  });
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+});
+
+// IPC handlers for calendar files (.ics); the main process does the file access
+const ICS_FILTERS = [{ name: 'iCalendar', extensions: ['ics'] }];
+
+ipcMain.handle('import-ics', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: ICS_FILTERS
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  return fs.readFileSync(result.filePaths[0], 'utf8');
+});
+
+ipcMain.handle('export-ics', async (event, defaultName, content) => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: defaultName,
+    filters: ICS_FILTERS
+  });
+  if (result.canceled || !result.filePath) return null;
+  fs.writeFileSync(result.filePath, content, 'utf8');
+  return result.filePath;
+});
+
+// IPC handlers for the workspace store
+ipcMain.on('load-workspace-store', (event) => {
+  event.returnValue = readStore();
+});
+
+// First run: the renderer hands over its old localStorage keys as a version 0 document
+ipcMain.on('import-legacy-workspace-store', (event, legacyData) => {
+  const doc = migrateStore({ schemaVersion: 0, data: legacyData || {} });
+  writeStore(doc);
+  event.returnValue = doc;
+});
+
+ipcMain.handle('save-workspace-store', async (event, data) => {
+  writeStore({ schemaVersion: STORE_SCHEMA_VERSION, data });
+});
+
+// Used when the window is closing and an async round-trip might not finish
+ipcMain.on('save-workspace-store-sync', (event, data) => {
+  try {
+    writeStore({ schemaVersion: STORE_SCHEMA_VERSION, data });
+    event.returnValue = true;
+  } catch (error) {
+    console.error('Failed to save workspace store:', error);
+    event.returnValue = false;
+  }
+});
+
+// IPC handlers for event notifications
+const notificationScheduler = createNotificationScheduler();
+
+ipcMain.on('schedule-notifications', (event, reminders) => {
+  notificationScheduler.schedule(reminders);
+});
+
+ipcMain.on('snooze-notification', (event, key, minutes) => {
+  notificationScheduler.snooze(key, minutes);
+});
+
+ipcMain.on('dismiss-notification', (event, key) => {
+  notificationScheduler.dismiss(key);
+});
+
+// IPC handlers for event links and attachments; only web and mail links leave the app
+const EXTERNAL_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+ipcMain.handle('open-external', async (event, url) => {
+  let protocol;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return false;
+  }
+  if (!EXTERNAL_PROTOCOLS.includes(protocol)) return false;
+  await shell.openExternal(url);
+  return true;
+});
+
+ipcMain.handle('open-path', async (event, filePath) => {
+  const error = await shell.openPath(filePath);
+  return error === '';
+});
+
+ipcMain.handle('show-in-folder', async (event, filePath) => {
+  shell.showItemInFolder(filePath);
+});
+
+ipcMain.handle('open-attachment-dialog', async () => {
+  const result = await dialog.showOpenDialog({ properties: ['openFile'] });
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit();
 });
\ No newline at end of file
@@ -0,0 +1,146 @@
+const { app, BrowserWindow, Notification } = require('electron');
+const path = require('path');
+const fs = require('fs');
+
+// --- EVENT NOTIFICATIONS ---
+// The renderer expands events into reminders ({ key, title, body, fireAt, expiresAt }) and sends the
+// list whenever events or settings change. Timers live here so they keep running while the window
+// is hidden. Fired and snoozed reminders are kept in their own file so a restart neither repeats
+// nor loses them.
+const LOG_FILE_NAME = 'notifications.json';
+// Fired reminders are remembered this long after they fired
+const LOG_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+// setTimeout cannot wait longer than ~24.8 days, so reminders further out than this are left to a
+// later pass that runs once this much time has gone by
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+const getLogPath = () => path.join(app.getPath('userData'), LOG_FILE_NAME);
+
+const readLog = () => {
+  try {
+    const log = JSON.parse(fs.readFileSync(getLogPath(), 'utf8'));
+    return { fired: log.fired || {}, snoozed: log.snoozed || {} };
+  } catch {
+    return { fired: {}, snoozed: {} };
+  }
+};
+
+const writeLog = (log) => {
+  const filePath = getLogPath();
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(log, null, 2), 'utf8');
+  fs.renameSync(tmpPath, filePath);
+};
+
+const createNotificationScheduler = () => {
+  let log = null;
+  let reminders = [];
+  const timers = new Map();
+  let rearmTimer = null;
+  // Native notifications must stay referenced or they can be garbage collected before they show
+  const shown = new Map();
+
+  const getLog = () => {
+    if (!log) log = readLog();
+    return log;
+  };
+
+  const saveLog = () => {
+    const cutoff = Date.now() - LOG_RETENTION_MS;
+    Object.entries(log.fired).forEach(([key, firedAt]) => {
+      if (new Date(firedAt).getTime() < cutoff) delete log.fired[key];
+    });
+    try {
+      writeLog(log);
+    } catch (error) {
+      console.error('Failed to save notification log:', error);
+    }
+  };
+
+  const sendToWindows = (channel, payload) => {
+    BrowserWindow.getAllWindows().forEach((win) => win.webContents.send(channel, payload));
+  };
+
+  const fire = (reminder) => {
+    const current = getLog();
+    current.fired[reminder.key] = new Date().toISOString();
+    delete current.snoozed[reminder.key];
+    saveLog();
+
+    if (Notification.isSupported()) {
+      const notification = new Notification({
+        title: reminder.title,
+        body: reminder.body,
+        // Action buttons are only shown on macOS; other platforms use the in-app banner
+        actions: [{ type: 'button', text: 'Snooze 10 min' }],
+        closeButtonText: 'Dismiss',
+      });
+      notification.on('action', () => snooze(reminder.key, 10));
+      notification.on('click', () => {
+        const win = BrowserWindow.getAllWindows()[0];
+        if (win) { win.show(); win.focus(); }
+      });
+      notification.on('close', () => shown.delete(reminder.key));
+      shown.set(reminder.key, notification);
+      notification.show();
+    }
+    sendToWindows('notification-fired', reminder);
+  };
+
+  const clearTimers = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    clearTimeout(rearmTimer);
+    rearmTimer = null;
+  };
+
+  const arm = () => {
+    clearTimers();
+    const now = Date.now();
+    const current = getLog();
+    let hasLater = false;
+    reminders.forEach((reminder) => {
+      const snoozedUntil = current.snoozed[reminder.key];
+      if (current.fired[reminder.key] && !snoozedUntil) return;
+      const fireAt = new Date(snoozedUntil || reminder.fireAt).getTime();
+      // Reminders missed while the app was closed still fire until their event is over
+      if (reminder.expiresAt && new Date(reminder.expiresAt).getTime() <= now) return;
+      const delay = Math.max(0, fireAt - now);
+      if (delay > MAX_TIMER_MS) {
+        hasLater = true;
+        return;
+      }
+      timers.set(reminder.key, setTimeout(() => {
+        timers.delete(reminder.key);
+        fire(reminder);
+      }, delay));
+    });
+    if (hasLater) rearmTimer = setTimeout(arm, MAX_TIMER_MS);
+  };
+
+  const schedule = (nextReminders) => {
+    reminders = Array.isArray(nextReminders) ? nextReminders : [];
+    arm();
+  };
+
+  const snooze = (key, minutes) => {
+    const current = getLog();
+    current.snoozed[key] = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    saveLog();
+    shown.get(key)?.close();
+    arm();
+  };
+
+  const dismiss = (key) => {
+    const current = getLog();
+    delete current.snoozed[key];
+    if (!current.fired[key]) current.fired[key] = new Date().toISOString();
+    saveLog();
+    shown.get(key)?.close();
+    arm();
+  };
+
+  return { schedule, snooze, dismiss };
+};
+
+module.exports = { createNotificationScheduler };
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { FaCaretDown, FaCopy, FaTrash, FaPlus, FaGripVertical } from 'react-icons/fa';
+import type { Board, BoardScope } from '../types';
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  activeBoardId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onReorder: (draggedId: string, targetId: string) => void;
+  onSetScope: (id: string, key: 'eventScope' | 'todoScope', scope: BoardScope) => void;
+}
+
+export const BoardSwitcher: React.FC<BoardSwitcherProps> = ({
+  boards, activeBoardId, onSelect, onCreate, onRename, onDuplicate, onDelete, onReorder, onSetScope
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const activeBoard = boards.find(b => b.id === activeBoardId) || boards[0];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = () => { setIsOpen(false); setRenamingId(null); };
+    window.addEventListener('click', close);
+    return () => window.removeEventListener('click', close);
+  }, [isOpen]);
+
+  const commitRename = (id: string, name: string) => {
+    onRename(id, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div style={{ position: 'relative' }} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Switch board"
+        style={{
+          display: 'flex', alignItems: 'center', gap: '6px',
+          padding: '8px 12px', border: '1px solid #ccc', borderRadius: '5px',
+          background: 'white', color: '#333', cursor: 'pointer', fontSize: '12px', fontWeight: 'bold',
+          maxWidth: '180px'
+        }}
+      >
+        <span style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{activeBoard.name}</span>
+        <FaCaretDown size={10} />
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'absolute', top: '38px', right: 0, zIndex: 10000, width: '260px',
+          background: 'white', border: '1px solid #ccc', borderRadius: '4px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.15)', padding: '5px 0', fontSize: '12px'
+        }}>
+          {boards.map(board => {
+            const isActive = board.id === activeBoard.id;
+            return (
+              <div
+                key={board.id}
+                draggable={renamingId !== board.id}
+                onDragStart={(e) => e.dataTransfer.setData('boardId', board.id)}
+                onDragOver={(e) => { if (e.dataTransfer.types.includes('boardid')) { e.preventDefault(); setDragOverId(board.id); } }}
+                onDragLeave={() => setDragOverId(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const draggedId = e.dataTransfer.getData('boardId');
+                  if (draggedId && draggedId !== board.id) onReorder(draggedId, board.id);
+                  setDragOverId(null);
+                }}
+                onClick={() => { if (renamingId !== board.id) { onSelect(board.id); setIsOpen(false); } }}
+                style={{
+                  display: 'flex', alignItems: 'center', gap: '6px', padding: '5px 8px', cursor: 'pointer',
+                  background: isActive ? '#e7f1ff' : 'transparent',
+                  borderTop: dragOverId === board.id ? '2px solid #007bff' : '2px solid transparent'
+                }}
+              >
+                <FaGripVertical size={10} color="#bbb" style={{ cursor: 'grab', flexShrink: 0 }} />
+                {renamingId === board.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={board.name}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={(e) => commitRename(board.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(board.id, e.currentTarget.value);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    style={{ flex: 1, fontSize: '12px', border: '1px solid #007bff', padding: '1px 4px' }}
+                  />
+                ) : (
+                  <span
+                    onDoubleClick={(e) => { e.stopPropagation(); setRenamingId(board.id); }}
+                    title="Double-click to rename"
+                    style={{ flex: 1, fontWeight: isActive ? 'bold' : 'normal', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}
+                  >
+                    {board.name}
+                  </span>
+                )}
+                <span className="close-btn" title="Duplicate" onClick={(e) => { e.stopPropagation(); onDuplicate(board.id); setIsOpen(false); }}>
+                  <FaCopy size={10} />
+                </span>
+                {boards.length > 1 && (
+                  <span className="close-btn" title="Delete" onClick={(e) => { e.stopPropagation(); onDelete(board.id); }} style={{ color: '#dc3545' }}>
+                    <FaTrash size={10} />
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          <div
+            onClick={() => { onCreate(); setIsOpen(false); }}
+            style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '6px 8px', cursor: 'pointer', color: '#007bff', borderTop: '1px solid #eee', marginTop: '4px' }}
+          >
+            <FaPlus size={10} /> New board
+          </div>
+
+          {/* Scope of the active board */}
+          <div style={{ borderTop: '1px solid #eee', padding: '6px 8px 2px', color: '#666', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={activeBoard.eventScope === 'board'}
+                onChange={(e) => onSetScope(activeBoard.id, 'eventScope', e.target.checked ? 'board' : 'shared')}
+              />
+              Events only on this board
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }} title="When duplicated, to-do lists are linked instead of copied">
+              <input
+                type="checkbox"
+                checked={activeBoard.todoScope === 'shared'}
+                onChange={(e) => onSetScope(activeBoard.id, 'todoScope', e.target.checked ? 'shared' : 'board')}
+              />
+              Share to-do lists with copies
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
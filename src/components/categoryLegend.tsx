@@ -0,0 +1,43 @@
+import React from 'react';
+import { FaCog } from 'react-icons/fa';
+import type { LegendCategory } from '../utils/categories';
+import { UNCATEGORIZED, toggleCategory } from '../utils/categories';
+
+interface CategoryLegendProps {
+  categories: LegendCategory[];
+  visible?: string[]; // All categories when unset
+  onChange: (visible: string[] | undefined) => void;
+  onManage?: () => void;
+}
+
+// Color key of a calendar/events module; clicking a category shows or hides its events
+export const CategoryLegend: React.FC<CategoryLegendProps> = ({ categories, visible, onChange, onManage }) => {
+  if (categories.length === 0 && !onManage) return null;
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '4px', padding: '2px 4px', borderTop: '1px solid #eee', flexShrink: 0 }}>
+      {categories.map(category => {
+        const shown = !visible || visible.includes(category.name);
+        return (
+          <button
+            key={category.name || 'uncategorized'}
+            onClick={() => onChange(toggleCategory(categories, visible, category.name))}
+            title={shown ? 'Hide these events' : 'Show these events'}
+            style={{
+              display: 'flex', alignItems: 'center', gap: '3px', border: 'none', background: 'transparent', cursor: 'pointer',
+              padding: '1px 2px', fontSize: '9px', color: shown ? '#333' : '#aaa', textDecoration: shown ? 'none' : 'line-through'
+            }}
+          >
+            <span style={{ width: '7px', height: '7px', borderRadius: '2px', backgroundColor: shown ? category.color : 'transparent', border: `1px solid ${category.color}` }} />
+            {category.name === UNCATEGORIZED ? 'Uncategorized' : category.name}
+          </button>
+        );
+      })}
+      {onManage && (
+        <button onClick={onManage} title="Manage categories" style={{ marginLeft: 'auto', border: 'none', background: 'transparent', cursor: 'pointer', color: '#999', padding: '1px 2px', display: 'flex' }}>
+          <FaCog size={9} />
+        </button>
+      )}
+    </div>
+  );
+};
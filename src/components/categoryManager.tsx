@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { FaTrash, FaPlus, FaBell } from 'react-icons/fa';
+import type { EventCategory } from '../types';
+
+interface CategoryManagerProps {
+  categories: EventCategory[];
+  onAdd: (name: string, color: string) => void;
+  onUpdate: (id: string, changes: Partial<Omit<EventCategory, 'id'>>) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onAdd, onUpdate, onDelete, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState('#007bff');
+  // Names are committed on blur so events are renamed once, not per keystroke
+  const [draftNames, setDraftNames] = useState<Record<string, string>>({});
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    categories.some(c => c.id !== exceptId && c.name.toLowerCase() === name.toLowerCase());
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name || nameTaken(name)) return;
+    onAdd(name, newColor);
+    setNewName('');
+  };
+
+  const commitName = (category: EventCategory) => {
+    const name = draftNames[category.id]?.trim();
+    setDraftNames(prev => {
+      const next = { ...prev };
+      delete next[category.id];
+      return next;
+    });
+    if (name && name !== category.name && !nameTaken(name, category.id)) onUpdate(category.id, { name });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '380px', maxHeight: '80vh', display: 'flex', flexDirection: 'column' }}>
+        <div className="modal-header">Categories</div>
+
+        <div style={{ overflowY: 'auto', flex: 1, minHeight: '60px' }}>
+          {categories.length === 0 && (
+            <div style={{ color: '#999', fontSize: '13px', textAlign: 'center', padding: '20px 0' }}>No categories yet</div>
+          )}
+          {categories.map(category => (
+            <div key={category.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 0', borderBottom: '1px solid #eee' }}>
+              <input type="color" value={category.color} onChange={(e) => onUpdate(category.id, { color: e.target.value })} style={{ width: '28px', height: '28px', padding: 0, border: 'none', flexShrink: 0 }} />
+              <input
+                type="text"
+                value={draftNames[category.id] ?? category.name}
+                onChange={(e) => setDraftNames(prev => ({ ...prev, [category.id]: e.target.value }))}
+                onBlur={() => commitName(category)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                style={{ flex: 1, minWidth: 0 }}
+              />
+              <button
+                onClick={() => onUpdate(category.id, { notify: !category.notify })}
+                title={category.notify ? 'New events notify by default' : 'New events do not notify by default'}
+                style={{ border: 'none', background: 'transparent', cursor: 'pointer', color: category.notify ? '#007bff' : '#ccc' }}
+              >
+                <FaBell size={13} />
+              </button>
+              <button onClick={() => onDelete(category.id)} title="Remove category" style={{ background: '#dc3545', color: 'white', border: 'none', padding: '5px 8px', borderRadius: '4px', cursor: 'pointer' }}>
+                <FaTrash size={11} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
+          <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} style={{ width: '28px', height: '28px', padding: 0, border: 'none', flexShrink: 0 }} />
+          <input
+            type="text"
+            value={newName}
+            placeholder="New category"
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <button onClick={add} disabled={!newName.trim() || nameTaken(newName.trim())} style={{ background: '#007bff', color: 'white', border: 'none', padding: '6px 10px', borderRadius: '4px', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <FaPlus size={10} /> Add
+          </button>
+        </div>
+
+        <div className="modal-actions">
+          <button onClick={onClose} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
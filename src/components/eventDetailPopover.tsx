@@ -0,0 +1,115 @@
+import React from 'react';
+import { FaTimes, FaPen, FaMapMarkerAlt, FaUser, FaLink, FaPaperclip, FaClock } from 'react-icons/fa';
+import { format, isSameDay } from 'date-fns';
+import type { CalendarEvent } from '../types';
+import { getEventEnd, getEventLastDay, getEventStart } from '../utils/eventTime';
+import { getLocalTimeZone, getTimeZoneCity } from '../utils/timeZones';
+import { getImageUrl, isImageFile } from '../utils/imageUtils';
+import { getLinkLabel, isEmailAddress, openExternal, openMail, openPath } from '../utils/shell';
+import { Notepad } from './modules/notepad';
+
+interface EventDetailPopoverProps {
+  event: CalendarEvent; // As shown in the module, i.e. in this computer's zone
+  onEdit?: () => void;
+  onClose: () => void;
+}
+
+const describeWhen = (event: CalendarEvent) => {
+  const start = getEventStart(event);
+  const lastDay = getEventLastDay(event);
+  if (event.isAllDay) {
+    return isSameDay(start, lastDay) ? `${format(start, 'EEE, MMM d')} · All day` : `${format(start, 'MMM d')} – ${format(lastDay, 'MMM d')} · All day`;
+  }
+  const end = getEventEnd(event);
+  return isSameDay(start, end) || !event.endTime
+    ? `${format(start, 'EEE, MMM d')} · ${event.startTime}${event.endTime ? ` – ${event.endTime}` : ''}`
+    : `${format(start, 'MMM d HH:mm')} – ${format(end, 'MMM d HH:mm')}`;
+};
+
+// Everything about an event, shown over the module it was clicked in
+export const EventDetailPopover: React.FC<EventDetailPopoverProps> = ({ event, onEdit, onClose }) => {
+  const otherZone = event.timeZone && !event.isAllDay && event.timeZone !== getLocalTimeZone() ? event.timeZone : null;
+
+  return (
+    <div onClick={onClose} style={{ position: 'absolute', inset: 0, zIndex: 50, background: 'rgba(0,0,0,0.15)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+        style={{ width: 'calc(100% - 16px)', maxWidth: '320px', maxHeight: 'calc(100% - 16px)', overflowY: 'auto', background: 'white', borderRadius: '6px', boxShadow: '0 4px 16px rgba(0,0,0,0.2)', borderTop: `4px solid ${event.color}`, padding: '10px', boxSizing: 'border-box', fontSize: '12px', color: '#333' }}
+      >
+        <div style={{ display: 'flex', alignItems: 'flex-start', gap: '6px' }}>
+          <div style={{ flex: 1, fontWeight: 'bold', fontSize: '14px', wordBreak: 'break-word' }}>{event.title}</div>
+          {onEdit && (
+            <button onClick={onEdit} title="Edit event" style={popoverBtnStyle}><FaPen size={11} /></button>
+          )}
+          <button onClick={onClose} title="Close" style={popoverBtnStyle}><FaTimes size={12} /></button>
+        </div>
+
+        <div style={rowStyle}>
+          <FaClock size={10} color="#999" />
+          <span>
+            {describeWhen(event)}
+            {otherZone && <span style={{ color: '#999' }}> · set in {getTimeZoneCity(otherZone)} time</span>}
+          </span>
+        </div>
+        {event.location && <div style={rowStyle}><FaMapMarkerAlt size={10} color="#999" /><span>{event.location}</span></div>}
+        {event.category && (
+          <div style={rowStyle}>
+            <span style={{ width: '8px', height: '8px', borderRadius: '2px', backgroundColor: event.color, flexShrink: 0 }} />
+            <span>{event.category}</span>
+          </div>
+        )}
+
+        {event.description && (
+          <div style={{ borderTop: '1px solid #eee', marginTop: '8px', paddingTop: '4px' }}>
+            <Notepad content={event.description} onChange={() => {}} readOnly />
+          </div>
+        )}
+
+        {event.attendees && event.attendees.length > 0 && (
+          <div style={sectionStyle}>
+            <div style={sectionTitleStyle}><FaUser size={9} /> Attendees</div>
+            {event.attendees.map(attendee => (
+              <div key={attendee}>
+                {isEmailAddress(attendee)
+                  ? <a href={`mailto:${attendee}`} onClick={(e) => { e.preventDefault(); openMail(attendee); }} style={linkStyle}>{attendee}</a>
+                  : attendee}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {event.links && event.links.length > 0 && (
+          <div style={sectionStyle}>
+            <div style={sectionTitleStyle}><FaLink size={9} /> Links</div>
+            {event.links.map(url => (
+              <div key={url} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                <a href={url} title={url} onClick={(e) => { e.preventDefault(); openExternal(url); }} style={linkStyle}>{getLinkLabel(url)}</a>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {event.attachments && event.attachments.length > 0 && (
+          <div style={sectionStyle}>
+            <div style={sectionTitleStyle}><FaPaperclip size={9} /> Attachments</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {event.attachments.map(attachment => (
+                <button key={attachment.id} onClick={() => openPath(attachment.path)} title={`Open ${attachment.name}`} style={{ border: '1px solid #ddd', borderRadius: '4px', background: '#fafafa', padding: '3px', cursor: 'pointer', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '2px', maxWidth: '80px' }}>
+                  {isImageFile(attachment.path) && <img src={getImageUrl(attachment.path)} alt="" style={{ width: '70px', height: '50px', objectFit: 'cover', borderRadius: '2px' }} />}
+                  <span style={{ fontSize: '10px', maxWidth: '74px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{attachment.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const popoverBtnStyle: React.CSSProperties = { border: 'none', background: 'transparent', cursor: 'pointer', color: '#666', padding: '2px' };
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' };
+const sectionStyle: React.CSSProperties = { borderTop: '1px solid #eee', marginTop: '8px', paddingTop: '6px' };
+const sectionTitleStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '4px', fontSize: '10px', fontWeight: 'bold', color: '#888', textTransform: 'uppercase', marginBottom: '3px' };
+const linkStyle: React.CSSProperties = { color: '#007bff', textDecoration: 'none', cursor: 'pointer' };
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { FaTrash, FaPlus } from 'react-icons/fa';
+import type { HolidayCalendar, HolidaySettings, HolidayType, ModuleRecord } from '../types';
+import { HOLIDAY_TYPES, describeCalendar, getCalendarKey, getCountries, getRegions, getStates } from '../utils/holidays';
+
+interface HolidaySettingsViewProps {
+  settings: HolidaySettings;
+  modules: ModuleRecord[]; // Calendar and events modules of the board
+  onChange: (settings: HolidaySettings) => void;
+  onToggleModule: (moduleId: string) => void;
+  onClose: () => void;
+}
+
+const sortedEntries = (names: Record<string, string>) =>
+  Object.entries(names).sort((a, b) => a[1].localeCompare(b[1]));
+
+export const HolidaySettingsView: React.FC<HolidaySettingsViewProps> = ({ settings, modules, onChange, onToggleModule, onClose }) => {
+  const [draft, setDraft] = useState<HolidayCalendar>({ country: '' });
+  const countries = useMemo(() => sortedEntries(getCountries()), []);
+  const states = draft.country ? sortedEntries(getStates(draft.country)) : [];
+  const regions = draft.country && draft.state ? sortedEntries(getRegions(draft.country, draft.state)) : [];
+
+  const addCalendar = () => {
+    if (!draft.country) return;
+    const calendar: HolidayCalendar = { country: draft.country, state: draft.state || undefined, region: draft.region || undefined };
+    const key = getCalendarKey(calendar);
+    if (!settings.calendars.some(c => getCalendarKey(c) === key)) onChange({ ...settings, calendars: [...settings.calendars, calendar] });
+    setDraft({ country: '' });
+  };
+
+  const removeCalendar = (key: string) =>
+    onChange({ ...settings, calendars: settings.calendars.filter(c => getCalendarKey(c) !== key) });
+
+  const toggleType = (type: HolidayType) => onChange({
+    ...settings,
+    types: settings.types.includes(type) ? settings.types.filter(t => t !== type) : [...settings.types, type],
+  });
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '420px', maxHeight: '85vh', overflowY: 'auto' }}>
+        <div className="modal-header">Holidays</div>
+
+        <div className="modal-row">
+          <label>Calendars:</label>
+          {settings.calendars.length === 0 && <div style={{ color: '#999', fontSize: '12px' }}>No holiday calendars</div>}
+          {settings.calendars.map(calendar => {
+            const key = getCalendarKey(calendar);
+            return (
+              <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', padding: '3px 0' }}>
+                <span style={{ flex: 1 }}>{describeCalendar(calendar)}</span>
+                <button onClick={() => removeCalendar(key)} title="Remove" style={{ background: '#dc3545', color: 'white', border: 'none', padding: '4px 7px', borderRadius: '4px', cursor: 'pointer' }}>
+                  <FaTrash size={10} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="modal-row" style={{ flexDirection: 'row', gap: '6px', alignItems: 'center' }}>
+          <select value={draft.country} onChange={(e) => setDraft({ country: e.target.value })} style={{ flex: 1, minWidth: 0 }}>
+            <option value="">Country…</option>
+            {countries.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+          </select>
+          {states.length > 0 && (
+            <select value={draft.state || ''} onChange={(e) => setDraft({ country: draft.country, state: e.target.value || undefined })} style={{ flex: 1, minWidth: 0 }}>
+              <option value="">Whole country</option>
+              {states.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+            </select>
+          )}
+          {regions.length > 0 && (
+            <select value={draft.region || ''} onChange={(e) => setDraft({ ...draft, region: e.target.value || undefined })} style={{ flex: 1, minWidth: 0 }}>
+              <option value="">Whole state</option>
+              {regions.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+            </select>
+          )}
+          <button onClick={addCalendar} disabled={!draft.country} style={{ background: '#007bff', color: 'white', border: 'none', padding: '6px 10px', borderRadius: '4px', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '4px', opacity: draft.country ? 1 : 0.5 }}>
+            <FaPlus size={10} /> Add
+          </button>
+        </div>
+
+        <div className="modal-row">
+          <label>Show:</label>
+          {HOLIDAY_TYPES.map(({ type, label, color }) => (
+            <label key={type} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', fontWeight: 'normal' }}>
+              <input type="checkbox" checked={settings.types.includes(type)} onChange={() => toggleType(type)} />
+              <span style={{ width: '8px', height: '8px', borderRadius: '2px', backgroundColor: color }} />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        {modules.length > 0 && (
+          <div className="modal-row">
+            <label>Show holidays in:</label>
+            {modules.map(module => (
+              <label key={module.i} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', fontWeight: 'normal' }}>
+                <input type="checkbox" checked={!module.hideHolidays} onChange={() => onToggleModule(module.i)} />
+                {module.title || (module.type === 'calendar' ? 'Calendar' : 'Events')}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="modal-actions">
+          <button onClick={onClose} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
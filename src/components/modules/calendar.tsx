@@ -1,40 +1,122 @@
-import React, { useState, useRef } from 'react';
-import { FaChevronLeft, FaChevronRight, FaCalendarDay, FaCalendarWeek, FaCalendarAlt, FaCaretDown, FaSearchPlus, FaSearchMinus } from 'react-icons/fa';
-import { format, startOfWeek, eachDayOfInterval, addDays, addMonths, subMonths, isSameDay, setYear, setMonth, getDay, isToday } from 'date-fns';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { FaChevronLeft, FaChevronRight, FaChevronUp, FaChevronDown, FaCalendarDay, FaCalendarWeek, FaCalendarAlt, FaCaretDown, FaSearchPlus, FaSearchMinus, FaBriefcase, FaStream, FaTh, FaListUl, FaCheckSquare } from 'react-icons/fa';
+import { format, startOfWeek, eachDayOfInterval, addDays, addMonths, addYears, isSameDay, differenceInCalendarDays, setYear, setMonth, getDay, isToday, startOfMonth, endOfMonth, startOfYear, endOfYear, startOfDay, endOfDay } from 'date-fns';
 import type { CalendarEvent } from '../../types';
+import type { DaySegment, EventTimes } from '../../utils/eventTime';
+import { filterEventsByCategory } from '../../utils/categories';
+import type { LegendCategory } from '../../utils/categories';
+import { CategoryLegend } from '../categoryLegend';
+import { expandEvents, toDateKey } from '../../utils/recurrence';
+import { getDaySegment, getEventEnd, getEventLastDay, getEventStart, isMultiDay, occursOnDay } from '../../utils/eventTime';
+import { getTimeZoneAbbreviation, localizeEvent, toZonedWallClock } from '../../utils/timeZones';
+import { TimeZoneSelect } from '../timeZoneSelect';
+import { EventDetailPopover } from '../eventDetailPopover';
+import { isHolidayEvent } from '../../utils/holidays';
 
 interface CalendarProps {
   events: CalendarEvent[];
   onDayClick: (date: Date) => void;
   onDropItemOnDay?: (date: Date, itemName: string) => void;
+  onEventClick?: (event: CalendarEvent) => void;
+  onCreateRange?: (date: Date, startTime: string, endTime: string) => void;
+  onEventChange?: (event: CalendarEvent, times: EventTimes) => void;
+  snapMinutes?: number;
+  onSnapChange?: (minutes: number) => void;
+  weekCount?: number; // Weeks shown by the rolling multi-week view
+  onWeekCountChange?: (weeks: number) => void;
+  secondaryTimeZone?: string; // Second time scale in day/week views
+  onSecondaryTimeZoneChange?: (zone: string | undefined) => void;
+  showTodos?: boolean; // Due to-dos are part of `events`; this only drives the toggle
+  onShowTodosChange?: (show: boolean) => void;
+  categories?: LegendCategory[];
+  visibleCategories?: string[];
+  onVisibleCategoriesChange?: (visible: string[] | undefined) => void;
+  onManageCategories?: () => void;
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  moduleWidthPx?: number;
   backgroundColor?: string;
 }
 
-type ViewType = 'month' | 'week' | 'day';
+type ViewType = 'day' | 'workweek' | 'week' | 'weeks' | 'month' | 'year' | 'agenda';
 
-export const Calendar: React.FC<CalendarProps> = ({ events, onDayClick, onDropItemOnDay, backgroundColor = 'white' }) => {
+const VIEWS: { type: ViewType; label: string; icon: React.ReactNode }[] = [
+  { type: 'day', label: 'Day', icon: <FaCalendarDay size={10} /> },
+  { type: 'workweek', label: 'Work week', icon: <FaBriefcase size={10} /> },
+  { type: 'week', label: 'Week', icon: <FaCalendarWeek size={10} /> },
+  { type: 'weeks', label: 'Weeks', icon: <FaStream size={10} /> },
+  { type: 'month', label: 'Month', icon: <FaCalendarAlt size={10} /> },
+  { type: 'year', label: 'Year', icon: <FaTh size={10} /> },
+  { type: 'agenda', label: 'Agenda', icon: <FaListUl size={10} /> },
+];
+
+const SNAP_OPTIONS = [5, 10, 15, 30, 60];
+const WEEK_COUNT_OPTIONS = [2, 3, 4, 5, 6];
+// Days the agenda lists at first and adds each time it is scrolled to the end
+const AGENDA_PAGE_DAYS = 30;
+// Below this width the header collapses the view buttons into a select
+const COMPACT_WIDTH = 320;
+
+const isTimeGrid = (viewType: ViewType) => viewType === 'day' || viewType === 'workweek' || viewType === 'week';
+
+export const Calendar: React.FC<CalendarProps> = ({ events, onDayClick, onDropItemOnDay, onEventClick, onCreateRange, onEventChange, snapMinutes = 15, onSnapChange, weekCount = 2, onWeekCountChange, secondaryTimeZone, onSecondaryTimeZoneChange, showTodos = false, onShowTodosChange, categories, visibleCategories, onVisibleCategoriesChange, onManageCategories, onVisibleRangeChange, moduleWidthPx = 300, backgroundColor = 'white' }) => {
   const [viewDate, setViewDate] = useState(new Date());
   const [viewType, setViewType] = useState<ViewType>('month');
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [agendaDays, setAgendaDays] = useState(AGENDA_PAGE_DAYS);
+  const [detailEvent, setDetailEvent] = useState<CalendarEvent | null>(null);
+  const compact = moduleWidthPx < COMPACT_WIDTH;
   
   // ZOOM STATE (Row Height in px)
   const [hourHeight, setHourHeight] = useState(50); 
 
-  const next = () => {
-      if (viewType === 'month') setViewDate(addMonths(viewDate, 1));
-      else if (viewType === 'week') setViewDate(addDays(viewDate, 7));
-      else setViewDate(addDays(viewDate, 1));
-  };
-
-  const prev = () => {
-      if (viewType === 'month') setViewDate(subMonths(viewDate, 1));
-      else if (viewType === 'week') setViewDate(addDays(viewDate, -7));
-      else setViewDate(addDays(viewDate, -1));
+  const step = (direction: 1 | -1) => {
+      if (viewType === 'month') setViewDate(addMonths(viewDate, direction));
+      else if (viewType === 'year') setViewDate(addYears(viewDate, direction));
+      else if (viewType === 'day') setViewDate(addDays(viewDate, direction));
+      // Week-based views and the agenda move a week at a time
+      else setViewDate(addDays(viewDate, direction * 7));
   };
+  const next = () => step(1);
+  const prev = () => step(-1);
+
+  const [rangeStart, rangeEnd] = useMemo(() => {
+      const weekStart = startOfWeek(viewDate, { weekStartsOn: 1 });
+      switch (viewType) {
+          case 'day': return [startOfDay(viewDate), endOfDay(viewDate)];
+          case 'workweek': return [weekStart, endOfDay(addDays(weekStart, 4))];
+          case 'week': return [weekStart, endOfDay(addDays(weekStart, 6))];
+          case 'weeks': return [weekStart, endOfDay(addDays(weekStart, weekCount * 7 - 1))];
+          case 'month': return [startOfMonth(viewDate), endOfMonth(viewDate)];
+          case 'year': return [startOfYear(viewDate), endOfYear(viewDate)];
+          case 'agenda': return [startOfDay(viewDate), endOfDay(addDays(viewDate, agendaDays - 1))];
+      }
+  }, [viewDate, viewType, weekCount, agendaDays]);
+
+  // Lets the workspace generate data (e.g. holidays) for the years in view
+  useEffect(() => {
+      onVisibleRangeChange?.(rangeStart, rangeEnd);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangeStart, rangeEnd]);
+
+  // Recurring events are expanded for the visible range only; a day more on each side covers
+  // occurrences that move into the range once shown in this computer's time zone
+  const visibleEvents = useMemo(
+      () => expandEvents(filterEventsByCategory(events, visibleCategories), addDays(rangeStart, -1), addDays(rangeEnd, 1)).map(ev => localizeEvent(ev)),
+      [events, visibleCategories, rangeStart, rangeEnd]
+  );
 
   const zoomIn = () => setHourHeight(prev => Math.min(100, prev + 10));
   const zoomOut = () => setHourHeight(prev => Math.max(20, prev - 10));
 
+  const showDay = (date: Date) => { setViewDate(date); setViewType('day'); };
+  const changeView = (type: ViewType) => {
+      if (type === 'agenda') setAgendaDays(AGENDA_PAGE_DAYS);
+      setViewType(type);
+  };
+
+  const title = viewType === 'day' || viewType === 'agenda' ? format(viewDate, 'MMM d, yy') : viewType === 'year' ? format(viewDate, 'yyyy') : format(viewDate, 'MMM yyyy');
+  const monthGridStart = startOfWeek(startOfMonth(viewDate), { weekStartsOn: 1 });
+
   return (
     <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', background: backgroundColor, position: 'relative' }}>
       
@@ -53,7 +135,7 @@ export const Calendar: React.FC<CalendarProps> = ({ events, onDayClick, onDropIt
                     whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis'
                 }}
              >
-                {format(viewDate, viewType === 'day' ? 'MMM d, yy' : 'MMM yyyy')} <FaCaretDown size={9} />
+                {title} <FaCaretDown size={9} />
              </button>
 
              <button onClick={next} style={navBtnStyle}><FaChevronRight size={9}/></button>
@@ -70,57 +152,161 @@ export const Calendar: React.FC<CalendarProps> = ({ events, onDayClick, onDropIt
 
         {/* Right: Controls */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '5px', flexShrink: 0 }}>
-            {/* Zoom Controls (Visible only in Day/Week) */}
-            {viewType !== 'month' && (
+            {/* Drag snapping (Visible only in time grids) */}
+            {isTimeGrid(viewType) && onSnapChange && !compact && (
+                <select value={snapMinutes} onChange={(e) => onSnapChange(Number(e.target.value))} title="Snap dragged events to" style={headerSelectStyle}>
+                    {SNAP_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes}m</option>)}
+                </select>
+            )}
+
+            {isTimeGrid(viewType) && onSecondaryTimeZoneChange && !compact && (
+                <TimeZoneSelect value={secondaryTimeZone || ''} onChange={(zone) => onSecondaryTimeZoneChange(zone || undefined)} emptyLabel="2nd zone" title="Second time zone" style={{ ...headerSelectStyle, maxWidth: '70px' }} />
+            )}
+
+            {viewType === 'weeks' && onWeekCountChange && (
+                <select value={weekCount} onChange={(e) => onWeekCountChange(Number(e.target.value))} title="Weeks shown" style={headerSelectStyle}>
+                    {WEEK_COUNT_OPTIONS.map(weeks => <option key={weeks} value={weeks}>{weeks}w</option>)}
+                </select>
+            )}
+
+            {/* Zoom Controls (Visible only in time grids) */}
+            {isTimeGrid(viewType) && (
                 <div style={{ display: 'flex', alignItems: 'center', background: '#eee', borderRadius: '3px', padding: '0 2px' }}>
                     <button onClick={zoomOut} style={navBtnStyle} title="Zoom Out"><FaSearchMinus size={8}/></button>
                     <button onClick={zoomIn} style={navBtnStyle} title="Zoom In"><FaSearchPlus size={8}/></button>
                 </div>
             )}
 
+            {onShowTodosChange && (
+                <button onClick={() => onShowTodosChange(!showTodos)} title={showTodos ? 'Hide due to-dos' : 'Show due to-dos'} style={{ ...navBtnStyle, color: showTodos ? '#007bff' : '#aaa' }}>
+                    <FaCheckSquare size={10} />
+                </button>
+            )}
+
             {/* View Switcher */}
-            <div style={{ display: 'flex', gap: '1px', background: '#eee', borderRadius: '3px', padding: '1px' }}>
-                <ViewBtn active={viewType === 'day'} onClick={() => setViewType('day')} icon={<FaCalendarDay size={10} />} />
-                <ViewBtn active={viewType === 'week'} onClick={() => setViewType('week')} icon={<FaCalendarWeek size={10} />} />
-                <ViewBtn active={viewType === 'month'} onClick={() => setViewType('month')} icon={<FaCalendarAlt size={10} />} />
-            </div>
+            {compact ? (
+                <select value={viewType} onChange={(e) => changeView(e.target.value as ViewType)} style={headerSelectStyle}>
+                    {VIEWS.map(view => <option key={view.type} value={view.type}>{view.label}</option>)}
+                </select>
+            ) : (
+                <div style={{ display: 'flex', gap: '1px', background: '#eee', borderRadius: '3px', padding: '1px' }}>
+                    {VIEWS.map(view => (
+                        <ViewBtn key={view.type} active={viewType === view.type} onClick={() => changeView(view.type)} icon={view.icon} title={view.label} />
+                    ))}
+                </div>
+            )}
         </div>
       </div>
 
       {/* CONTENT */}
       <div style={{ flex: 1, overflow: 'hidden', position: 'relative' }}>
-          {viewType === 'month' && <MonthView currentDate={viewDate} events={events} onDayClick={onDayClick} onDropItemOnDay={onDropItemOnDay} />}
-          {viewType === 'week' && <TimeGridView currentDate={viewDate} events={events} onDayClick={onDayClick} days={7} hourHeight={hourHeight} />}
-          {viewType === 'day' && <TimeGridView currentDate={viewDate} events={events} onDayClick={onDayClick} days={1} hourHeight={hourHeight} />}
+          {viewType === 'month' && <MonthView gridStart={monthGridStart} rows={6} firstDay={startOfMonth(viewDate)} lastDay={startOfDay(endOfMonth(viewDate))} events={visibleEvents} onDayClick={onDayClick} onDropItemOnDay={onDropItemOnDay} onEventClick={setDetailEvent} onEventChange={onEventChange} onShowDay={showDay} />}
+          {viewType === 'weeks' && <MonthView gridStart={rangeStart} rows={weekCount} firstDay={rangeStart} lastDay={startOfDay(rangeEnd)} labelMonths events={visibleEvents} onDayClick={onDayClick} onDropItemOnDay={onDropItemOnDay} onEventClick={setDetailEvent} onEventChange={onEventChange} onShowDay={showDay} />}
+          {isTimeGrid(viewType) && <TimeGridView currentDate={viewDate} events={visibleEvents} onDayClick={onDayClick} onEventClick={setDetailEvent} onCreateRange={onCreateRange} onEventChange={onEventChange} snapMinutes={snapMinutes} days={viewType === 'day' ? 1 : viewType === 'workweek' ? 5 : 7} hourHeight={hourHeight} compact={compact} secondaryTimeZone={secondaryTimeZone} />}
+          {viewType === 'year' && <YearView year={viewDate.getFullYear()} events={visibleEvents} columns={moduleWidthPx < 260 ? 2 : moduleWidthPx < 420 ? 3 : moduleWidthPx < 640 ? 4 : 6} onShowDay={showDay} />}
+          {viewType === 'agenda' && <AgendaView start={rangeStart} days={agendaDays} events={visibleEvents} compact={compact} onEventClick={setDetailEvent} onShowDay={showDay} onLoadMore={() => setAgendaDays(prev => prev + AGENDA_PAGE_DAYS)} />}
       </div>
+
+      {categories && onVisibleCategoriesChange && (
+          <CategoryLegend categories={categories} visible={visibleCategories} onChange={onVisibleCategoriesChange} onManage={onManageCategories} />
+      )}
+
+      {detailEvent && (
+          <EventDetailPopover
+              event={detailEvent}
+              onEdit={onEventClick && !isHolidayEvent(detailEvent) ? () => { onEventClick(detailEvent); setDetailEvent(null); } : undefined}
+              onClose={() => setDetailEvent(null)}
+          />
+      )}
     </div>
   );
 };
 
 // --- SUB-COMPONENTS ---
 
+// Multi-day events are drawn as bars across the month grid, split at week rows
+const MAX_BAR_LANES = 2;
+// Event dots per month cell before the rest is summarized as "+N"
+const MAX_CELL_DOTS = 4;
+
+interface MonthBar {
+    event: CalendarEvent;
+    row: number;
+    col: number;
+    span: number;
+    lane: number;
+    continuesBefore: boolean;
+    continuesAfter: boolean;
+}
+
+// Bars only cover the grid's shown days, firstDay to lastDay
+const layoutMonthBars = (events: CalendarEvent[], gridStart: Date, firstDay: Date, lastDay: Date, cols: number): MonthBar[] => {
+    const cellOf = (date: Date) => differenceInCalendarDays(date, gridStart);
+    const segments: Omit<MonthBar, 'lane'>[] = [];
+    events.filter(isMultiDay).forEach(event => {
+        const start = startOfDay(getEventStart(event));
+        const last = getEventLastDay(event);
+        if (last < firstDay || start > lastDay) return;
+        const firstCell = cellOf(start < firstDay ? firstDay : start);
+        const lastCell = cellOf(last > lastDay ? lastDay : last);
+        for (let cell = firstCell; cell <= lastCell; cell = (Math.floor(cell / cols) + 1) * cols) {
+            const rowEnd = Math.min(lastCell, (Math.floor(cell / cols) + 1) * cols - 1);
+            segments.push({
+                event,
+                row: Math.floor(cell / cols),
+                col: cell % cols,
+                span: rowEnd - cell + 1,
+                continuesBefore: cell > firstCell || start < firstDay,
+                continuesAfter: rowEnd < lastCell || last > lastDay,
+            });
+        }
+    });
+
+    // Longest segments take the top lanes; what does not fit is left to the dots
+    const bars: MonthBar[] = [];
+    const occupied = new Map<string, boolean>();
+    segments
+        .sort((a, b) => a.row - b.row || a.col - b.col || b.span - a.span)
+        .forEach(segment => {
+            for (let lane = 0; lane < MAX_BAR_LANES; lane++) {
+                const cells = Array.from({ length: segment.span }, (_, i) => `${segment.row}:${lane}:${segment.col + i}`);
+                if (cells.some(key => occupied.has(key))) continue;
+                cells.forEach(key => occupied.set(key, true));
+                bars.push({ ...segment, lane });
+                return;
+            }
+        });
+    return bars;
+};
+
 interface MonthViewProps {
-    currentDate: Date;
+    gridStart: Date; // Monday of the first row
+    rows: number;
+    firstDay: Date; // Cells before firstDay and after lastDay stay empty
+    lastDay: Date;
+    labelMonths?: boolean; // Name the month on its first day, for grids not bound to one month
     events: CalendarEvent[];
     onDayClick: (date: Date) => void;
     onDropItemOnDay?: (date: Date, itemName: string) => void;
+    onEventClick?: (event: CalendarEvent) => void;
+    onEventChange?: (event: CalendarEvent, times: EventTimes) => void;
+    onShowDay: (date: Date) => void;
 }
 
-const MonthView: React.FC<MonthViewProps> = ({ currentDate, events, onDayClick, onDropItemOnDay }) => {
+// Drag data type for events moved between month cells
+const EVENT_DRAG_TYPE = 'calendar-event';
+
+// Month grid, also used for the rolling multi-week view
+const MonthView: React.FC<MonthViewProps> = ({ gridStart, rows, firstDay, lastDay, labelMonths, events, onDayClick, onDropItemOnDay, onEventClick, onEventChange, onShowDay }) => {
     const gridRef = useRef<HTMLDivElement>(null);
-    const daysInMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0).getDate();
-    const firstDayIndex = getDay(setMonth(currentDate, currentDate.getMonth()).setDate(1)) || 7; 
-    const offset = firstDayIndex === 0 ? 6 : firstDayIndex - 1; 
+    // The event being dragged and the day it was picked up on
+    const draggedEventRef = useRef<{ event: CalendarEvent; fromDate: Date } | null>(null);
     const gap = 1;
     const cols = 7;
-    const rows = 6;
 
-    const handleGridDrop = (e: React.DragEvent) => {
-        if (!onDropItemOnDay) return;
-        const itemName = e.dataTransfer.getData('todoItemText') || e.dataTransfer.getData('plannerItemName');
-        if (!itemName || !gridRef.current) return;
-        e.preventDefault();
-        e.stopPropagation();
+    // Day of the cell under the pointer, or null outside the shown days
+    const dateAtPoint = (e: React.DragEvent) => {
+        if (!gridRef.current) return null;
         const rect = gridRef.current.getBoundingClientRect();
         const x = e.clientX - rect.left;
         const y = e.clientY - rect.top;
@@ -128,14 +314,60 @@ const MonthView: React.FC<MonthViewProps> = ({ currentDate, events, onDayClick,
         const cellH = (rect.height - (rows - 1) * gap) / rows;
         const col = Math.min(cols - 1, Math.max(0, Math.floor(x / (cellW + gap))));
         const row = Math.min(rows - 1, Math.max(0, Math.floor(y / (cellH + gap))));
-        const cellIndex = row * cols + col;
-        if (cellIndex < offset || cellIndex >= offset + daysInMonth) return;
-        const day = cellIndex - offset + 1;
-        const date = new Date(currentDate.getFullYear(), currentDate.getMonth(), day);
+        const date = addDays(gridStart, row * cols + col);
+        return date < firstDay || date > lastDay ? null : date;
+    };
+
+    const handleEventDragStart = (e: React.DragEvent, event: CalendarEvent) => {
+        const fromDate = dateAtPoint(e);
+        if (!onEventChange || !fromDate) return;
+        e.stopPropagation();
+        e.dataTransfer.setData(EVENT_DRAG_TYPE, event.id);
+        e.dataTransfer.effectAllowed = 'move';
+        draggedEventRef.current = { event, fromDate };
+    };
+
+    // Moving keeps the times and length of the event and shifts it by whole days
+    const dropEvent = (e: React.DragEvent) => {
+        const dragged = draggedEventRef.current;
+        draggedEventRef.current = null;
+        const date = dateAtPoint(e);
+        if (!dragged || !date || !onEventChange) return;
+        const shift = differenceInCalendarDays(date, dragged.fromDate);
+        if (shift === 0) return;
+        const { event } = dragged;
+        onEventChange(event, {
+            date: addDays(startOfDay(getEventStart(event)), shift).toISOString(),
+            endDate: event.endDate ? addDays(startOfDay(new Date(event.endDate)), shift).toISOString() : undefined,
+            startTime: event.startTime,
+            endTime: event.endTime,
+        });
+    };
+
+    const handleGridDrop = (e: React.DragEvent) => {
+        if (e.dataTransfer.types.includes(EVENT_DRAG_TYPE)) {
+            e.preventDefault();
+            e.stopPropagation();
+            dropEvent(e);
+            return;
+        }
+        if (!onDropItemOnDay) return;
+        const itemName = e.dataTransfer.getData('todoItemText') || e.dataTransfer.getData('plannerItemName');
+        if (!itemName || !gridRef.current) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const date = dateAtPoint(e);
+        if (!date) return;
         onDropItemOnDay(date, itemName);
     };
 
     const handleGridDragOver = (e: React.DragEvent) => {
+        if (onEventChange && e.dataTransfer.types.includes(EVENT_DRAG_TYPE)) {
+            e.preventDefault();
+            e.stopPropagation();
+            e.dataTransfer.dropEffect = 'move';
+            return;
+        }
         if (onDropItemOnDay && (e.dataTransfer.types.includes('todoItemText') || e.dataTransfer.types.includes('plannerItemName'))) {
             e.preventDefault();
             e.stopPropagation();
@@ -143,17 +375,24 @@ const MonthView: React.FC<MonthViewProps> = ({ currentDate, events, onDayClick,
         }
     };
 
-    const gridCells = [];
-    for (let i = 0; i < offset; i++) gridCells.push(<div key={`empty-${i}`} style={cellStyle} />);
+    const bars = layoutMonthBars(events, gridStart, firstDay, lastDay, cols);
+    // Per week row: a segment left without a lane shows as dots in its row only
+    const barKeys = new Set(bars.map(bar => `${bar.event.id}:${bar.row}`));
 
-    for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(currentDate.getFullYear(), currentDate.getMonth(), day);
-        const dayEvents = events.filter((e: CalendarEvent) => isSameDay(new Date(e.date), date));
+    const gridCells = [];
+    for (let i = 0; i < rows * cols; i++) {
+        const date = addDays(gridStart, i);
+        if (date < firstDay || date > lastDay) {
+            gridCells.push(<div key={`empty-${i}`} style={cellStyle} />);
+            continue;
+        }
+        const day = date.getDate();
+        const dayEvents = events.filter((e: CalendarEvent) => !barKeys.has(`${e.id}:${Math.floor(i / cols)}`) && occursOnDay(e, date));
         const isTodayDate = isSameDay(date, new Date());
         
         gridCells.push(
             <div 
-                key={day} 
+                key={i} 
                 onClick={() => onDayClick(date)}
                 style={{
                     ...cellStyle,
@@ -163,11 +402,27 @@ const MonthView: React.FC<MonthViewProps> = ({ currentDate, events, onDayClick,
                     border: isTodayDate ? '1px solid #ffeeba' : '1px solid transparent'
                 }}
             >
-                <span style={{zIndex: 2, fontSize: '9px'}}>{day}</span>
+                <span style={{zIndex: 2, fontSize: '9px'}}>{labelMonths && (day === 1 || i === 0) ? format(date, 'MMM d') : day}</span>
                 <div style={{ display: 'flex', gap: '1px', marginTop: 'auto', marginBottom: '1px', flexWrap: 'wrap', justifyContent:'center', width:'100%' }}>
-                    {dayEvents.slice(0, 5).map((ev: CalendarEvent) => (
-                        <div key={ev.id} style={{ width: '3px', height: '3px', borderRadius: '50%', backgroundColor: ev.color }} />
+                    {dayEvents.slice(0, MAX_CELL_DOTS).map((ev: CalendarEvent) => (
+                        <div
+                            key={ev.id}
+                            title={ev.title}
+                            draggable={!!onEventChange}
+                            onDragStart={(e) => handleEventDragStart(e, ev)}
+                            onClick={onEventClick ? (e) => { e.stopPropagation(); onEventClick(ev); } : undefined}
+                            style={{ width: '3px', height: '3px', borderRadius: '50%', backgroundColor: ev.color }}
+                        />
                     ))}
+                    {dayEvents.length > MAX_CELL_DOTS && (
+                        <span
+                            title={dayEvents.slice(MAX_CELL_DOTS).map(ev => ev.title).join('\n')}
+                            onClick={(e) => { e.stopPropagation(); onShowDay(date); }}
+                            style={{ fontSize: '7px', lineHeight: '4px', color: '#666', fontWeight: 'normal' }}
+                        >
+                            +{dayEvents.length - MAX_CELL_DOTS} more
+                        </span>
+                    )}
                 </div>
             </div>
         );
@@ -184,43 +439,296 @@ const MonthView: React.FC<MonthViewProps> = ({ currentDate, events, onDayClick,
                 ref={gridRef}
                 onDragOver={handleGridDragOver}
                 onDrop={handleGridDrop}
-                style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gridTemplateRows: 'repeat(6, 1fr)', gap: '1px', flex: 1, minHeight: 0 }}
+                style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gridTemplateRows: `repeat(${rows}, 1fr)`, gap: '1px', flex: 1, minHeight: 0, position: 'relative' }}
             >
                 {gridCells}
+                <div style={{ position: 'absolute', inset: 0, display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gridTemplateRows: `repeat(${rows}, 1fr)`, gap: '1px', pointerEvents: 'none' }}>
+                    {bars.map(bar => (
+                        <div
+                            key={`${bar.event.id}-${bar.row}`}
+                            title={bar.event.title}
+                            draggable={!!onEventChange}
+                            onDragStart={(e) => handleEventDragStart(e, bar.event)}
+                            onClick={onEventClick ? (e) => { e.stopPropagation(); onEventClick(bar.event); } : undefined}
+                            style={{
+                                gridRow: bar.row + 1, gridColumn: `${bar.col + 1} / span ${bar.span}`, alignSelf: 'start',
+                                marginTop: `${12 + bar.lane * 9}px`, height: '8px', lineHeight: '8px', padding: '0 2px',
+                                backgroundColor: bar.event.color, color: 'white', fontSize: '7px',
+                                overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis',
+                                borderRadius: `${bar.continuesBefore ? 0 : 2}px ${bar.continuesAfter ? 0 : 2}px ${bar.continuesAfter ? 0 : 2}px ${bar.continuesBefore ? 0 : 2}px`,
+                                pointerEvents: 'auto', cursor: 'pointer'
+                            }}
+                        >
+                            {bar.event.title}
+                        </div>
+                    ))}
+                </div>
             </div>
         </div>
     );
 };
 
+interface PlacedSegment {
+    ev: CalendarEvent;
+    segment: DaySegment;
+    column: number;
+    columns: number;
+}
+
+// Overlapping events of a day share its width: each group of (transitively) overlapping events
+// gets as many columns as it needs at its busiest, and every event takes the first free column.
+const packDaySegments = (items: { ev: CalendarEvent; segment: DaySegment }[], minMinutes: number): PlacedSegment[] => {
+    const sorted = [...items].sort((a, b) =>
+        a.segment.startMinutes - b.segment.startMinutes || b.segment.endMinutes - a.segment.endMinutes);
+    const placed: PlacedSegment[] = [];
+    let group: PlacedSegment[] = [];
+    let columnEnds: number[] = [];
+    let groupEnd = -1;
+    const closeGroup = () => {
+        group.forEach(item => { item.columns = columnEnds.length; });
+        group = [];
+        columnEnds = [];
+    };
+
+    sorted.forEach(({ ev, segment }) => {
+        const start = segment.startMinutes;
+        // Short events are drawn taller than their duration, so they occupy that height
+        const end = Math.max(segment.endMinutes, start + minMinutes);
+        if (start >= groupEnd) closeGroup();
+        let column = columnEnds.findIndex(columnEnd => columnEnd <= start);
+        if (column === -1) column = columnEnds.length;
+        columnEnds[column] = end;
+        groupEnd = Math.max(groupEnd, end);
+        const item = { ev, segment, column, columns: 1 };
+        group.push(item);
+        placed.push(item);
+    });
+    closeGroup();
+    return placed;
+};
+
+interface AllDayBar {
+    event: CalendarEvent;
+    col: number;
+    span: number;
+    lane: number;
+}
+
+// All-day events of the visible days, stacked into lanes
+const layoutAllDayBars = (events: CalendarEvent[], days: Date[]): AllDayBar[] => {
+    const laneEnds: number[] = [];
+    return events
+        .filter(event => event.isAllDay)
+        .map(event => {
+            const covered = days.map((day, index) => occursOnDay(event, day) ? index : -1).filter(index => index >= 0);
+            return covered.length > 0 ? { event, col: covered[0], span: covered[covered.length - 1] - covered[0] + 1 } : null;
+        })
+        .filter((bar): bar is Omit<AllDayBar, 'lane'> => bar !== null)
+        .sort((a, b) => a.col - b.col || b.span - a.span)
+        .map(bar => {
+            let lane = laneEnds.findIndex(laneEnd => laneEnd < bar.col);
+            if (lane === -1) lane = laneEnds.length;
+            laneEnds[lane] = bar.col + bar.span - 1;
+            return { ...bar, lane };
+        });
+};
+
+// --- DRAGGING IN THE TIME GRID ---
+// Positions are minutes from midnight of the first visible day, so a drag can cross into other days.
+
+const DAY_MINUTES = 24 * 60;
+
+type GridDrag =
+    | { kind: 'create'; dayIndex: number; anchor: number; current: number; moved: boolean }
+    | { kind: 'move'; event: CalendarEvent; grabOffset: number; start: number; duration: number; moved: boolean }
+    | { kind: 'resize'; event: CalendarEvent; start: number; end: number; moved: boolean };
+
+const toTimeString = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const snapTo = (minutes: number, snap: number) => Math.round(minutes / snap) * snap;
+
+// Minutes from midnight of `rangeStart` to a date
+const toGridMinutes = (rangeStart: Date, date: Date) =>
+    differenceInCalendarDays(date, rangeStart) * DAY_MINUTES + date.getHours() * 60 + date.getMinutes();
+
+const fromGridMinutes = (rangeStart: Date, minutes: number) => {
+    const dayOffset = Math.floor(minutes / DAY_MINUTES);
+    return { day: addDays(startOfDay(rangeStart), dayOffset), time: toTimeString(minutes - dayOffset * DAY_MINUTES) };
+};
+
+// Date and time fields of an event placed at [start, end) grid minutes
+const toEventTimes = (rangeStart: Date, start: number, end: number): EventTimes => {
+    const from = fromGridMinutes(rangeStart, start);
+    const to = fromGridMinutes(rangeStart, end);
+    return {
+        date: from.day.toISOString(),
+        endDate: isSameDay(from.day, to.day) ? undefined : to.day.toISOString(),
+        startTime: from.time,
+        endTime: to.time,
+    };
+};
+
 interface TimeGridViewProps {
     currentDate: Date;
     events: CalendarEvent[];
-    days: number;
+    days: number; // 1 for the day view, otherwise days from Monday
     onDayClick: (date: Date) => void;
+    onEventClick?: (event: CalendarEvent) => void;
+    onCreateRange?: (date: Date, startTime: string, endTime: string) => void;
+    onEventChange?: (event: CalendarEvent, times: EventTimes) => void;
+    snapMinutes: number;
     hourHeight: number;
+    compact?: boolean;
+    secondaryTimeZone?: string;
 }
 
-const TimeGridView: React.FC<TimeGridViewProps> = ({ currentDate, events, days, onDayClick, hourHeight }) => {
+const SCALE_WIDTH = 30;
+
+const TimeGridView: React.FC<TimeGridViewProps> = ({ currentDate, events, days, onDayClick, onEventClick, onCreateRange, onEventChange, snapMinutes, hourHeight, compact, secondaryTimeZone }) => {
     const start = days === 1 ? currentDate : startOfWeek(currentDate, { weekStartsOn: 1 });
+    const scalesWidth = secondaryTimeZone ? SCALE_WIDTH * 2 : SCALE_WIDTH;
+    // The second scale shows what each hour of the first visible day is in the other zone
+    const secondaryLabel = (hour: number) => {
+        const instant = startOfDay(start);
+        instant.setHours(hour);
+        return format(toZonedWallClock(instant, secondaryTimeZone!), 'H:mm');
+    };
     const weekDays = eachDayOfInterval({ start, end: addDays(start, days - 1) });
     const hours = Array.from({ length: 24 }, (_, i) => i);
+    const allDayBars = layoutAllDayBars(events, weekDays);
+    const minMinutes = (15 / hourHeight) * 60;
+    const layerRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<GridDrag | null>(null);
+
+    // Grid position under the pointer: the day column and minutes from the first day's midnight
+    const pointerPosition = (e: React.PointerEvent) => {
+        const rect = layerRef.current!.getBoundingClientRect();
+        const dayIndex = Math.min(days - 1, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * days)));
+        const minutesOfDay = Math.min(DAY_MINUTES, Math.max(0, ((e.clientY - rect.top) / hourHeight) * 60));
+        return { dayIndex, minutesOfDay, minutes: dayIndex * DAY_MINUTES + minutesOfDay };
+    };
+
+    const beginDrag = (e: React.PointerEvent, next: GridDrag) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        layerRef.current?.setPointerCapture(e.pointerId);
+        setDrag(next);
+    };
+
+    const startCreate = (e: React.PointerEvent) => {
+        const { dayIndex, minutesOfDay } = pointerPosition(e);
+        const anchor = dayIndex * DAY_MINUTES + snapTo(minutesOfDay, snapMinutes);
+        beginDrag(e, { kind: 'create', dayIndex, anchor, current: anchor, moved: false });
+    };
+
+    const startMove = (e: React.PointerEvent, ev: CalendarEvent) => {
+        const eventStart = toGridMinutes(start, getEventStart(ev));
+        const duration = Math.max(snapMinutes, toGridMinutes(start, getEventEnd(ev)) - eventStart);
+        const { minutes } = pointerPosition(e);
+        beginDrag(e, { kind: 'move', event: ev, grabOffset: minutes - eventStart, start: eventStart, duration, moved: false });
+    };
+
+    const startResize = (e: React.PointerEvent, ev: CalendarEvent) => {
+        beginDrag(e, { kind: 'resize', event: ev, start: toGridMinutes(start, getEventStart(ev)), end: toGridMinutes(start, getEventEnd(ev)), moved: false });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!drag) return;
+        const { minutesOfDay, minutes } = pointerPosition(e);
+        if (drag.kind === 'create') {
+            // New events stay on the day the drag started
+            const current = drag.dayIndex * DAY_MINUTES + snapTo(minutesOfDay, snapMinutes);
+            if (current !== drag.current) setDrag({ ...drag, current, moved: true });
+        } else if (drag.kind === 'move') {
+            const next = snapTo(minutes - drag.grabOffset, snapMinutes);
+            if (next !== drag.start) setDrag({ ...drag, start: next, moved: true });
+        } else {
+            const end = Math.max(drag.start + snapMinutes, snapTo(minutes, snapMinutes));
+            if (end !== drag.end) setDrag({ ...drag, end, moved: true });
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        setDrag(null);
+        if (drag.kind === 'create') {
+            const from = Math.min(drag.anchor, drag.current);
+            const to = Math.max(drag.anchor, drag.current);
+            if (!drag.moved || to - from < snapMinutes || !onCreateRange) {
+                onDayClick(weekDays[drag.dayIndex]);
+                return;
+            }
+            const times = toEventTimes(start, from, to);
+            onCreateRange(new Date(times.date), times.startTime!, times.endTime!);
+            return;
+        }
+        if (!drag.moved || !onEventChange) {
+            onEventClick?.(drag.event);
+            return;
+        }
+        if (drag.kind === 'move') onEventChange(drag.event, toEventTimes(start, drag.start, drag.start + drag.duration));
+        else onEventChange(drag.event, toEventTimes(start, drag.start, drag.end));
+    };
+
+    // The event as it would be after the current move/resize
+    const preview: CalendarEvent | null = drag && drag.kind !== 'create' && drag.moved
+        ? { ...drag.event, ...(drag.kind === 'move' ? toEventTimes(start, drag.start, drag.start + drag.duration) : toEventTimes(start, drag.start, drag.end)) }
+        : null;
 
     return (
         <div style={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
             {/* Sticky Header */}
-            <div style={{ display: 'flex', borderBottom: '1px solid #eee', paddingLeft: '30px', flexShrink: 0 }}>
+            <div style={{ display: 'flex', borderBottom: '1px solid #eee', paddingLeft: `${scalesWidth}px`, flexShrink: 0, position: 'relative' }}>
+                {secondaryTimeZone && (
+                    <div style={{ position: 'absolute', left: 0, bottom: '2px', width: `${SCALE_WIDTH}px`, fontSize: '7px', color: '#999', textAlign: 'right', paddingRight: '3px', boxSizing: 'border-box', overflow: 'hidden' }} title={secondaryTimeZone}>
+                        {getTimeZoneAbbreviation(secondaryTimeZone, start)}
+                    </div>
+                )}
                 {weekDays.map((d: Date, i: number) => (
                     <div key={i} style={{ flex: 1, textAlign: 'center', padding: '2px', fontSize: '10px', color: isToday(d) ? '#007bff' : '#333' }}>
-                         <div>{format(d, 'EEE')}</div>
+                         <div>{format(d, compact && days > 1 ? 'EEEEE' : 'EEE')}</div>
                          <div style={{ fontWeight: 'bold' }}>{format(d, 'd')}</div>
                     </div>
                 ))}
             </div>
 
+            {/* All-day lane */}
+            <div style={{ display: 'flex', borderBottom: '1px solid #eee', flexShrink: 0 }}>
+                <div style={{ width: `${scalesWidth}px`, flexShrink: 0, fontSize: '7px', color: '#999', textAlign: 'right', paddingRight: '3px', paddingTop: '2px', boxSizing: 'border-box' }}>all-day</div>
+                <div style={{ flex: 1, display: 'grid', gridTemplateColumns: `repeat(${days}, 1fr)`, gridAutoRows: '12px', rowGap: '1px', padding: '1px 0', minHeight: '12px', maxHeight: '40px', overflowY: 'auto' }}>
+                    {allDayBars.map(bar => (
+                        <div
+                            key={bar.event.id}
+                            title={bar.event.title}
+                            onClick={onEventClick ? () => onEventClick(bar.event) : undefined}
+                            style={{
+                                gridRow: bar.lane + 1, gridColumn: `${bar.col + 1} / span ${bar.span}`, margin: '0 1px',
+                                backgroundColor: bar.event.color, color: 'white', borderRadius: '2px', padding: '0 3px',
+                                fontSize: '9px', lineHeight: '12px', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis', cursor: 'pointer'
+                            }}
+                        >
+                            {bar.event.title}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
             {/* Scrollable Area */}
             <div style={{ flex: 1, overflowY: 'auto', position: 'relative', display: 'flex' }}>
+                {/* Secondary Time Scale */}
+                {secondaryTimeZone && (
+                    <div style={{ width: `${SCALE_WIDTH}px`, flexShrink: 0, background: '#f3f3f3' }}>
+                        {hours.map(h => (
+                            <div key={h} style={{ height: `${hourHeight}px`, fontSize: '9px', color: '#aaa', textAlign: 'right', paddingRight: '3px' }}>
+                                {secondaryLabel(h)}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Time Scale */}
-                <div style={{ width: '30px', flexShrink: 0, borderRight: '1px solid #eee', background: '#fafafa' }}>
+                <div style={{ width: `${SCALE_WIDTH}px`, flexShrink: 0, borderRight: '1px solid #eee', background: '#fafafa' }}>
                     {hours.map(h => (
                         <div key={h} style={{ height: `${hourHeight}px`, fontSize: '9px', color: '#999', textAlign: 'right', paddingRight: '3px' }}>
                             {h}:00
@@ -233,34 +741,77 @@ const TimeGridView: React.FC<TimeGridViewProps> = ({ currentDate, events, days,
                     {hours.map(h => (
                         <div key={h} style={{ height: `${hourHeight}px`, borderBottom: '1px solid #f9f9f9', width: '100%' }} />
                     ))}
-                    
+
                     {/* Events Layer */}
-                    <div style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', display: 'flex' }}>
+                    <div
+                        ref={layerRef}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => setDrag(null)}
+                        style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', display: 'flex', touchAction: 'none' }}
+                    >
                          {weekDays.map((d: Date, i: number) => {
-                             const dayEvents = events.filter((e: CalendarEvent) => isSameDay(new Date(e.date), d) && !e.isAllDay);
+                             // Events running past midnight show their part of each day
+                             const daySegments = events
+                                 .filter((e: CalendarEvent) => !e.isAllDay)
+                                 .map((ev: CalendarEvent) => ({ ev, segment: getDaySegment(ev, d) }))
+                                 .filter((item): item is { ev: CalendarEvent; segment: DaySegment } => item.segment !== null);
+                             const previewSegment = preview && getDaySegment(preview, d);
+                             const creating = drag?.kind === 'create' && drag.moved && drag.dayIndex === i ? drag : null;
                              return (
-                                 <div key={i} style={{ flex: 1, position: 'relative', borderRight: '1px solid #f0f0f0', height: `${hourHeight * 24}px` }} onClick={() => onDayClick(d)}>
-                                     {dayEvents.map((ev: CalendarEvent) => {
-                                         const [startH, startM] = (ev.startTime || '00:00').split(':').map(Number);
-                                         const [endH, endM] = (ev.endTime || '01:00').split(':').map(Number);
-                                         const top = (startH + startM / 60) * hourHeight;
-                                         const duration = ((endH + endM / 60) - (startH + startM / 60));
+                                 <div key={i} style={{ flex: 1, position: 'relative', borderRight: '1px solid #f0f0f0', height: `${hourHeight * 24}px` }} onPointerDown={startCreate}>
+                                     {packDaySegments(daySegments, minMinutes).map(({ ev, segment, column, columns }) => {
+                                         const top = (segment.startMinutes / 60) * hourHeight;
+                                         const duration = (segment.endMinutes - segment.startMinutes) / 60;
                                          const height = Math.max(15, duration * hourHeight);
+                                         const radius = `${segment.continuesBefore ? 0 : 2}px ${segment.continuesBefore ? 0 : 2}px ${segment.continuesAfter ? 0 : 2}px ${segment.continuesAfter ? 0 : 2}px`;
+                                         const isDragged = preview?.id === ev.id;
 
                                          return (
-                                             <div key={ev.id} 
-                                                  style={{ 
-                                                      position: 'absolute', top: `${top}px`, height: `${height}px`, 
-                                                      left: '1px', right: '1px', 
-                                                      backgroundColor: ev.color, opacity: 0.85, 
-                                                      borderRadius: '2px', padding: '1px 2px', color: 'white', 
-                                                      fontSize: '9px', overflow: 'hidden', cursor: 'pointer', zIndex: 10
+                                             <div key={ev.id}
+                                                  title={ev.title}
+                                                  onPointerDown={(e) => startMove(e, ev)}
+                                                  style={{
+                                                      position: 'absolute', top: `${top}px`, height: `${height}px`,
+                                                      left: `calc(${(column / columns) * 100}% + 1px)`, width: `calc(${100 / columns}% - 2px)`,
+                                                      backgroundColor: ev.color, opacity: isDragged ? 0.35 : 0.85,
+                                                      borderRadius: radius, padding: '1px 2px', color: 'white', boxSizing: 'border-box',
+                                                      fontSize: '9px', overflow: 'hidden', cursor: onEventChange ? 'grab' : 'pointer', zIndex: 10
                                                   }}
                                              >
-                                                 {ev.title}
+                                                 {segment.continuesBefore && '… '}{ev.title}
+                                                 {onEventChange && !segment.continuesAfter && (
+                                                     <div
+                                                         onPointerDown={(e) => startResize(e, ev)}
+                                                         style={{ position: 'absolute', left: 0, right: 0, bottom: 0, height: '5px', cursor: 'ns-resize' }}
+                                                     />
+                                                 )}
                                              </div>
                                          );
                                      })}
+
+                                     {preview && previewSegment && (
+                                         <div style={{
+                                             position: 'absolute', top: `${(previewSegment.startMinutes / 60) * hourHeight}px`,
+                                             height: `${Math.max(15, ((previewSegment.endMinutes - previewSegment.startMinutes) / 60) * hourHeight)}px`,
+                                             left: '1px', right: '1px', backgroundColor: preview.color, opacity: 0.9, border: '1px dashed white',
+                                             borderRadius: '2px', padding: '1px 2px', color: 'white', fontSize: '9px', overflow: 'hidden', zIndex: 20, pointerEvents: 'none', boxSizing: 'border-box'
+                                         }}>
+                                             {previewSegment.continuesBefore ? '… ' : `${preview.startTime} `}{preview.title}
+                                         </div>
+                                     )}
+
+                                     {creating && (
+                                         <div style={{
+                                             position: 'absolute',
+                                             top: `${((Math.min(creating.anchor, creating.current) - i * DAY_MINUTES) / 60) * hourHeight}px`,
+                                             height: `${(Math.abs(creating.current - creating.anchor) / 60) * hourHeight}px`,
+                                             left: '1px', right: '1px', background: 'rgba(0, 123, 255, 0.3)', border: '1px solid #007bff',
+                                             borderRadius: '2px', fontSize: '9px', color: '#004085', padding: '1px 2px', zIndex: 20, pointerEvents: 'none', boxSizing: 'border-box'
+                                         }}>
+                                             {toTimeString(Math.min(creating.anchor, creating.current) - i * DAY_MINUTES)} – {toTimeString(Math.max(creating.anchor, creating.current) - i * DAY_MINUTES)}
+                                         </div>
+                                     )}
                                  </div>
                              );
                          })}
@@ -271,21 +822,163 @@ const TimeGridView: React.FC<TimeGridViewProps> = ({ currentDate, events, days,
     );
 };
 
+interface YearViewProps {
+    year: number;
+    events: CalendarEvent[];
+    columns: number; // Months per row
+    onShowDay: (date: Date) => void;
+}
+
+// Events per day; multi-day events count on each of their days
+const countEventsPerDay = (events: CalendarEvent[]) => {
+    const counts = new Map<string, number>();
+    events.forEach(event => {
+        const last = getEventLastDay(event);
+        for (let day = startOfDay(getEventStart(event)); day <= last; day = addDays(day, 1)) {
+            const key = toDateKey(day);
+            counts.set(key, (counts.get(key) || 0) + 1);
+        }
+    });
+    return counts;
+};
+
+// Twelve small months, each day shaded by how many events it has
+const YearView: React.FC<YearViewProps> = ({ year, events, columns, onShowDay }) => {
+    const counts = useMemo(() => countEventsPerDay(events), [events]);
+    const busiest = Math.max(1, ...counts.values());
+
+    return (
+        <div style={{ height: '100%', overflowY: 'auto', padding: '4px', boxSizing: 'border-box', display: 'grid', gridTemplateColumns: `repeat(${columns}, 1fr)`, gap: '6px', alignContent: 'start' }}>
+            {Array.from({ length: 12 }, (_, month) => {
+                const monthStart = new Date(year, month, 1);
+                const offset = (getDay(monthStart) + 6) % 7;
+                const days = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) });
+                return (
+                    <div key={month}>
+                        <div style={{ fontSize: '9px', fontWeight: 'bold', color: '#666', marginBottom: '1px' }}>{format(monthStart, 'MMM')}</div>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: '1px' }}>
+                            {Array.from({ length: offset }, (_, i) => <div key={`empty-${i}`} />)}
+                            {days.map(day => {
+                                const count = counts.get(toDateKey(day)) || 0;
+                                return (
+                                    <div
+                                        key={day.getDate()}
+                                        onClick={() => onShowDay(day)}
+                                        title={`${format(day, 'EEE, MMM d')}: ${count} event${count === 1 ? '' : 's'}`}
+                                        style={{
+                                            aspectRatio: '1', borderRadius: '1px', cursor: 'pointer',
+                                            backgroundColor: count > 0 ? `rgba(0, 123, 255, ${0.2 + 0.8 * (count / busiest)})` : '#f0f0f0',
+                                            outline: isToday(day) ? '1px solid #ff9800' : 'none'
+                                        }}
+                                    />
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+interface AgendaViewProps {
+    start: Date;
+    days: number;
+    events: CalendarEvent[];
+    compact?: boolean;
+    onEventClick?: (event: CalendarEvent) => void;
+    onShowDay: (date: Date) => void;
+    onLoadMore: () => void;
+}
+
+// Days with events as a list; scrolling to the end loads further days
+const AgendaView: React.FC<AgendaViewProps> = ({ start, days, events, compact, onEventClick, onShowDay, onLoadMore }) => {
+    // Scroll events keep coming while the next page renders; ask once per length
+    const requestedRef = useRef(0);
+    const groups = eachDayOfInterval({ start, end: addDays(start, days - 1) })
+        .map(day => ({
+            day,
+            events: events
+                .filter(ev => occursOnDay(ev, day))
+                .sort((a, b) => Number(!a.isAllDay) - Number(!b.isAllDay) || getEventStart(a).getTime() - getEventStart(b).getTime()),
+        }))
+        .filter(group => group.events.length > 0);
+
+    const loadMore = () => {
+        if (requestedRef.current === days) return;
+        requestedRef.current = days;
+        onLoadMore();
+    };
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const el = e.currentTarget;
+        if (el.scrollTop + el.clientHeight >= el.scrollHeight - 40) loadMore();
+    };
+
+    const timeLabel = (ev: CalendarEvent, day: Date) => {
+        const segment = getDaySegment(ev, day);
+        if (ev.isAllDay || !segment) return 'All day';
+        return `${toTimeString(segment.startMinutes)}–${toTimeString(segment.endMinutes)}`;
+    };
+
+    return (
+        <div onScroll={handleScroll} style={{ height: '100%', overflowY: 'auto', padding: '2px 6px', boxSizing: 'border-box' }}>
+            {groups.map(({ day, events: dayEvents }) => (
+                <div key={day.toISOString()} style={{ marginBottom: '4px' }}>
+                    <div
+                        onClick={() => onShowDay(day)}
+                        style={{ fontSize: '10px', fontWeight: 'bold', color: isToday(day) ? '#007bff' : '#666', borderBottom: '1px solid #eee', padding: '2px 0', cursor: 'pointer' }}
+                    >
+                        {format(day, compact ? 'EEE, MMM d' : 'EEEE, MMMM d, yyyy')}
+                    </div>
+                    {dayEvents.map(ev => (
+                        <div
+                            key={ev.id}
+                            onClick={onEventClick ? () => onEventClick(ev) : undefined}
+                            style={{ display: 'flex', alignItems: compact ? 'flex-start' : 'center', flexDirection: compact ? 'column' : 'row', gap: compact ? 0 : '6px', padding: '2px 0', fontSize: '10px', cursor: onEventClick ? 'pointer' : 'default' }}
+                        >
+                            <span style={{ color: '#999', width: compact ? 'auto' : '70px', flexShrink: 0, fontSize: compact ? '8px' : '10px' }}>{timeLabel(ev, day)}</span>
+                            <span style={{ display: 'flex', alignItems: 'center', gap: '4px', minWidth: 0 }}>
+                                <span style={{ width: '6px', height: '6px', borderRadius: '50%', backgroundColor: ev.color, flexShrink: 0 }} />
+                                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{ev.title}</span>
+                                {!compact && ev.location && <span style={{ color: '#999', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>· {ev.location}</span>}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            ))}
+            {groups.length === 0 && (
+                <div style={{ color: '#999', fontSize: '10px', textAlign: 'center', padding: '10px 0' }}>No events until {format(addDays(start, days - 1), 'MMM d, yyyy')}</div>
+            )}
+            <button onClick={loadMore} style={{ display: 'block', margin: '4px auto', border: 'none', background: 'transparent', color: '#007bff', cursor: 'pointer', fontSize: '10px' }}>
+                Show more
+            </button>
+        </div>
+    );
+};
+
 interface DatePickerPopupProps {
     currentDate: Date;
     onSelect: (month: number, year: number) => void;
     onClose: () => void;
 }
 
+// Years are listed ten at a time around the shown year and can be paged without limit
 const DatePickerPopup: React.FC<DatePickerPopupProps> = ({ currentDate, onSelect, onClose }) => {
+    const [firstYear, setFirstYear] = useState(currentDate.getFullYear() - 5);
     const months = Array.from({ length: 12 }, (_, i) => new Date(0, i).toLocaleString('default', { month: 'short' }));
-    const years = Array.from({ length: 10 }, (_, i) => new Date().getFullYear() - 5 + i);
+    const years = Array.from({ length: 10 }, (_, i) => firstYear + i);
+    const pickerItemStyle = (selected: boolean): React.CSSProperties => ({ cursor: 'pointer', fontSize: '10px', padding: '1px 4px', fontWeight: selected ? 'bold' : 'normal', color: selected ? '#007bff' : '#333' });
 
     return (
         <div style={{ position: 'absolute', top: '25px', left: '0', zIndex: 100, background: 'white', border: '1px solid #ccc', borderRadius: '4px', boxShadow: '0 4px 10px rgba(0,0,0,0.1)', padding: '5px', display: 'flex', gap: '5px' }}>
-            <div style={{ display: 'flex', flexDirection: 'column' }}>{months.map((m, i) => <div key={m} onClick={() => onSelect(i, currentDate.getFullYear())} style={{cursor:'pointer', fontSize:'10px', padding:'1px 4px'}}>{m}</div>)}</div>
+            <div style={{ display: 'flex', flexDirection: 'column' }}>{months.map((m, i) => <div key={m} onClick={() => onSelect(i, currentDate.getFullYear())} style={pickerItemStyle(i === currentDate.getMonth())}>{m}</div>)}</div>
             <div style={{ width: '1px', background: '#eee' }}></div>
-            <div style={{ display: 'flex', flexDirection: 'column' }}>{years.map(y => <div key={y} onClick={() => onSelect(currentDate.getMonth(), y)} style={{cursor:'pointer', fontSize:'10px', padding:'1px 4px'}}>{y}</div>)}</div>
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <button onClick={() => setFirstYear(firstYear - 10)} title="Earlier years" style={navBtnStyle}><FaChevronUp size={8} /></button>
+                {years.map(y => <div key={y} onClick={() => onSelect(currentDate.getMonth(), y)} style={pickerItemStyle(y === currentDate.getFullYear())}>{y}</div>)}
+                <button onClick={() => setFirstYear(firstYear + 10)} title="Later years" style={navBtnStyle}><FaChevronDown size={8} /></button>
+            </div>
             <div style={{position:'fixed', top:0, left:0, width:'100vw', height:'100vh', zIndex:-1}} onClick={onClose}/>
         </div>
     );
@@ -295,11 +988,13 @@ interface ViewBtnProps {
     active: boolean;
     onClick: () => void;
     icon: React.ReactNode;
+    title?: string;
 }
 
-const ViewBtn: React.FC<ViewBtnProps> = ({ active, onClick, icon }) => (
-    <button onClick={onClick} style={{ background: active ? 'white' : 'transparent', border: 'none', borderRadius: '2px', padding: '2px 4px', cursor: 'pointer', color: active ? '#007bff' : '#666' }}>{icon}</button>
+const ViewBtn: React.FC<ViewBtnProps> = ({ active, onClick, icon, title }) => (
+    <button onClick={onClick} title={title} style={{ background: active ? 'white' : 'transparent', border: 'none', borderRadius: '2px', padding: '2px 4px', cursor: 'pointer', color: active ? '#007bff' : '#666' }}>{icon}</button>
 );
 
 const cellStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'center', width: '100%', height: '100%', borderRadius: '2px' };
-const navBtnStyle = { background: 'transparent', border: 'none', cursor: 'pointer', color: '#666', padding: '2px' };
\ No newline at end of file
+const navBtnStyle = { background: 'transparent', border: 'none', cursor: 'pointer', color: '#666', padding: '2px' };
+const headerSelectStyle: React.CSSProperties = { fontSize: '9px', padding: '0', border: '1px solid #ddd', borderRadius: '3px', background: 'white' };
\ No newline at end of file
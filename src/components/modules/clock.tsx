@@ -1,13 +1,19 @@
 import React, { useEffect, useState, useRef } from 'react';
+import { differenceInCalendarDays } from 'date-fns';
+import { getLocalTimeZone, getTimeZoneCity, toZonedWallClock } from '../../utils/timeZones';
+import { TimeZoneSelect } from '../timeZoneSelect';
 
 interface ClockProps {
   mode: 'analog' | 'digital' | 'timer';
   onToggleMode: () => void;
   onToggleTimer?: () => void;
+  worldClocks?: string[]; // IANA zones
+  onWorldClocksChange?: (zones: string[]) => void;
 }
 
-export const Clock: React.FC<ClockProps> = ({ mode, onToggleMode, onToggleTimer }) => {
+export const Clock: React.FC<ClockProps> = ({ mode, onToggleMode, onToggleTimer, worldClocks = [], onWorldClocksChange }) => {
   const [time, setTime] = useState(new Date());
+  const [editingZones, setEditingZones] = useState(false);
   
   // Timer state
   const [timerSeconds, setTimerSeconds] = useState(0); // Total seconds remaining
@@ -95,6 +101,16 @@ export const Clock: React.FC<ClockProps> = ({ mode, onToggleMode, onToggleTimer
         >
           {mode === 'analog' ? '12:00' : '🕒'}
         </button>
+        {onWorldClocksChange && (
+          <button
+            onClick={() => setEditingZones(!editingZones)}
+            onMouseDown={(e) => e.stopPropagation()}
+            style={{ fontSize: '10px', padding: '2px 5px', cursor: 'pointer' }}
+            title="World clocks"
+          >
+            🌐
+          </button>
+        )}
         {onToggleTimer && (
           <button 
             onClick={onToggleTimer}
@@ -117,7 +133,7 @@ export const Clock: React.FC<ClockProps> = ({ mode, onToggleMode, onToggleTimer
 
       {/* Analog Mode */}
       {mode === 'analog' && (
-        <svg viewBox="0 0 100 100" style={{ width: '90%', height: '90%' }}>
+        <svg viewBox="0 0 100 100" style={{ width: '90%', height: worldClocks.length > 0 || editingZones ? '60%' : '90%' }}>
           {/* Face */}
           <circle cx="50" cy="50" r="45" fill="white" stroke="#333" strokeWidth="2" />
           {/* Hour Hand */}
@@ -141,6 +157,39 @@ export const Clock: React.FC<ClockProps> = ({ mode, onToggleMode, onToggleTimer
         </svg>
       )}
 
+      {/* World Clocks */}
+      {mode !== 'timer' && (worldClocks.length > 0 || editingZones) && (
+        <div onMouseDown={(e) => e.stopPropagation()} style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '4px 12px', padding: '4px 8px', maxWidth: '100%' }}>
+          {worldClocks.map(zone => {
+            const zoned = toZonedWallClock(time, zone);
+            // Days ahead of or behind this computer's date
+            const dayOffset = differenceInCalendarDays(zoned, toZonedWallClock(time, getLocalTimeZone()));
+            return (
+              <div key={zone} title={zone} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', fontSize: '10px', color: '#666' }}>
+                <span style={{ whiteSpace: 'nowrap' }}>
+                  {getTimeZoneCity(zone)}
+                  {editingZones && (
+                    <button onClick={() => onWorldClocksChange?.(worldClocks.filter(z => z !== zone))} title="Remove" style={{ border: 'none', background: 'transparent', color: '#dc3545', cursor: 'pointer', padding: '0 0 0 3px', fontSize: '10px' }}>×</button>
+                  )}
+                </span>
+                <span style={{ fontSize: '13px', fontWeight: 'bold', color: '#333' }}>
+                  {zoned.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {dayOffset !== 0 && <sup style={{ fontSize: '8px', color: '#999' }}>{dayOffset > 0 ? `+${dayOffset}` : dayOffset}</sup>}
+                </span>
+              </div>
+            );
+          })}
+          {editingZones && (
+            <TimeZoneSelect
+              value=""
+              onChange={(zone) => { if (zone && !worldClocks.includes(zone)) onWorldClocksChange?.([...worldClocks, zone]); }}
+              emptyLabel="Add city…"
+              style={{ fontSize: '10px', maxWidth: '120px' }}
+            />
+          )}
+        </div>
+      )}
+
       {/* Timer Mode */}
       {mode === 'timer' && (
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '20px', width: '100%', padding: '20px' }}>
@@ -1,84 +1,230 @@
-import React from 'react';
-import { FaBell, FaPlus } from 'react-icons/fa';
-import type { CalendarEvent } from '../../types';
+import React, { useMemo, useState } from 'react';
+import { FaBell, FaPlus, FaSyncAlt, FaFileImport, FaFileExport, FaSearch, FaHistory, FaFlag } from 'react-icons/fa';
+import { addDays, differenceInCalendarDays, endOfDay, format, isThisYear, startOfDay, startOfToday, subDays } from 'date-fns';
+import type { CalendarEvent, EventsHorizon } from '../../types';
+import { expandEvents, toDateKey } from '../../utils/recurrence';
+import { getEventEnd, getEventLastDay, getEventStart, isMultiDay } from '../../utils/eventTime';
+import { filterEventsByCategory } from '../../utils/categories';
+import type { LegendCategory } from '../../utils/categories';
+import { CategoryLegend } from '../categoryLegend';
+import { isHolidayEvent } from '../../utils/holidays';
+import { localizeEvent } from '../../utils/timeZones';
+import { EventDetailPopover } from '../eventDetailPopover';
+
+// How far ahead (and back, with past events shown) occurrences of recurring events are listed
+const RECURRENCE_HORIZON_DAYS = 90;
+
+// Days listed from today on; null lists everything ahead
+const HORIZONS: { horizon: EventsHorizon; label: string; days: number | null }[] = [
+  { horizon: 'today', label: 'Today', days: 1 },
+  { horizon: 'week', label: '7 days', days: 7 },
+  { horizon: 'month', label: '30 days', days: 30 },
+  { horizon: 'all', label: 'All', days: null },
+];
+
+const matchesSearch = (evt: CalendarEvent, query: string) =>
+  [evt.title, evt.location, evt.category].some(text => text?.toLowerCase().includes(query));
+
+const getDayLabel = (day: Date, today: Date) => {
+  const offset = differenceInCalendarDays(day, today);
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  if (offset === -1) return 'Yesterday';
+  return format(day, isThisYear(day) ? 'EEEE, MMM d' : 'EEEE, MMM d, yyyy');
+};
 
 interface EventsListProps {
   events: CalendarEvent[];
   onAddClick: () => void;
   onToggleNotify: (id: string) => void;
+  onEventClick?: (event: CalendarEvent) => void;
+  onImportClick?: () => void;
+  onExportClick?: () => void;
+  categories?: LegendCategory[];
+  visibleCategories?: string[];
+  onVisibleCategoriesChange?: (visible: string[] | undefined) => void;
+  onManageCategories?: () => void;
+  horizon?: EventsHorizon;
+  onHorizonChange?: (horizon: EventsHorizon) => void;
+  showPast?: boolean;
+  onShowPastChange?: (showPast: boolean) => void;
+  hideHolidays?: boolean; // Holidays are left out of `events` by the caller; this only drives the toggle
+  onHideHolidaysChange?: (hideHolidays: boolean) => void;
   backgroundColor?: string;
 }
 
-export const EventsList: React.FC<EventsListProps> = ({ events, onAddClick, onToggleNotify, backgroundColor }) => {
-  // Sort events by date, then by time
-  const sortedEvents = [...events].sort((a, b) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      if (dateA !== dateB) return dateA - dateB;
-      if (a.isAllDay) return -1;
-      if (b.isAllDay) return 1;
-      return (a.startTime || '').localeCompare(b.startTime || '');
-  });
+export const EventsList: React.FC<EventsListProps> = ({ events, onAddClick, onToggleNotify, onEventClick, onImportClick, onExportClick, categories, visibleCategories, onVisibleCategoriesChange, onManageCategories, horizon = 'month', onHorizonChange, showPast = false, onShowPastChange, hideHolidays = false, onHideHolidaysChange, backgroundColor }) => {
+  const [search, setSearch] = useState('');
+  const [detailEvent, setDetailEvent] = useState<CalendarEvent | null>(null);
+  const query = search.trim().toLowerCase();
+
+  // Events that began on an earlier day and are still running are listed first
+  const { today, ongoingEvents, dayGroups } = useMemo(() => {
+      const today = startOfToday();
+      const days = HORIZONS.find(h => h.horizon === horizon)?.days ?? null;
+      const rangeEnd = endOfDay(addDays(today, (days ?? RECURRENCE_HORIZON_DAYS) - 1));
+      const expandStart = showPast ? subDays(today, RECURRENCE_HORIZON_DAYS) : today;
+      const inRange = (evt: CalendarEvent) =>
+          (showPast || getEventEnd(evt) > today) && (days === null || getEventStart(evt) <= rangeEnd);
+      const listed = expandEvents(filterEventsByCategory(events, visibleCategories), subDays(expandStart, 1), addDays(rangeEnd, 1))
+          .map(evt => localizeEvent(evt))
+          .filter(evt => inRange(evt) && (!query || matchesSearch(evt, query)));
+
+      const isOngoing = (evt: CalendarEvent) => getEventStart(evt) < today && getEventEnd(evt) > today;
+      // Sort events by date, then by time
+      const sorted = listed.filter(evt => !isOngoing(evt)).sort((a, b) => {
+          const dateA = startOfDay(getEventStart(a)).getTime();
+          const dateB = startOfDay(getEventStart(b)).getTime();
+          if (dateA !== dateB) return dateA - dateB;
+          if (a.isAllDay) return -1;
+          if (b.isAllDay) return 1;
+          return (a.startTime || '').localeCompare(b.startTime || '');
+      });
+      const groups: { day: Date; events: CalendarEvent[] }[] = [];
+      sorted.forEach(evt => {
+          const day = startOfDay(getEventStart(evt));
+          const last = groups[groups.length - 1];
+          if (last && toDateKey(last.day) === toDateKey(day)) last.events.push(evt);
+          else groups.push({ day, events: [evt] });
+      });
+      return { today, ongoingEvents: listed.filter(isOngoing), dayGroups: groups };
+  }, [events, visibleCategories, horizon, showPast, query]);
+
+  const renderEvent = (evt: CalendarEvent, ongoing: boolean) => {
+      const dateObj = new Date(evt.date);
+      const month = dateObj.toLocaleString('default', { month: 'short' });
+      const day = dateObj.getDate();
+      const isHoliday = isHolidayEvent(evt);
+      const lastDay = format(getEventLastDay(evt), 'MMM d');
+
+      let timeLabel = evt.isAllDay ? null : `${evt.startTime} ${evt.endTime ? `- ${evt.endTime}` : ''}`;
+      if (ongoing) timeLabel = `Until ${lastDay}${evt.isAllDay || !evt.endTime ? '' : ` ${evt.endTime}`}`;
+      else if (isMultiDay(evt)) timeLabel = evt.isAllDay ? `Until ${lastDay}` : `${evt.startTime} - ${lastDay} ${evt.endTime || ''}`;
+
+      return (
+          <div key={evt.id} className="event-row" onClick={() => setDetailEvent(evt)} style={{ cursor: 'pointer' }}>
+              <div className="event-date-box">
+                  <span className="event-month" style={{color: isHoliday ? '#d9534f' : '#666'}}>{month}</span>
+                  <span className="event-day" style={{color: isHoliday ? '#d9534f' : '#333'}}>{day}</span>
+              </div>
+              <div className="event-details">
+                  <div className="event-time">
+                      {timeLabel === null ? (
+                          <span style={{fontWeight:'bold', color: '#555', fontSize:'10px', textTransform:'uppercase'}}>All Day</span>
+                      ) : (
+                          <span>{timeLabel}</span>
+                      )}
+                      
+                      {!isHoliday && (
+                          <button 
+                              onClick={(e) => { e.stopPropagation(); onToggleNotify(evt.seriesId || evt.id); }}
+                              style={{ border: 'none', background: 'transparent', cursor: 'pointer', marginLeft: 'auto', color: evt.notify ? '#007bff' : '#ccc' }}
+                          >
+                              <FaBell size={10} />
+                          </button>
+                      )}
+                  </div>
+                  <div className="event-title" style={{ borderLeft: `3px solid ${evt.color}`, paddingLeft: '5px' }}>
+                      {evt.seriesId && <FaSyncAlt size={8} color="#999" style={{ marginRight: '4px' }} title="Recurring" />}
+                      {evt.title}
+                  </div>
+                  {evt.location && <div className="event-loc">{evt.location}</div>}
+              </div>
+          </div>
+      );
+  };
 
   return (
-    <div style={{ display: 'flex', flexDirection: 'column', height: '100%', background: backgroundColor, padding: '15px' }}>
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%', background: backgroundColor, padding: '15px', position: 'relative' }}>
       
       {/* Header */}
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
         <span style={{ fontWeight: 'bold', fontSize: '16px' }}>Upcoming Events</span>
-        <button 
-            onClick={onAddClick}
-            style={{ 
-                background: '#007bff', color: 'white', border: 'none', borderRadius: '4px', 
-                padding: '5px 10px', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' 
-            }}
-        >
-            <FaPlus size={10}/> Add Event
-        </button>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            {onImportClick && (
+                <button onClick={onImportClick} title="Import .ics file" style={iconBtnStyle}><FaFileImport size={11} /></button>
+            )}
+            {onExportClick && (
+                <button onClick={onExportClick} title="Export to .ics file" style={iconBtnStyle}><FaFileExport size={11} /></button>
+            )}
+            <button 
+                onClick={onAddClick}
+                style={{ 
+                    background: '#007bff', color: 'white', border: 'none', borderRadius: '4px', 
+                    padding: '5px 10px', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px' 
+                }}
+            >
+                <FaPlus size={10}/> Add Event
+            </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '10px' }}>
+        <div style={{ flex: 1, minWidth: 0, display: 'flex', alignItems: 'center', gap: '5px', border: '1px solid #ddd', borderRadius: '4px', padding: '3px 6px', background: 'white' }}>
+            <FaSearch size={10} color="#999" />
+            <input
+                type="text"
+                value={search}
+                placeholder="Search events"
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setSearch(''); }}
+                style={{ flex: 1, minWidth: 0, border: 'none', outline: 'none', fontSize: '12px', background: 'transparent' }}
+            />
+        </div>
+        {onHorizonChange && (
+            <select value={horizon} onChange={(e) => onHorizonChange(e.target.value as EventsHorizon)} title="Show events ahead" style={{ fontSize: '11px', border: '1px solid #ddd', borderRadius: '4px', padding: '2px', background: 'white' }}>
+                {HORIZONS.map(h => <option key={h.horizon} value={h.horizon}>{h.label}</option>)}
+            </select>
+        )}
+        {onShowPastChange && (
+            <button onClick={() => onShowPastChange(!showPast)} title={showPast ? 'Hide past events' : 'Show past events'} style={{ ...iconBtnStyle, color: showPast ? '#007bff' : '#ccc' }}>
+                <FaHistory size={11} />
+            </button>
+        )}
+        {onHideHolidaysChange && (
+            <button onClick={() => onHideHolidaysChange(!hideHolidays)} title={hideHolidays ? 'Show holidays' : 'Hide holidays'} style={{ ...iconBtnStyle, color: hideHolidays ? '#ccc' : '#d9534f' }}>
+                <FaFlag size={11} />
+            </button>
+        )}
       </div>
 
       {/* List */}
       <div style={{ flex: 1, overflowY: 'auto' }}>
-        {sortedEvents.length === 0 && <div style={{color: '#999', fontSize: '12px', textAlign: 'center', marginTop: '20px'}}>No upcoming events</div>}
-        
-        {sortedEvents.map(evt => {
-            const dateObj = new Date(evt.date);
-            const month = dateObj.toLocaleString('default', { month: 'short' });
-            const day = dateObj.getDate();
-            const isHoliday = evt.category === 'Public Holiday';
-
-            return (
-                <div key={evt.id} className="event-row">
-                    <div className="event-date-box">
-                        <span className="event-month" style={{color: isHoliday ? '#d9534f' : '#666'}}>{month}</span>
-                        <span className="event-day" style={{color: isHoliday ? '#d9534f' : '#333'}}>{day}</span>
-                    </div>
-                    <div className="event-details">
-                        <div className="event-time">
-                            {evt.isAllDay ? (
-                                <span style={{fontWeight:'bold', color: '#555', fontSize:'10px', textTransform:'uppercase'}}>All Day</span>
-                            ) : (
-                                <span>{evt.startTime} {evt.endTime ? `- ${evt.endTime}` : ''}</span>
-                            )}
-                            
-                            {!isHoliday && (
-                                <button 
-                                    onClick={() => onToggleNotify(evt.id)}
-                                    style={{ border: 'none', background: 'transparent', cursor: 'pointer', marginLeft: 'auto', color: evt.notify ? '#007bff' : '#ccc' }}
-                                >
-                                    <FaBell size={10} />
-                                </button>
-                            )}
-                        </div>
-                        <div className="event-title" style={{ borderLeft: `3px solid ${evt.color}`, paddingLeft: '5px' }}>
-                            {evt.title}
-                        </div>
-                        {evt.location && <div className="event-loc">{evt.location}</div>}
-                    </div>
-                </div>
-            );
-        })}
+        {dayGroups.length === 0 && ongoingEvents.length === 0 && (
+            <div style={{color: '#999', fontSize: '12px', textAlign: 'center', marginTop: '20px'}}>{query ? 'No matching events' : 'No upcoming events'}</div>
+        )}
+
+        {ongoingEvents.length > 0 && (
+            <>
+                <div style={groupHeaderStyle}>Ongoing</div>
+                {ongoingEvents.map(evt => renderEvent(evt, true))}
+            </>
+        )}
+        {dayGroups.map(group => (
+            <React.Fragment key={toDateKey(group.day)}>
+                <div style={{ ...groupHeaderStyle, color: differenceInCalendarDays(group.day, today) < 0 ? '#bbb' : '#888' }}>{getDayLabel(group.day, today)}</div>
+                {group.events.map(evt => renderEvent(evt, false))}
+            </React.Fragment>
+        ))}
       </div>
+
+      {categories && onVisibleCategoriesChange && (
+          <div style={{ margin: '8px -15px -15px' }}>
+              <CategoryLegend categories={categories} visible={visibleCategories} onChange={onVisibleCategoriesChange} onManage={onManageCategories} />
+          </div>
+      )}
+
+      {detailEvent && (
+          <EventDetailPopover
+              event={detailEvent}
+              onEdit={onEventClick && !isHolidayEvent(detailEvent) ? () => { onEventClick(detailEvent); setDetailEvent(null); } : undefined}
+              onClose={() => setDetailEvent(null)}
+          />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+const groupHeaderStyle: React.CSSProperties = { fontSize: '10px', fontWeight: 'bold', color: '#888', textTransform: 'uppercase', margin: '6px 0 4px' };
+const iconBtnStyle: React.CSSProperties = { background: 'transparent', border: 'none', cursor: 'pointer', color: '#666', padding: '4px' };
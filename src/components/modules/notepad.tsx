@@ -140,13 +140,15 @@ const ReferenceNode = Extension.create({
 interface NotepadProps {
     content: string;
     onChange: (text: string) => void;
-    allEvents: CalendarEvent[];
-    onEditEvent: (event: CalendarEvent) => void;
+    allEvents?: CalendarEvent[]; // Needed for event references to open their event
+    onEditEvent?: (event: CalendarEvent) => void;
     backgroundColor?: string;
+    readOnly?: boolean; // Shows the content without toolbar, e.g. an event description
+    placeholder?: string;
 }
 
 export const Notepad: React.FC<NotepadProps> = ({ 
-    content, onChange, allEvents, onEditEvent, backgroundColor = 'white'
+    content, onChange, allEvents, onEditEvent, backgroundColor = 'white', readOnly = false, placeholder = 'Write something...'
 }) => {
   
   const [showTablePicker, setShowTablePicker] = useState(false);
@@ -155,7 +157,7 @@ export const Notepad: React.FC<NotepadProps> = ({
   useEffect(() => {
       const handler = (e: CustomEvent<{ id: string, type: string }>) => {
           const { id, type } = e.detail;
-          if (type === 'event') {
+          if (type === 'event' && allEvents && onEditEvent) {
               const evt = allEvents.find(ev => ev.id === id);
               if (evt) onEditEvent(evt);
           }
@@ -178,9 +180,10 @@ export const Notepad: React.FC<NotepadProps> = ({
       TableCell,
       ResizableImage,
       ReferenceNode,
-      Placeholder.configure({ placeholder: 'Write something...' })
+      Placeholder.configure({ placeholder })
     ],
     content: content || '', 
+    editable: !readOnly,
     onUpdate: ({ editor }) => {
         onChange(editor.getHTML());
     },
@@ -222,6 +225,13 @@ export const Notepad: React.FC<NotepadProps> = ({
     }
   });
 
+  // Content can change from outside the editor (workspace undo/redo)
+  useEffect(() => {
+      if (editor && !editor.isFocused && (content || '') !== editor.getHTML()) {
+          editor.commands.setContent(content || '', { emitUpdate: false });
+      }
+  }, [content, editor]);
+
   const insertTable = (rows: number, cols: number) => {
       editor?.chain().focus().insertTable({ rows, cols, withHeaderRow: true }).run();
       setShowTablePicker(false);
@@ -246,7 +256,7 @@ export const Notepad: React.FC<NotepadProps> = ({
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       
       {/* TOOLBAR */}
-      <div className="notepad-toolbar" style={{ 
+      {!readOnly && <div className="notepad-toolbar" style={{ 
           padding: '5px', borderBottom: '1px solid #eee', background: '#fafafa', 
           display: 'flex', gap: '5px', flexWrap: 'wrap', alignItems: 'center'
       }}>
@@ -287,11 +297,11 @@ export const Notepad: React.FC<NotepadProps> = ({
         {/* Image */}
         <button onClick={() => fileInputRef.current?.click()}><FaImage/></button>
         <input type="file" ref={fileInputRef} onChange={handleImageUpload} style={{display:'none'}} accept="image/*" />
-      </div>
+      </div>}
 
       <EditorContent 
         editor={editor} 
-        style={{ flex: 1, overflowY: 'auto', background: backgroundColor, cursor: 'text', padding: '10px' }} 
+        style={{ flex: 1, overflowY: 'auto', background: backgroundColor, cursor: readOnly ? 'default' : 'text', padding: readOnly ? 0 : '10px' }} 
       />
 
       <style>{`
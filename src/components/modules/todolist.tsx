@@ -1,27 +1,54 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { FaCheck, FaStickyNote, FaPlus } from 'react-icons/fa';
-import type { TodoItem, CalendarEvent } from '../../types';
+import { FaCheck, FaStickyNote, FaPlus, FaRegCalendar, FaFlag, FaBell, FaFilter, FaCog, FaChevronDown, FaChevronRight, FaRedo } from 'react-icons/fa';
+import type { TodoItem, CalendarEvent, TodoSort, CompletedTodoMode } from '../../types';
 import { getImageUrl } from '../../utils/imageUtils';
+import { TODO_SORT_OPTIONS, describeDue, getPriorityInfo, isOverdue, sortTodos } from '../../utils/todoDue';
+import { sortByOrder } from '../../utils/todoOrder';
+import type { TodoDropPosition, TodoMoveStep } from '../../utils/todoOrder';
+import { parseQuickAdd } from '../../utils/quickAdd';
+import { describeRecurrence } from '../../utils/recurrence';
+import { ARCHIVE_AFTER_OPTIONS, COMPLETED_MODE_OPTIONS, describeArchiveAfter, getClearableRoots } from '../../utils/todoCompletion';
+
+// Alt + arrow keys move the focused item
+const STEP_KEYS: Record<string, TodoMoveStep> = { ArrowUp: 'up', ArrowDown: 'down', ArrowRight: 'indent', ArrowLeft: 'outdent' };
+const QUICK_ADD_HINT = '!high  #tag  @tomorrow 15:00  ^red';
+const ROW_KEYS_HINT = 'Arrows: navigate · Enter: new item · Space: done · Tab/Shift+Tab: indent/outdent · Alt+Up/Down: move · F2: edit · Del: remove';
 
 interface TodoListProps {
   moduleId: string;
   items: TodoItem[];
   allEvents: CalendarEvent[];
   backgroundColor?: string;
-  onAddTodo: (text: string, parentId?: string) => void;
+  onAddTodo: (text: string, parentId?: string, fields?: Partial<TodoItem>, afterId?: string) => void;
   onUpdateTodo: (id: string, data: Partial<TodoItem>) => void;
   onEditTodo: (item: TodoItem) => void;
   onDeleteTodo: (id: string) => void;
   onMoveTodo: (itemId: string, targetModuleId: string) => void; 
-  onReorderTodo: (itemId: string, targetId: string | null, position: 'before' | 'after' | 'inside') => void;
+  onReorderTodo: (itemId: string, targetId: string | null, position: TodoDropPosition) => void;
+  onStepTodo?: (itemId: string, step: TodoMoveStep) => void;
   onDragStartItem?: () => void;
   onDragEndItem?: () => void;
+  sort?: TodoSort;
+  onSortChange?: (sort: TodoSort) => void;
+  filterSummary?: string; // Smart lists: their filter, described
+  onEditFilter?: () => void;
+  completedMode?: CompletedTodoMode;
+  onCompletedModeChange?: (mode: CompletedTodoMode) => void;
+  archiveAfterDays?: number;
+  onArchiveAfterDaysChange?: (days: number | undefined) => void; // Lists only, not smart lists
+  archivedCount?: number;
+  onShowArchive?: () => void;
+  onClearCompleted?: () => void;
+  parentDoneFromChildren?: boolean;
+  onParentDoneFromChildrenChange?: (value: boolean) => void; // Lists only, not smart lists
 }
 
 export const TodoList: React.FC<TodoListProps> = ({ 
     moduleId, items, backgroundColor = 'white',
-    onAddTodo, onUpdateTodo, onEditTodo, onDeleteTodo, onMoveTodo, onReorderTodo,
-    onDragStartItem, onDragEndItem
+    onAddTodo, onUpdateTodo, onEditTodo, onDeleteTodo, onMoveTodo, onReorderTodo, onStepTodo,
+    onDragStartItem, onDragEndItem, sort = 'manual', onSortChange, filterSummary, onEditFilter,
+    completedMode = 'show', onCompletedModeChange, archiveAfterDays, onArchiveAfterDaysChange, archivedCount = 0, onShowArchive, onClearCompleted,
+    parentDoneFromChildren = false, onParentDoneFromChildrenChange
 }) => {
   
   const [newItemText, setNewItemText] = useState('');
@@ -30,31 +57,102 @@ export const TodoList: React.FC<TodoListProps> = ({
   const [hoveredItemId, setHoveredItemId] = useState<string | null>(null);
   const [addingSubItemTo, setAddingSubItemTo] = useState<string | null>(null);
   const [subItemText, setSubItemText] = useState('');
+  // New sibling typed below an item (Enter on a focused row)
+  const [addingSiblingAfter, setAddingSiblingAfter] = useState<string | null>(null);
+  const [siblingText, setSiblingText] = useState('');
+  // Set once the input is committed or cancelled, so the blur that follows does nothing
+  const siblingClosedRef = useRef(false);
 
   // Context Menu State
   const [contextMenu, setContextMenu] = useState<{x: number, y: number, item: TodoItem} | null>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
+  // Where a dragged item would land
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: TodoDropPosition } | null>(null);
+  // Moving an item under another parent remounts its row, so focus is given back once it renders
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const refocusIdRef = useRef<string | null>(null);
+  // Moves follow the manual order, which other sorts do not show
+  const canStep = !!onStepTodo && sort === 'manual';
+  // Smart lists show items of other lists; new items are added next to one of them
+  const isSmartList = filterSummary !== undefined;
+  // "Completed (N)" section, when done items are collapsed
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const shownItems = useMemo(() => completedMode === 'hide' ? items.filter(t => !t.done) : items, [items, completedMode]);
+  const clearableCount = useMemo(() => getClearableRoots(items).length, [items]);
+
+  // Done and total descendants of each item with sub-items, hidden done ones included
+  const progress = useMemo(() => {
+      const children = new Map<string, TodoItem[]>();
+      items.forEach(t => { if (t.parentId) children.set(t.parentId, [...(children.get(t.parentId) || []), t]); });
+      const result = new Map<string, { done: number; total: number }>();
+      const count = (id: string, seen: Set<string>): { done: number; total: number } => {
+          if (result.has(id)) return result.get(id)!;
+          const total = { done: 0, total: 0 };
+          seen.add(id);
+          (children.get(id) || []).forEach(child => {
+              if (seen.has(child.id)) return;
+              const sub = count(child.id, seen);
+              total.done += sub.done + (child.done ? 1 : 0);
+              total.total += sub.total + 1;
+          });
+          result.set(id, total);
+          return total;
+      };
+      children.forEach((_, id) => count(id, new Set()));
+      return result;
+  }, [items]);
+
+  const hasSubItems = (item: TodoItem) => (progress.get(item.id)?.total || 0) > 0;
+  // With parents following their sub-items, only items without sub-items are checked by hand
+  const canCheck = (item: TodoItem) => !(parentDoneFromChildren && hasSubItems(item));
+  const toggleCollapsed = (item: TodoItem) => onUpdateTodo(item.id, { collapsed: item.collapsed ? undefined : true });
+
+  useEffect(() => {
+      if (!refocusIdRef.current) return;
+      rowRefs.current.get(refocusIdRef.current)?.focus();
+      refocusIdRef.current = null;
+  }, [items]);
+
   useEffect(() => {
       const handleClick = () => setContextMenu(null);
       window.addEventListener('click', handleClick);
       return () => window.removeEventListener('click', handleClick);
   }, []);
 
+  // Typed items understand the quick-add syntax
+  const addTyped = (input: string, parentId?: string, afterId?: string) => {
+      const { text, fields } = parseQuickAdd(input);
+      if (text) onAddTodo(text, parentId, fields, afterId);
+  };
+
   const commitItem = () => {
     if (newItemText.trim() === '') return;
-    onAddTodo(newItemText);
+    addTyped(newItemText);
     setNewItemText('');
   };
   
   const commitSubItem = (parentId: string) => {
       if (subItemText.trim() !== '') {
-          onAddTodo(subItemText, parentId);
+          addTyped(subItemText, parentId);
       }
       setSubItemText('');
       setAddingSubItemTo(null);
   }
 
+  const commitSibling = (item: TodoItem, keepFocus: boolean, cancel = false) => {
+      if (siblingClosedRef.current) return;
+      siblingClosedRef.current = true;
+      if (!cancel && siblingText.trim() !== '') addTyped(siblingText, item.parentId, item.id);
+      setSiblingText('');
+      setAddingSiblingAfter(null);
+      if (keepFocus) {
+          refocusIdRef.current = item.id;
+          rowRefs.current.get(item.id)?.focus();
+      }
+  };
+
   // --- DRAG & DROP HANDLERS ---
   const handleDragStart = (e: React.DragEvent, item: TodoItem) => {
       e.dataTransfer.setData('todoId', item.id);
@@ -72,9 +170,10 @@ export const TodoList: React.FC<TodoListProps> = ({
       e.stopPropagation();
   };
 
-  const handleDrop = (e: React.DragEvent, targetId: string | null = null, position: 'before' | 'after' | 'inside' = 'after') => {
+  const handleDrop = (e: React.DragEvent, targetId: string | null = null, position: TodoDropPosition = 'after') => {
       e.preventDefault();
       e.stopPropagation();
+      setDropTarget(null);
       const plannerItemName = e.dataTransfer.getData('plannerItemName');
       const todoId = e.dataTransfer.getData('todoId');
       const originId = e.dataTransfer.getData('originId');
@@ -88,16 +187,39 @@ export const TodoList: React.FC<TodoListProps> = ({
       }
       
       if (!todoId) return;
+      // An item can be placed next to the items of a smart list, but not into the list itself
+      if (isSmartList && !targetId) return;
 
-      if (originId !== moduleId) {
+      if (originId !== moduleId && !targetId) {
           // Move from another module
           onMoveTodo(todoId, moduleId);
       } else {
-          // Reorder within same module
+          // Reorder, or move from another module next to / into the target
           onReorderTodo(todoId, targetId, position);
       }
   };
 
+  // Top quarter of a row: before it, bottom quarter: after it, in between: into it
+  const getDropPosition = (e: React.DragEvent): TodoDropPosition => {
+      const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+      const offset = (e.clientY - rect.top) / rect.height;
+      return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+  };
+
+  const handleRowDragOver = (e: React.DragEvent, item: TodoItem) => {
+      handleDragOver(e);
+      if (!e.dataTransfer.types.includes('todoid')) return;
+      const position = getDropPosition(e);
+      if (dropTarget?.id !== item.id || dropTarget.position !== position) setDropTarget({ id: item.id, position });
+  };
+
+  const stepItem = (item: TodoItem, step: TodoMoveStep) => {
+      if (!canStep) return;
+      refocusIdRef.current = item.id;
+      onStepTodo!(item.id, step);
+  };
+
+
   // --- CONTEXT MENU HANDLER ---
   const handleContextMenu = (e: React.MouseEvent, item: TodoItem) => {
       e.preventDefault();
@@ -124,7 +246,7 @@ export const TodoList: React.FC<TodoListProps> = ({
 
       // First pass: validate and deduplicate items
       const validItems: TodoItem[] = [];
-      for (const item of items) {
+      for (const item of shownItems) {
           // Skip if duplicate ID
           if (itemIds.has(item.id)) {
               console.warn(`Duplicate todo item ID detected: ${item.id}`);
@@ -199,13 +321,103 @@ export const TodoList: React.FC<TodoListProps> = ({
           }
       }
 
-      // Sort children for consistent rendering
-      childrenMap.forEach((children) => {
-          children.sort((a, b) => a.text.localeCompare(b.text));
+      childrenMap.forEach((children, parentId) => {
+          childrenMap.set(parentId, sortTodos(sortByOrder(children), sort));
       });
 
-      return { rootItems, itemMap, childrenMap };
-  }, [items]);
+      return { rootItems: sortTodos(sortByOrder(rootItems), sort), itemMap, childrenMap };
+  }, [shownItems, sort]);
+
+  // Collapsed done items leave the list for the section at its end
+  const { openRoots, completedRoots } = useMemo(() => completedMode === 'collapse'
+      ? { openRoots: rootItems.filter(t => !t.done), completedRoots: rootItems.filter(t => t.done) }
+      : { openRoots: rootItems, completedRoots: [] as TodoItem[] }, [rootItems, completedMode]);
+
+  // Rows top to bottom, for arrow key navigation
+  const visibleIds = useMemo(() => {
+      const ids: string[] = [];
+      const seen = new Set<string>();
+      const walk = (list: TodoItem[]) => list.forEach(item => {
+          if (seen.has(item.id)) return;
+          seen.add(item.id);
+          ids.push(item.id);
+          if (!item.collapsed) walk(childrenMap.get(item.id) || []);
+      });
+      walk(openRoots);
+      if (showCompleted) walk(completedRoots);
+      return ids;
+  }, [openRoots, completedRoots, showCompleted, childrenMap]);
+
+  const focusRow = (id: string | undefined) => {
+      if (id) rowRefs.current.get(id)?.focus();
+  };
+
+  const handleRowKeyDown = (e: React.KeyboardEvent, item: TodoItem) => {
+      if (e.target !== e.currentTarget) return;
+      const index = visibleIds.indexOf(item.id);
+      if (e.altKey && STEP_KEYS[e.key]) {
+          e.preventDefault();
+          stepItem(item, STEP_KEYS[e.key]);
+          return;
+      }
+      switch (e.key) {
+          case 'ArrowUp':
+              e.preventDefault();
+              focusRow(visibleIds[index - 1]);
+              break;
+          case 'ArrowDown':
+              e.preventDefault();
+              focusRow(visibleIds[index + 1]);
+              break;
+          case 'ArrowLeft':
+              e.preventDefault();
+              // Collapse first, then go up to the parent
+              if (childrenMap.has(item.id) && !item.collapsed) toggleCollapsed(item);
+              else focusRow(item.parentId);
+              break;
+          case 'ArrowRight':
+              e.preventDefault();
+              if (childrenMap.has(item.id) && item.collapsed) toggleCollapsed(item);
+              else focusRow(childrenMap.get(item.id)?.[0]?.id);
+              break;
+          case 'Tab':
+              if (!canStep) return;
+              e.preventDefault();
+              stepItem(item, e.shiftKey ? 'outdent' : 'indent');
+              break;
+          case 'Enter':
+              e.preventDefault();
+              siblingClosedRef.current = false;
+              setSiblingText('');
+              setAddingSiblingAfter(item.id);
+              break;
+          case ' ':
+              e.preventDefault();
+              if (canCheck(item)) onUpdateTodo(item.id, { done: !item.done });
+              break;
+          case 'F2':
+              e.preventDefault();
+              onEditTodo(item);
+              break;
+          case 'Delete':
+          case 'Backspace':
+              e.preventDefault();
+              if (!confirm(`Remove "${item.text}"${childrenMap.has(item.id) ? ' and its sub-items' : ''}?`)) return;
+              // Focus moves to the next row outside the removed subtree, or the one above
+              refocusIdRef.current = visibleIds.slice(index + 1).find(id => !isInSubtree(id, item.id)) || visibleIds[index - 1] || null;
+              onDeleteTodo(item.id);
+              break;
+      }
+  };
+
+  const isInSubtree = (id: string, rootId: string) => {
+      const seen = new Set<string>();
+      for (let current = itemMap.get(id); current && !seen.has(current.id); current = current.parentId ? itemMap.get(current.parentId) : undefined) {
+          if (current.id === rootId) return true;
+          seen.add(current.id);
+      }
+      return false;
+  };
 
   // --- RECURSIVE ITEM RENDERER ---
   // Create a fresh visited set for this render cycle to prevent duplicates
@@ -223,6 +435,12 @@ export const TodoList: React.FC<TodoListProps> = ({
       const solidColor = item.color || '#333';
       const isHovered = hoveredItemId === item.id;
       const isAddingSub = addingSubItemTo === item.id;
+      const overdue = isOverdue(item);
+      const priority = getPriorityInfo(item.priority);
+      const hasChips = !!(item.dueDate || priority || item.tags?.length || item.recurrence);
+      const dropPosition = dropTarget?.id === item.id ? dropTarget.position : null;
+      const itemProgress = progress.get(item.id);
+      const checkable = canCheck(item);
       
       // Determine cover image logic
       const images = item.images || [];
@@ -237,43 +455,48 @@ export const TodoList: React.FC<TodoListProps> = ({
             style={{ display: 'flex', flexDirection: 'column' }}
             onMouseEnter={(e) => { e.stopPropagation(); setHoveredItemId(item.id); }}
             onMouseLeave={(e) => { e.stopPropagation(); if(hoveredItemId === item.id) setHoveredItemId(null); }}
-            onDragOver={handleDragOver}
-            onDrop={(e) => {
-                // Determine if dropping inside (bottom half) or before (top half) could be complex
-                // For simplicity: Drop ON item = inside (nest), Drop on edge (implement later)
-                // Let's simple check if we are dropping ON the item -> reorder 'after' or 'inside'
-                // For this implementation, dropping on an item makes it a child or sibling? 
-                // Let's default to: Drop here = put 'after' this item.
-                // To nest, maybe drag to the indent space? 
-                // Simplest UX: Drop on top half = before, bottom half = after.
-                const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
-                const offsetY = e.clientY - rect.top;
-                if (offsetY < 10) handleDrop(e, item.id, 'before');
-                else handleDrop(e, item.id, 'after'); // Default to sibling reorder
-            }}
           >
             <div 
                 className="todo-item-btn"
+                ref={(el) => { if (el) rowRefs.current.set(item.id, el); else rowRefs.current.delete(item.id); }}
+                tabIndex={0}
+                title={ROW_KEYS_HINT}
+                onKeyDown={(e) => handleRowKeyDown(e, item)}
+                onDragOver={(e) => handleRowDragOver(e, item)}
+                onDragLeave={() => { if (dropTarget?.id === item.id) setDropTarget(null); }}
+                onDrop={(e) => handleDrop(e, item.id, getDropPosition(e))}
                 style={{ 
+                    boxShadow: dropPosition === 'before' ? 'inset 0 2px 0 #007bff' : dropPosition === 'after' ? 'inset 0 -2px 0 #007bff' : dropPosition === 'inside' ? '0 0 0 2px #007bff' : undefined,
                     backgroundColor: bgColor,
                     borderColor: `${solidColor}40`,
+                    borderLeft: overdue ? '3px solid #dc3545' : undefined,
                     marginLeft: '0px',
-                    flexDirection: hasCoverImage ? 'column' : 'row',
-                    alignItems: hasCoverImage ? 'flex-start' : 'center',
+                    flexDirection: hasCoverImage || hasChips ? 'column' : 'row',
+                    alignItems: hasCoverImage || hasChips ? 'flex-start' : 'center',
                     padding: hasCoverImage ? '8px' : '6px 8px'
                 }}
                 draggable
                 onDragStart={(e) => handleDragStart(e, item)}
-                onDragEnd={() => onDragEndItem?.()}
+                onDragEnd={() => { setDropTarget(null); onDragEndItem?.(); }}
                 onContextMenu={(e) => handleContextMenu(e, item)}
                 onClick={() => onEditTodo(item)}
                 onMouseDown={(e) => e.stopPropagation()} 
             >
                 <div style={{ display: 'flex', alignItems: 'center', width: '100%' }}>
+                    {children.length > 0 && (
+                        <div
+                            onClick={(e) => { e.stopPropagation(); toggleCollapsed(item); }}
+                            title={item.collapsed ? 'Show sub-items' : 'Hide sub-items'}
+                            style={{ cursor: 'pointer', marginLeft: '-4px', marginRight: '4px', color: '#888', display: 'flex', alignItems: 'center', flexShrink: 0 }}
+                        >
+                            {item.collapsed ? <FaChevronRight size={9} /> : <FaChevronDown size={9} />}
+                        </div>
+                    )}
                     <div 
-                        onClick={(e) => { e.stopPropagation(); onUpdateTodo(item.id, { done: !item.done }); }}
+                        onClick={(e) => { e.stopPropagation(); if (checkable) onUpdateTodo(item.id, { done: !item.done }); }}
+                        title={checkable ? undefined : 'Done when all sub-items are done'}
                         style={{ 
-                            cursor: 'pointer', marginRight: '8px', 
+                            cursor: checkable ? 'pointer' : 'default', opacity: checkable ? 1 : 0.6, marginRight: '8px', 
                             color: item.done ? '#28a745' : solidColor,
                             display: 'flex', alignItems: 'center',
                             flexShrink: 0
@@ -286,12 +509,43 @@ export const TodoList: React.FC<TodoListProps> = ({
                         {item.text}
                     </span>
 
+                    {itemProgress && itemProgress.total > 0 && (
+                        <span title={`${itemProgress.done} of ${itemProgress.total} sub-items done`} style={{ ...chipStyle, marginLeft: '6px', flexShrink: 0, color: itemProgress.done === itemProgress.total ? '#28a745' : '#555' }}>
+                            {itemProgress.done}/{itemProgress.total}
+                        </span>
+                    )}
+
                     {hasDesc && (
                         <div title="Has description" style={{ marginLeft: 'auto', color: solidColor, opacity: 0.7, flexShrink: 0 }}>
                             <FaStickyNote size={12} />
                         </div>
                     )}
                 </div>
+
+                {/* Due date, priority and reminder chips */}
+                {hasChips && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px', paddingLeft: hasCoverImage ? 0 : '20px' }}>
+                        {item.dueDate && (
+                            <span title={overdue ? 'Overdue' : 'Due'} style={{ ...chipStyle, color: overdue ? '#dc3545' : '#555', borderColor: overdue ? '#dc354580' : '#ccc', fontWeight: overdue ? 'bold' : 'normal' }}>
+                                <FaRegCalendar size={8} /> {describeDue(item)}
+                                {item.reminders && item.reminders.length > 0 && <FaBell size={8} title="Reminder set" />}
+                            </span>
+                        )}
+                        {item.recurrence && (
+                            <span title={describeRecurrence(item.recurrence)} style={{ ...chipStyle, color: '#555' }}>
+                                <FaRedo size={8} />
+                            </span>
+                        )}
+                        {priority && (
+                            <span title={`${priority.label} priority`} style={{ ...chipStyle, color: priority.color, borderColor: `${priority.color}80` }}>
+                                <FaFlag size={8} /> {priority.label}
+                            </span>
+                        )}
+                        {item.tags?.map(tag => (
+                            <span key={tag} style={{ ...chipStyle, color: '#555' }}>#{tag}</span>
+                        ))}
+                    </div>
+                )}
                 
                 {/* Cover Image Preview */}
                 {hasCoverImage && coverImage && (
@@ -340,6 +594,7 @@ export const TodoList: React.FC<TodoListProps> = ({
                                     onBlur={() => commitSubItem(item.id)}
                                     onKeyDown={(e) => e.key === 'Enter' && commitSubItem(item.id)}
                                     placeholder="Sub-item..."
+                                    title={QUICK_ADD_HINT}
                                     style={{ 
                                         border: 'none', outline: 'none', background: 'transparent', 
                                         fontStyle: 'italic', fontSize: '12px', width: '100%'
@@ -361,8 +616,32 @@ export const TodoList: React.FC<TodoListProps> = ({
                      </div>
                 )}
 
-                {children.map(child => renderTodoItem(child, visited))}
+                {!item.collapsed && children.map(child => renderTodoItem(child, visited))}
             </div>
+
+            {/* New sibling below this item */}
+            {addingSiblingAfter === item.id && (
+                <div style={{ display: 'flex', alignItems: 'center', margin: '2px 0' }}>
+                    <div style={{ width: '12px', height: '12px', border: '1px dashed #ccc', marginRight: '5px', borderRadius: '3px', flexShrink: 0 }}></div>
+                    <input 
+                        autoFocus
+                        type="text"
+                        value={siblingText}
+                        onChange={(e) => setSiblingText(e.target.value)}
+                        onBlur={() => commitSibling(item, false)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitSibling(item, true);
+                            else if (e.key === 'Escape') commitSibling(item, true, true);
+                        }}
+                        placeholder={`New item... (${QUICK_ADD_HINT})`}
+                        title={QUICK_ADD_HINT}
+                        style={{ 
+                            border: 'none', outline: 'none', background: 'transparent', 
+                            fontStyle: 'italic', fontSize: '12px', width: '100%'
+                        }}
+                    />
+                </div>
+            )}
           </div>
       );
   };
@@ -377,28 +656,104 @@ export const TodoList: React.FC<TodoListProps> = ({
       
       {/* List */}
       <div style={{ flex: 1, overflowY: 'visible', padding: '10px', minHeight: 0 }}>
+        {isSmartList && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px', fontSize: '11px', color: '#555' }}>
+                <FaFilter size={10} style={{ flexShrink: 0 }} />
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={filterSummary}>{filterSummary}</span>
+                {onEditFilter && (
+                    <button onClick={onEditFilter} onMouseDown={(e) => e.stopPropagation()} style={{ fontSize: '10px', border: '1px solid #ddd', borderRadius: '3px', background: 'white', color: '#555', cursor: 'pointer' }}>Edit filter</button>
+                )}
+            </div>
+        )}
+        {onSortChange && items.some(t => t.dueDate || t.priority) && (
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '6px' }}>
+                <select value={sort} onChange={(e) => onSortChange(e.target.value as TodoSort)} title="Sort items" onMouseDown={(e) => e.stopPropagation()} style={{ fontSize: '10px', border: '1px solid #ddd', borderRadius: '3px', background: 'white', color: '#555' }}>
+                    {TODO_SORT_OPTIONS.map(option => <option key={option.sort} value={option.sort}>Sort: {option.label}</option>)}
+                </select>
+            </div>
+        )}
         {(() => {
           // Create a shared visited set for this render cycle
           const visited = new Set<string>();
-          return rootItems.map(item => renderTodoItem(item, visited));
+          return openRoots.map(item => renderTodoItem(item, visited));
         })()}
 
+        {completedRoots.length > 0 && (
+            <div style={{ marginTop: '8px', borderTop: '1px solid #eee', paddingTop: '4px' }}>
+                <button onClick={() => setShowCompleted(!showCompleted)} onMouseDown={(e) => e.stopPropagation()} style={{ display: 'flex', alignItems: 'center', gap: '5px', border: 'none', background: 'transparent', padding: '2px 0', fontSize: '11px', color: '#888', cursor: 'pointer' }}>
+                    {showCompleted ? <FaChevronDown size={9} /> : <FaChevronRight size={9} />}
+                    Completed ({completedRoots.length})
+                </button>
+                {showCompleted && (() => {
+                    const visited = new Set<string>();
+                    return completedRoots.map(item => renderTodoItem(item, visited));
+                })()}
+            </div>
+        )}
+
+        {isSmartList && rootItems.length === 0 && completedRoots.length === 0 && (
+            <div style={{ color: '#999', fontSize: '12px', fontStyle: 'italic', textAlign: 'center', padding: '10px 0' }}>No matching items</div>
+        )}
+
         {/* Root Add Input */}
-        <div style={{ display: 'flex', alignItems: 'center', marginTop: '10px', opacity: 0.7 }}>
+        {!isSmartList && <div style={{ display: 'flex', alignItems: 'center', marginTop: '10px', opacity: 0.7 }}>
             <div style={{ width: '16px', height: '16px', border: '1px dashed #ccc', marginRight: '5px', borderRadius: '3px', flexShrink: 0 }}></div>
             <input 
                 type="text"
                 value={newItemText}
                 onChange={(e) => setNewItemText(e.target.value)}
                 onBlur={commitItem}
-                onKeyDown={(e) => e.key === 'Enter' && commitItem()}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitItem();
+                    else if (e.key === 'ArrowUp' && !newItemText) { e.preventDefault(); focusRow(visibleIds[visibleIds.length - 1]); }
+                }}
                 placeholder="Add item..."
+                title={`Quick add: ${QUICK_ADD_HINT}`}
                 style={{ 
                     border: 'none', outline: 'none', background: 'transparent', 
                     fontStyle: 'italic', fontSize: '13px', width: '100%'
                 }}
             />
-        </div>
+        </div>}
+
+        {/* Done items */}
+        {onCompletedModeChange && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px', fontSize: '10px', color: '#888' }} onMouseDown={(e) => e.stopPropagation()}>
+                {onClearCompleted && clearableCount > 0 && (
+                    <button
+                        onClick={() => { if (confirm(`Move ${clearableCount} done item${clearableCount === 1 ? '' : 's'} to the trash?`)) onClearCompleted(); }}
+                        style={footerButtonStyle}
+                    >
+                        Clear completed
+                    </button>
+                )}
+                {onShowArchive && archivedCount > 0 && (
+                    <button onClick={onShowArchive} style={footerButtonStyle}>Archive ({archivedCount})</button>
+                )}
+                <button onClick={() => setShowOptions(!showOptions)} title="List options" style={{ ...footerButtonStyle, marginLeft: 'auto', textDecoration: 'none', color: showOptions ? '#555' : '#aaa' }}>
+                    <FaCog size={10} />
+                </button>
+            </div>
+        )}
+        {onCompletedModeChange && showOptions && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '4px' }} onMouseDown={(e) => e.stopPropagation()}>
+                <select value={completedMode} onChange={(e) => onCompletedModeChange(e.target.value as CompletedTodoMode)} style={optionSelectStyle}>
+                    {COMPLETED_MODE_OPTIONS.map(option => <option key={option.mode} value={option.mode}>{option.label}</option>)}
+                </select>
+                {onArchiveAfterDaysChange && (
+                    <select value={archiveAfterDays ?? ''} onChange={(e) => onArchiveAfterDaysChange(e.target.value ? Number(e.target.value) : undefined)} title="Done items move to the archive" style={optionSelectStyle}>
+                        <option value="">Never archive</option>
+                        {ARCHIVE_AFTER_OPTIONS.map(days => <option key={days} value={days}>Archive after {describeArchiveAfter(days)}</option>)}
+                    </select>
+                )}
+                {onParentDoneFromChildrenChange && (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '10px', color: '#555' }}>
+                        <input type="checkbox" checked={parentDoneFromChildren} onChange={(e) => onParentDoneFromChildrenChange(e.target.checked)} style={{ margin: 0 }} />
+                        Done when all sub-items are
+                    </label>
+                )}
+            </div>
+        )}
       </div>
 
       {/* Custom Context Menu */}
@@ -415,6 +770,15 @@ export const TodoList: React.FC<TodoListProps> = ({
               >
                   Edit Item
               </button>
+              {canStep && ([['up', 'Move Up'], ['down', 'Move Down'], ['indent', 'Indent'], ['outdent', 'Outdent']] as const).map(([step, label]) => (
+                  <button 
+                    key={step}
+                    onClick={(e) => { e.stopPropagation(); stepItem(contextMenu.item, step); setContextMenu(null); }}
+                    style={{ background:'transparent', border:'none', padding:'8px 12px', textAlign:'left', cursor:'pointer', fontSize:'13px', borderBottom:'1px solid #eee' }}
+                  >
+                      {label}
+                  </button>
+              ))}
               <button 
                 onClick={(e) => { e.stopPropagation(); onDeleteTodo(contextMenu.item.id); setContextMenu(null); }}
                 style={{ background:'transparent', border:'none', padding:'8px 12px', textAlign:'left', cursor:'pointer', fontSize:'13px', color:'#dc3545' }}
@@ -425,4 +789,8 @@ export const TodoList: React.FC<TodoListProps> = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+const footerButtonStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', border: 'none', background: 'transparent', padding: 0, fontSize: '10px', color: '#888', cursor: 'pointer', textDecoration: 'underline' };
+const optionSelectStyle: React.CSSProperties = { fontSize: '10px', border: '1px solid #ddd', borderRadius: '3px', background: 'white', color: '#555' };
+const chipStyle: React.CSSProperties = { display: 'inline-flex', alignItems: 'center', gap: '3px', fontSize: '10px', padding: '0 5px', border: '1px solid #ccc', borderRadius: '8px', background: 'rgba(255,255,255,0.6)', whiteSpace: 'nowrap' };
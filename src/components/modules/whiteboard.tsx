@@ -10,21 +10,25 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ content, onChange }) =>
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const isLoaded = useRef(false);
+  // Last drawing this component saved; any other content comes from outside (undo/redo, import)
+  const lastSaved = useRef<string | undefined>(undefined);
 
-  // Load initial content
+  // Draw the stored content on mount and whenever it changes externally
   useEffect(() => {
       const canvas = canvasRef.current;
       const ctx = canvas?.getContext('2d');
-      if (canvas && ctx && content && !isLoaded.current) {
+      if (!canvas || !ctx || content === lastSaved.current) return;
+      lastSaved.current = content;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (content) {
           const img = new Image();
           img.src = content;
           img.onload = () => {
-              ctx.drawImage(img, 0, 0);
-              isLoaded.current = true;
+              // A newer drawing may have arrived while this one was decoding
+              if (lastSaved.current === content) ctx.drawImage(img, 0, 0);
           };
       }
-  }, [content]); // Run once on mount (or when content becomes available initially)
+  }, [content]);
 
   // Handle Resize: Expand canvas without scaling/stretching image
   useEffect(() => {
@@ -97,7 +101,8 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ content, onChange }) =>
         // Save state
         const canvas = canvasRef.current;
         if (canvas) {
-            onChange(canvas.toDataURL());
+            lastSaved.current = canvas.toDataURL();
+            onChange(lastSaved.current);
         }
     }
   };
@@ -108,6 +113,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ content, onChange }) =>
     const ctx = canvas.getContext('2d');
     if (ctx) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
+        lastSaved.current = '';
         onChange(''); // Clear from storage
     }
   };
@@ -0,0 +1,42 @@
+import React from 'react';
+import { FaBell, FaTimes } from 'react-icons/fa';
+import type { Reminder } from '../utils/notifications';
+import { SNOOZE_OPTIONS } from '../utils/notifications';
+
+interface NotificationBannerProps {
+  reminders: Reminder[];
+  onSnooze: (key: string, minutes: number) => void;
+  onDismiss: (key: string) => void;
+}
+
+// In-app copy of fired reminders, so snooze/dismiss work on platforms without notification actions
+export const NotificationBanner: React.FC<NotificationBannerProps> = ({ reminders, onSnooze, onDismiss }) => {
+  if (reminders.length === 0) return null;
+
+  return (
+    <div style={{ position: 'fixed', right: '16px', bottom: '40px', zIndex: 2000, display: 'flex', flexDirection: 'column', gap: '8px', width: '300px' }}>
+      {reminders.map(reminder => (
+        <div key={reminder.key} style={{ background: 'white', border: '1px solid #ddd', borderLeft: '4px solid #007bff', borderRadius: '6px', boxShadow: '0 4px 12px rgba(0,0,0,0.15)', padding: '10px 12px' }}>
+          <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
+            <FaBell size={13} color="#007bff" style={{ marginTop: '2px', flexShrink: 0 }} />
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontWeight: 600, fontSize: '13px' }}>{reminder.title}</div>
+              <div style={{ fontSize: '12px', color: '#666' }}>{reminder.body}</div>
+            </div>
+            <button onClick={() => onDismiss(reminder.key)} title="Dismiss" style={{ border: 'none', background: 'none', color: '#999', cursor: 'pointer', padding: 0 }}>
+              <FaTimes size={12} />
+            </button>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '8px', fontSize: '11px', color: '#666' }}>
+            Snooze:
+            {SNOOZE_OPTIONS.map(minutes => (
+              <button key={minutes} onClick={() => onSnooze(reminder.key, minutes)} style={{ border: '1px solid #ccc', background: 'white', borderRadius: '4px', padding: '2px 6px', fontSize: '11px', cursor: 'pointer' }}>
+                {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { NotificationSettings } from '../types';
+import { LEAD_TIME_OPTIONS, describeLeadTime } from '../utils/notifications';
+
+interface NotificationSettingsViewProps {
+  settings: NotificationSettings;
+  onChange: (settings: NotificationSettings) => void;
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export const NotificationSettingsView: React.FC<NotificationSettingsViewProps> = ({ settings, onChange, onClose }) => {
+  const toggleLead = (minutes: number) => {
+    const leadMinutes = settings.leadMinutes.includes(minutes)
+      ? settings.leadMinutes.filter(m => m !== minutes)
+      : [...settings.leadMinutes, minutes].sort((a, b) => a - b);
+    onChange({ ...settings, leadMinutes });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '320px' }}>
+        <div className="modal-header">Notifications</div>
+        <div style={{ fontSize: '12px', color: '#666', marginBottom: '10px' }}>
+          Applies to events with notifications turned on.
+        </div>
+
+        <div className="modal-row">
+          <label>Remind me:</label>
+          {LEAD_TIME_OPTIONS.map(minutes => (
+            <label key={minutes} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', fontWeight: 'normal' }}>
+              <input type="checkbox" checked={settings.leadMinutes.includes(minutes)} onChange={() => toggleLead(minutes)} />
+              {describeLeadTime(minutes)}
+            </label>
+          ))}
+        </div>
+
+        <div className="modal-row">
+          <label>All-day events at:</label>
+          <select value={settings.allDayHour} onChange={(e) => onChange({ ...settings, allDayHour: Number(e.target.value) })}>
+            {HOURS.map(hour => <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>)}
+          </select>
+        </div>
+
+        <div className="modal-actions">
+          <button onClick={onClose} style={{ background: '#007bff', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { getDay } from 'date-fns';
+import type { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { describeRecurrence } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  startDate?: string; // ISO date of the first occurrence
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' };
+// Monday first, values are Date.getDay() numbers
+const WEEKDAYS = [
+  { label: 'M', day: 1 }, { label: 'T', day: 2 }, { label: 'W', day: 3 }, { label: 'T', day: 4 },
+  { label: 'F', day: 5 }, { label: 'S', day: 6 }, { label: 'S', day: 0 },
+];
+
+type EndMode = 'never' | 'until' | 'count';
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, startDate, onChange }) => {
+  const startWeekday = getDay(startDate ? new Date(startDate) : new Date());
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+  const weekdays = value?.byWeekday?.length ? value.byWeekday : [startWeekday];
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const setFrequency = (freq: RecurrenceFrequency | 'none') => {
+    if (freq === 'none') onChange(undefined);
+    else onChange({ ...value, freq, byWeekday: freq === 'weekly' ? value?.byWeekday : undefined });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ byWeekday: next });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (mode === 'never') update({ until: undefined, count: undefined });
+    if (mode === 'until') update({ until: (startDate || new Date().toISOString()).split('T')[0], count: undefined });
+    if (mode === 'count') update({ until: undefined, count: 10 });
+  };
+
+  return (
+    <>
+      <div className="modal-row" style={{ flexDirection: 'row', gap: '10px', alignItems: 'flex-end' }}>
+        <div style={{ flex: 1 }}>
+          <label>Repeat:</label>
+          <select value={value?.freq || 'none'} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | 'none')}>
+            <option value="none">Does not repeat</option>
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+            <option value="yearly">Yearly</option>
+          </select>
+        </div>
+        {value && (
+          <div style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ fontSize: '12px' }}>Every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval || 1}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              style={{ width: '55px' }}
+            />
+            <span style={{ fontSize: '12px' }}>{UNIT_LABELS[value.freq]}</span>
+          </div>
+        )}
+      </div>
+
+      {value?.freq === 'weekly' && (
+        <div className="modal-row" style={{ flexDirection: 'row', gap: '4px' }}>
+          {WEEKDAYS.map(({ label, day }) => {
+            const active = weekdays.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                style={{
+                  width: '28px', height: '28px', borderRadius: '50%', border: '1px solid #ccc', cursor: 'pointer', fontSize: '11px',
+                  background: active ? '#007bff' : 'white', color: active ? 'white' : '#333'
+                }}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && (
+        <div className="modal-row" style={{ flexDirection: 'row', gap: '10px', alignItems: 'flex-end' }}>
+          <div style={{ flex: 1 }}>
+            <label>Ends:</label>
+            <select value={endMode} onChange={(e) => setEndMode(e.target.value as EndMode)}>
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+          </div>
+          <div style={{ flex: 1 }}>
+            {endMode === 'until' && (
+              <input type="date" value={value.until} onChange={(e) => e.target.value && update({ until: e.target.value })} />
+            )}
+            {endMode === 'count' && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <input type="number" min={1} value={value.count} onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })} style={{ width: '65px' }} />
+                <span style={{ fontSize: '12px' }}>times</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {value && <div style={{ fontSize: '11px', color: '#666', marginTop: '-4px', marginBottom: '8px' }}>{describeRecurrence({ ...value, byWeekday: value.freq === 'weekly' ? weekdays : undefined })}</div>}
+    </>
+  );
+};
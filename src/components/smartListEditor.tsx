@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { TodoFilter } from '../types';
+import { DUE_FILTER_OPTIONS } from '../utils/todoFilter';
+import { TagPicker } from './tagPicker';
+
+interface SmartListEditorProps {
+  filter: TodoFilter;
+  tags: string[]; // Tags in use, offered in the picker
+  onSave: (filter: TodoFilter) => void;
+  onClose: () => void;
+}
+
+// The saved filter of a smart list; unset criteria match every item
+export const SmartListEditor: React.FC<SmartListEditorProps> = ({ filter, tags, onSave, onClose }) => {
+  const [draft, setDraft] = useState<TodoFilter>(filter);
+
+  const patch = (changes: Partial<TodoFilter>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const save = () => {
+    // Leave unset criteria out of the record
+    const next: TodoFilter = {};
+    if (draft.tags?.length) {
+      next.tags = draft.tags;
+      if (draft.matchAllTags && draft.tags.length > 1) next.matchAllTags = true;
+    }
+    if (draft.done) next.done = draft.done;
+    if (draft.color) next.color = draft.color;
+    if (draft.hasImages) next.hasImages = true;
+    if (draft.due) next.due = draft.due;
+    onSave(next);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '380px' }}>
+        <div className="modal-header">Smart List Filter</div>
+
+        <div className="modal-row">
+          <label>Tags:</label>
+          <TagPicker value={draft.tags || []} suggestions={tags} onChange={(next) => patch({ tags: next })} />
+          {(draft.tags?.length || 0) > 1 && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 'normal', marginTop: '6px' }}>
+              <input type="checkbox" checked={!!draft.matchAllTags} onChange={(e) => patch({ matchAllTags: e.target.checked })} style={{ width: 'auto' }} />
+              Items must have all of these tags
+            </label>
+          )}
+        </div>
+        <div className="modal-row" style={{ display: 'flex', gap: '10px' }}>
+          <div style={{ flex: 1 }}>
+            <label>Status:</label>
+            <select value={draft.done || ''} onChange={(e) => patch({ done: (e.target.value || undefined) as TodoFilter['done'] })}>
+              <option value="">Open and done</option>
+              <option value="open">Open</option>
+              <option value="done">Done</option>
+            </select>
+          </div>
+          <div style={{ flex: 1 }}>
+            <label>Due:</label>
+            <select value={draft.due || ''} onChange={(e) => patch({ due: (e.target.value || undefined) as TodoFilter['due'] })}>
+              <option value="">Any time</option>
+              {DUE_FILTER_OPTIONS.map(option => <option key={option.due} value={option.due}>{option.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="modal-row" style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 'normal', flex: 1 }}>
+            <input type="checkbox" checked={!!draft.color} onChange={(e) => patch({ color: e.target.checked ? '#333333' : undefined })} style={{ width: 'auto' }} />
+            Only items of color
+            <input type="color" value={draft.color || '#333333'} disabled={!draft.color} onChange={(e) => patch({ color: e.target.value })} style={{ width: '28px', height: '24px', padding: 0, border: 'none' }} />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 'normal', flex: 1 }}>
+            <input type="checkbox" checked={!!draft.hasImages} onChange={(e) => patch({ hasImages: e.target.checked })} style={{ width: 'auto' }} />
+            Only items with images
+          </label>
+        </div>
+
+        <div className="modal-actions">
+          <button onClick={onClose} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Cancel</button>
+          <button onClick={save} style={{ background: '#007bff', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+
+interface TagPickerProps {
+  value: string[];
+  suggestions: string[]; // Tags already in use, offered while typing
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+// Tags are single words, like the #tag quick-add syntax
+const normalizeTag = (input: string) => input.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+
+export const TagPicker: React.FC<TagPickerProps> = ({ value, suggestions, onChange, placeholder = 'Add tag, Enter to add' }) => {
+  const [draft, setDraft] = useState('');
+
+  const add = (input: string) => {
+    const tag = normalizeTag(input);
+    setDraft('');
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+  };
+
+  const query = normalizeTag(draft).toLowerCase();
+  const offered = suggestions.filter(tag => !value.includes(tag) && tag.toLowerCase().includes(query)).slice(0, 8);
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '6px' }}>
+          {value.map(tag => (
+            <span key={tag} style={{ display: 'flex', alignItems: 'center', gap: '4px', background: '#e9ecef', borderRadius: '10px', padding: '2px 8px', fontSize: '12px' }}>
+              #{tag}
+              <FaTimes size={9} style={{ cursor: 'pointer', color: '#666' }} onClick={() => onChange(value.filter(t => t !== tag))} />
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); add(draft); }
+          else if (e.key === 'Backspace' && !draft && value.length > 0) onChange(value.slice(0, -1));
+        }}
+        onBlur={() => add(draft)}
+      />
+      {offered.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px' }}>
+          {offered.map(tag => (
+            // mousedown, so the input's blur does not add the half-typed draft first
+            <button key={tag} onMouseDown={(e) => { e.preventDefault(); add(tag); }} style={{ border: '1px dashed #ccc', background: 'white', borderRadius: '10px', padding: '1px 8px', fontSize: '11px', color: '#555', cursor: 'pointer' }}>
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
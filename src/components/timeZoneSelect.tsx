@@ -0,0 +1,21 @@
+import React from 'react';
+import { getTimeZones } from '../utils/timeZones';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (zone: string) => void;
+  emptyLabel?: string; // Adds an option for no zone ('')
+  title?: string;
+  style?: React.CSSProperties;
+}
+
+const TIME_ZONES = getTimeZones();
+
+export const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({ value, onChange, emptyLabel, title, style }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} title={title} style={style}>
+    {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+    {/* Zones not known to this runtime (e.g. from another computer) stay selectable */}
+    {value && !TIME_ZONES.includes(value) && <option value={value}>{value.replace(/_/g, ' ')}</option>}
+    {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+  </select>
+);
@@ -0,0 +1,52 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { FaTrash, FaUndo } from 'react-icons/fa';
+import type { TodoItem } from '../types';
+
+interface TodoArchiveViewProps {
+  title: string;
+  items: TodoItem[]; // Archived items whose parent is not archived with them
+  subtaskCounts: Map<string, number>;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void; // To the trash, like a deleted item
+  onClose: () => void;
+}
+
+export const TodoArchiveView: React.FC<TodoArchiveViewProps> = ({ title, items, subtaskCounts, onRestore, onDelete, onClose }) => (
+  <div className="modal-overlay" onClick={onClose}>
+    <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '460px', maxHeight: '80vh', display: 'flex', flexDirection: 'column' }}>
+      <div className="modal-header">Archive · {title}</div>
+
+      <div style={{ overflowY: 'auto', flex: 1, minHeight: '80px' }}>
+        {items.length === 0 && (
+          <div style={{ color: '#999', fontSize: '13px', textAlign: 'center', padding: '30px 0' }}>Nothing archived yet</div>
+        )}
+        {items.map(item => {
+          const subtasks = subtaskCounts.get(item.id) || 0;
+          return (
+            <div key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '10px', padding: '8px 4px', borderBottom: '1px solid #eee', fontSize: '13px' }}>
+              <div style={{ width: '4px', alignSelf: 'stretch', borderRadius: '2px', background: item.color || '#333', flexShrink: 0 }} />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 500, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', textDecoration: 'line-through', color: '#555' }}>{item.text}</div>
+                <div style={{ fontSize: '11px', color: '#888' }}>
+                  {item.completedAt ? `Completed ${format(new Date(item.completedAt), 'MMM d, yyyy HH:mm')}` : 'Completed'}
+                  {subtasks > 0 && ` · ${subtasks} subtask${subtasks === 1 ? '' : 's'}`}
+                </div>
+              </div>
+              <button onClick={() => onRestore(item.id)} title="Back to the list" style={{ background: '#28a745', color: 'white', border: 'none', padding: '5px 8px', borderRadius: '4px', cursor: 'pointer' }}>
+                <FaUndo size={11} />
+              </button>
+              <button onClick={() => onDelete(item.id)} title="Move to trash" style={{ background: '#dc3545', color: 'white', border: 'none', padding: '5px 8px', borderRadius: '4px', cursor: 'pointer' }}>
+                <FaTrash size={11} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="modal-actions">
+        <button onClick={onClose} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Close</button>
+      </div>
+    </div>
+  </div>
+);
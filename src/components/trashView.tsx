@@ -0,0 +1,99 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { FaTrash, FaUndo, FaCalendarAlt, FaCheckSquare, FaThLarge } from 'react-icons/fa';
+import type { Board, TrashEntry } from '../types';
+import { getDaysLeft } from '../utils/trash';
+
+interface TrashViewProps {
+  entries: TrashEntry[];
+  boards: Board[];
+  retentionDays: number;
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+  onEmpty: () => void;
+  onRetentionChange: (days: number) => void;
+  onClose: () => void;
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 90];
+
+const describeEntry = (entry: TrashEntry) => {
+  switch (entry.kind) {
+    case 'module': {
+      const todoCount = entry.todos.length;
+      return {
+        Icon: FaThLarge,
+        title: entry.module.title || entry.module.type,
+        detail: todoCount > 0 ? `Module with ${todoCount} to-do${todoCount === 1 ? '' : 's'}` : 'Module',
+      };
+    }
+    case 'todo': {
+      const subtasks = entry.todos.length - 1;
+      return {
+        Icon: FaCheckSquare,
+        title: entry.todos[0]?.text || 'To-do',
+        detail: subtasks > 0 ? `To-do with ${subtasks} subtask${subtasks === 1 ? '' : 's'}` : 'To-do',
+      };
+    }
+    case 'event':
+      return {
+        Icon: FaCalendarAlt,
+        title: entry.event.title,
+        detail: `Event on ${format(new Date(entry.event.date), 'MMM d, yyyy')}`,
+      };
+  }
+};
+
+export const TrashView: React.FC<TrashViewProps> = ({
+  entries, boards, retentionDays, onRestore, onPurge, onEmpty, onRetentionChange, onClose
+}) => {
+  const boardName = (id: string) => boards.find(b => b.id === id)?.name || 'Deleted board';
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '460px', maxHeight: '80vh', display: 'flex', flexDirection: 'column' }}>
+        <div className="modal-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span>Trash</span>
+          <label style={{ fontSize: '12px', fontWeight: 'normal', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            Keep for
+            <select value={retentionDays} onChange={(e) => onRetentionChange(Number(e.target.value))} style={{ fontSize: '12px' }}>
+              {RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div style={{ overflowY: 'auto', flex: 1, minHeight: '80px' }}>
+          {entries.length === 0 && (
+            <div style={{ color: '#999', fontSize: '13px', textAlign: 'center', padding: '30px 0' }}>The trash is empty</div>
+          )}
+          {entries.map(entry => {
+            const { Icon, title, detail } = describeEntry(entry);
+            const daysLeft = Math.max(0, getDaysLeft(entry, retentionDays));
+            return (
+              <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '10px', padding: '8px 4px', borderBottom: '1px solid #eee', fontSize: '13px' }}>
+                <Icon size={14} color="#888" style={{ flexShrink: 0 }} />
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 500, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{title}</div>
+                  <div style={{ fontSize: '11px', color: '#888' }}>
+                    {detail} · {boardName(entry.boardId)} · {daysLeft} day{daysLeft === 1 ? '' : 's'} left
+                  </div>
+                </div>
+                <button onClick={() => onRestore(entry.id)} title="Restore" style={{ background: '#28a745', color: 'white', border: 'none', padding: '5px 8px', borderRadius: '4px', cursor: 'pointer' }}>
+                  <FaUndo size={11} />
+                </button>
+                <button onClick={() => onPurge(entry.id)} title="Delete forever" style={{ background: '#dc3545', color: 'white', border: 'none', padding: '5px 8px', borderRadius: '4px', cursor: 'pointer' }}>
+                  <FaTrash size={11} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="modal-actions">
+          <button onClick={onEmpty} disabled={entries.length === 0} style={{ background: '#dc3545', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px', opacity: entries.length === 0 ? 0.5 : 1 }}>Empty trash</button>
+          <button onClick={onClose} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import RGL, { WidthProvider, Layout } from 'react-grid-layout';
-import Holidays from 'date-holidays';
 import {
   DndContext,
   closestCenter,
@@ -28,14 +27,49 @@ import { TodoList } from './modules/todolist';
 import { EventsList } from './modules/eventslist';
 import { Planner } from './modules/planner';
 import { PlannerCalendar } from './modules/plannerCalendar';
-import type { CalendarEvent, TodoItem } from '../types';
-import { copyImage, removeImage, openImageFileDialog, getImageUrl } from '../utils/imageUtils';
+import type { CalendarEvent, EventCategory, HolidaySettings, NotificationSettings, TodoItem, ModuleType, ModuleRecord, FreeLayout, StructuredLayout, Board, BoardScope, TrashEntry, TrashedModule } from '../types';
+import { copyImage, copyAttachment, removeImage, openImageFileDialog, openAttachmentFileDialog, getImageUrl, isImageFile } from '../utils/imageUtils';
+import { loadState, saveState, takeStoreBackup } from '../utils/workspaceStore';
+import { createId } from '../utils/ids';
+import { createBoard, getTodoListId, cloneModules, cloneTodos } from '../utils/boards';
+import { BoardSwitcher } from './boardSwitcher';
+import { exportWorkspaceArchive, exportWholeWorkspace, readWorkspaceArchive, instantiateArchive, instantiateWholeWorkspace, openArchiveSaveDialog, openArchiveFileDialog } from '../utils/workspaceArchive';
+import type { WorkspaceArchive } from '../utils/workspaceArchive';
+import { useUndoHistory } from '../utils/history';
+import { DEFAULT_TRASH_RETENTION_DAYS, collectSubtree, getFilePaths, getImagePaths, getPurgedFiles, getTrashedTodos, getUnusedAttachments, isExpired, removeFiles } from '../utils/trash';
+import { TrashView } from './trashView';
+import { RecurrenceEditor } from './recurrenceEditor';
+import { applyOccurrenceEdit, splitSeries, addException } from '../utils/recurrence';
+import type { SeriesScope } from '../utils/recurrence';
+import type { EventTimes } from '../utils/eventTime';
+import { createCategory, getLegendCategories, getMissingCategories, seedCategories } from '../utils/categories';
+import { CategoryManager } from './categoryManager';
+import { getDefaultHolidaySettings, getHolidayEvents, isHolidayEvent } from '../utils/holidays';
+import { HolidaySettingsView } from './holidaySettingsView';
+import { delocalizeEvent, getLocalTimeZone, getTimeZoneAbbreviation, localizeEvent } from '../utils/timeZones';
+import { TimeZoneSelect } from './timeZoneSelect';
+import { normalizeUrl, showInFolder } from '../utils/shell';
+import { PRIORITIES, getTodoEvents, getTodoIdFromEvent, isTodoEvent } from '../utils/todoDue';
+import { parseDateKey, toDateKey } from '../utils/recurrence';
+import { assignMissingOrder, getNextOrder, placeTodo, stepTodo } from '../utils/todoOrder';
+import type { TodoDropPosition, TodoMoveStep } from '../utils/todoOrder';
+import { describeTodoFilter, getAllTags, matchesTodoFilter } from '../utils/todoFilter';
+import { archiveCompletedTodos, getArchivePeriods, getArchivedRoots, getClearableRoots, getDerivedDoneListIds, setTodoDone, syncParentDone, unarchiveTodo } from '../utils/todoCompletion';
+import { TodoArchiveView } from './todoArchiveView';
+import { addNextInstances, describeCompletion } from '../utils/todoRecurrence';
+import { TagPicker } from './tagPicker';
+import { SmartListEditor } from './smartListEditor';
+import { buildIcs, mergeImportedEvents, openIcsFile, parseIcs, saveIcsFile } from '../utils/ics';
+import { DEFAULT_NOTIFICATION_SETTINGS, LEAD_TIME_OPTIONS, buildReminders, buildTodoReminders, describeLeadTime, scheduleNotifications, snoozeNotification, dismissNotification, onNotificationFired } from '../utils/notifications';
+import type { Reminder } from '../utils/notifications';
+import { NotificationSettingsView } from './notificationSettingsView';
+import { NotificationBanner } from './notificationBanner';
 
 // For path.basename in modal
 declare const require: any;
 const path = require('path');
 import { StickyNote } from './modules/stickynote'; 
-import { FaRegStickyNote, FaRegClock, FaPencilAlt, FaCalendarAlt, FaCheckSquare, FaList, FaTrash, FaPalette, FaExclamationTriangle, FaMinus, FaTasks, FaTh, FaExpand, FaImage, FaTimes, FaStar } from 'react-icons/fa';
+import { FaRegStickyNote, FaRegClock, FaPencilAlt, FaCalendarAlt, FaCheckSquare, FaList, FaTrash, FaPalette, FaExclamationTriangle, FaMinus, FaTasks, FaTh, FaExpand, FaImage, FaTimes, FaStar, FaFileExport, FaFileImport, FaUndo, FaRedo, FaBell, FaGlobe, FaFilter, FaArchive } from 'react-icons/fa';
 
 const ReactGridLayout = WidthProvider(RGL);
 
@@ -77,35 +111,21 @@ const THEMES = [
     { name: 'Orange', header: 'rgba(255, 224, 178, 0.9)', body: 'rgba(255, 243, 224, 0.85)' },
 ];
 
-type ModuleType = 'notepad' | 'clock' | 'whiteboard' | 'calendar' | 'todo' | 'stickynote' | 'events' | 'planner' | 'plannerCalendar';
-
-interface ModuleItem {
-  i: string;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  type: ModuleType;
-  title?: string;
-  listTitle?: string;
-  content?: string; 
-  clockMode?: 'analog' | 'digital';
-  linkedCategory?: string; 
-  themeIndex?: number;
-  // Minimization support
-  prevPos?: { x: number, y: number, w: number, h: number };
-  // Structured mode ordering
+// A module merged with its layout record for the view being rendered
+interface ModuleItem extends ModuleRecord, FreeLayout {
   orderIndex?: number;
 }
 
-const loadState = <T,>(key: string, defaultVal: T): T => {
-    try {
-        const saved = localStorage.getItem(key);
-        if (saved) return JSON.parse(saved);
-    } catch (e) { console.error(e); }
-    return defaultVal;
+// Default grid slot for a module placed without an explicit drop position
+const getFreeSlot = (index: number, type: ModuleType): FreeLayout => {
+  const spec = MODULE_SPECS[type];
+  return { x: (index % 10) * 16, y: Math.floor(index / 10) * 12, w: spec.w, h: spec.h };
 };
 
+const getNextOrderIndex = (layouts: Record<string, StructuredLayout>) =>
+  Math.max(-1, ...Object.values(layouts).map(l => l.orderIndex)) + 1;
+
+
 // Helper for icons map
 const MODULE_ICONS = {
     notepad: FaRegStickyNote,
@@ -139,23 +159,36 @@ interface SortableModuleProps {
   theme: typeof THEMES[0];
   editingTitleId: string | null;
   setEditingTitleId: (id: string | null) => void;
-  updateContent: (id: string, data: Partial<ModuleItem>) => void;
+  updateContent: (id: string, data: Partial<ModuleRecord>) => void;
   paletteOpenId: string | null;
   setPaletteOpenId: (id: string | null) => void;
   minimizeModule: (id: string) => void;
   requestDelete: (id: string) => void;
   getVisibleTodos: (module: ModuleItem) => TodoItem[];
   allEvents: CalendarEvent[];
+  getModuleEvents: (module: ModuleRecord) => CalendarEvent[];
+  eventCategories: EventCategory[];
+  openCategoryManager: () => void;
+  requestHolidayYears: (start: Date, end: Date) => void;
   globalTodos: TodoItem[];
-  addTodo: (text: string, moduleId: string, parentId?: string) => void;
+  editSmartList: (moduleId: string) => void;
+  getArchivedCount: (module: ModuleItem) => number;
+  openTodoArchive: (moduleId: string) => void;
+  clearCompletedTodos: (module: ModuleItem) => void;
+  addModuleTodo: (module: ModuleItem, text: string, parentId?: string, fields?: Partial<TodoItem>, afterId?: string) => void;
   updateTodo: (id: string, updates: Partial<TodoItem>) => void;
   setEditingTodo: (todo: TodoItem | null) => void;
-  deleteTodo: (id: string) => Promise<void>;
+  deleteTodo: (id: string) => void;
   moveTodo: (itemId: string, targetModuleId: string) => void;
-  reorderTodo: (draggedId: string, targetId: string | null, position: 'before' | 'after' | 'inside', moduleId: string) => void;
+  reorderModuleTodo: (module: ModuleItem, draggedId: string, targetId: string | null, position: TodoDropPosition) => void;
+  stepTodoItem: (itemId: string, step: TodoMoveStep) => void;
   handleEditEvent: (event: CalendarEvent) => void;
+  importIcs: () => void;
+  openIcsExport: () => void;
   openAddEventModal: (date?: Date) => void;
   openAddEventModalForDrop: (date: Date, title: string) => void;
+  openAddEventModalForRange: (date: Date, startTime: string, endTime: string) => void;
+  changeEventTimes: (event: CalendarEvent, times: EventTimes) => void;
   setGlobalEvents: React.Dispatch<React.SetStateAction<CalendarEvent[]>>;
   maxRows: number;
   rowHeight: number;
@@ -353,29 +386,43 @@ const SortableModule: React.FC<SortableModuleProps & { id: string }> = ({ id, ..
               backgroundColor={theme.body}
             />
           )}
-          {item.type === 'clock' && <Clock mode={item.clockMode || 'analog'} onToggleMode={() => props.updateContent(item.i, { clockMode: item.clockMode === 'analog' ? 'digital' : 'analog' })} />}
+          {item.type === 'clock' && <Clock mode={item.clockMode || 'analog'} onToggleMode={() => props.updateContent(item.i, { clockMode: item.clockMode === 'analog' ? 'digital' : 'analog' })} worldClocks={item.worldClocks} onWorldClocksChange={(worldClocks) => props.updateContent(item.i, { worldClocks })} />}
           {item.type === 'whiteboard' && <Whiteboard content={item.content || ''} onChange={(data) => props.updateContent(item.i, { content: data })} />}
           
           {item.type === 'todo' && (
             <TodoList 
-              moduleId={item.i} 
+              moduleId={getTodoListId(item)} 
               items={props.getVisibleTodos(item)} 
               allEvents={props.allEvents} 
               backgroundColor={theme.body}
-              onAddTodo={(text, parentId) => props.addTodo(text, item.i, parentId)} 
+              onAddTodo={(text, parentId, fields, afterId) => props.addModuleTodo(item, text, parentId, fields, afterId)} 
               onUpdateTodo={props.updateTodo} 
               onEditTodo={(todo) => props.setEditingTodo(todo)}
               onDeleteTodo={props.deleteTodo} 
               onMoveTodo={props.moveTodo} 
-              onReorderTodo={(dragId, targetId, pos) => props.reorderTodo(dragId, targetId, pos, item.i)}
+              onReorderTodo={(dragId, targetId, pos) => props.reorderModuleTodo(item, dragId, targetId, pos)}
+              onStepTodo={item.todoFilter ? undefined : props.stepTodoItem}
               onDragStartItem={props.onDragStartItem}
               onDragEndItem={props.onDragEndItem}
+              sort={item.todoSort}
+              onSortChange={(todoSort) => props.updateContent(item.i, { todoSort })}
+              filterSummary={item.todoFilter && describeTodoFilter(item.todoFilter)}
+              onEditFilter={() => props.editSmartList(item.i)}
+              completedMode={item.completedTodos}
+              onCompletedModeChange={(completedTodos) => props.updateContent(item.i, { completedTodos })}
+              archiveAfterDays={item.archiveAfterDays}
+              onArchiveAfterDaysChange={item.todoFilter ? undefined : (archiveAfterDays) => props.updateContent(item.i, { archiveAfterDays })}
+              archivedCount={props.getArchivedCount(item)}
+              onShowArchive={() => props.openTodoArchive(item.i)}
+              onClearCompleted={() => props.clearCompletedTodos(item)}
+              parentDoneFromChildren={item.parentDoneFromChildren}
+              onParentDoneFromChildrenChange={item.todoFilter ? undefined : (parentDoneFromChildren) => props.updateContent(item.i, { parentDoneFromChildren })}
             />
           )}
           
           {item.type === 'stickynote' && <StickyNote content={item.content || ''} onChange={(txt) => props.updateContent(item.i, { content: txt })} />}
-          {item.type === 'events' && <EventsList events={props.allEvents} onAddClick={() => props.openAddEventModal()} onToggleNotify={(id) => props.setGlobalEvents(prev => prev.map(e => e.id === id ? { ...e, notify: !e.notify } : e))} backgroundColor={theme.body} />}
-          {item.type === 'calendar' && <Calendar events={props.allEvents} onDayClick={(date) => props.openAddEventModal(date)} onDropItemOnDay={(date, itemName) => props.openAddEventModalForDrop(date, itemName)} backgroundColor={theme.body} />}
+          {item.type === 'events' && <EventsList events={props.getModuleEvents(item)} onAddClick={() => props.openAddEventModal()} onToggleNotify={(id) => props.setGlobalEvents(prev => prev.map(e => e.id === id ? { ...e, notify: !e.notify } : e))} onEventClick={props.handleEditEvent} onImportClick={props.importIcs} onExportClick={props.openIcsExport} categories={getLegendCategories(props.eventCategories, props.getModuleEvents(item))} visibleCategories={item.linkedCategory} onVisibleCategoriesChange={(linkedCategory) => props.updateContent(item.i, { linkedCategory })} onManageCategories={props.openCategoryManager} horizon={item.eventsHorizon} onHorizonChange={(eventsHorizon) => props.updateContent(item.i, { eventsHorizon })} showPast={item.showPastEvents} onShowPastChange={(showPastEvents) => props.updateContent(item.i, { showPastEvents })} hideHolidays={item.hideHolidays} onHideHolidaysChange={(hideHolidays) => props.updateContent(item.i, { hideHolidays })} backgroundColor={theme.body} />}
+          {item.type === 'calendar' && <Calendar events={props.getModuleEvents(item)} onVisibleRangeChange={props.requestHolidayYears} onDayClick={(date) => props.openAddEventModal(date)} onDropItemOnDay={(date, itemName) => props.openAddEventModalForDrop(date, itemName)} onEventClick={props.handleEditEvent} onCreateRange={props.openAddEventModalForRange} onEventChange={props.changeEventTimes} snapMinutes={item.snapMinutes} onSnapChange={(snapMinutes) => props.updateContent(item.i, { snapMinutes })} weekCount={item.weekCount} onWeekCountChange={(weekCount) => props.updateContent(item.i, { weekCount })} secondaryTimeZone={item.secondaryTimeZone} onSecondaryTimeZoneChange={(secondaryTimeZone) => props.updateContent(item.i, { secondaryTimeZone })} showTodos={item.showDueTodos} onShowTodosChange={(showDueTodos) => props.updateContent(item.i, { showDueTodos })} moduleWidthPx={moduleWidth} categories={getLegendCategories(props.eventCategories, props.getModuleEvents(item))} visibleCategories={item.linkedCategory} onVisibleCategoriesChange={(linkedCategory) => props.updateContent(item.i, { linkedCategory })} onManageCategories={props.openCategoryManager} backgroundColor={theme.body} />}
           {item.type === 'planner' && <Planner content={item.content || ''} onChange={(data) => props.updateContent(item.i, { content: data })} bgColor={theme.body} gridW={props.viewMode === 'structured' ? Math.min(item.w ?? 16, 15) : (item.w ?? 16)} moduleWidthPx={moduleWidth} onDragStartItem={props.onDragStartItem} onDragEndItem={props.onDragEndItem} />}
           {item.type === 'plannerCalendar' && (
             <PlannerCalendar
@@ -394,89 +441,148 @@ const SortableModule: React.FC<SortableModuleProps & { id: string }> = ({ id, ..
 
 export const Workspace = () => {
   // View mode state
-  const initialViewMode = loadState<'free' | 'structured'>('ws_viewMode', 'free');
-  const [viewMode, setViewMode] = useState<'free' | 'structured'>(initialViewMode);
+  const [viewMode, setViewMode] = useState<'free' | 'structured'>(() => loadState<'free' | 'structured'>('ws_viewMode', 'free'));
   
-  // View-specific state loading
-  const [items, setItems] = useState<ModuleItem[]>(() => {
-    const saved = loadState<ModuleItem[]>(`ws_items_${initialViewMode}`, []);
-    // Fallback to old format for migration
-    if (saved.length === 0) {
-      const oldItems = loadState<ModuleItem[]>('ws_items', []);
-      if (oldItems.length > 0) return oldItems;
-    }
-    return saved;
-  });
-  const [minimizedItems, setMinimizedItems] = useState<ModuleItem[]>(() => {
-    const saved = loadState<ModuleItem[]>(`ws_minimized_${initialViewMode}`, []);
-    // Fallback to old format for migration
-    if (saved.length === 0) {
-      const oldMinimized = loadState<ModuleItem[]>('ws_minimized', []);
-      if (oldMinimized.length > 0) return oldMinimized;
-    }
-    return saved;
+  // Named boards, each with its own modules and layouts
+  const [boards, setBoards] = useState<Board[]>(() => {
+    const saved = loadState<Board[]>('ws_boards', []);
+    return saved.length > 0 ? saved : [createBoard('My Workspace')];
   });
+  const [activeBoardId, setActiveBoardId] = useState<string>(() => loadState('ws_activeBoardId', ''));
+  const activeBoard = boards.find(b => b.id === activeBoardId) || boards[0];
   const [globalEvents, setGlobalEvents] = useState<CalendarEvent[]>(() => loadState('ws_events', []));
-  const [globalTodos, setGlobalTodos] = useState<TodoItem[]>(() => loadState('ws_todos', []));
-  const [holidayEvents, setHolidayEvents] = useState<CalendarEvent[]>([]);
-
-  // Save view mode
-  useEffect(() => { localStorage.setItem('ws_viewMode', JSON.stringify(viewMode)); }, [viewMode]);
-  
-  // Deduplicate items - create a single source of truth for rendering
-  const uniqueItems = useMemo(() => {
-    const seen = new Set<string>();
-    const unique = items.filter(item => {
-      if (seen.has(item.i)) {
-        return false;
-      }
-      seen.add(item.i);
-      return true;
-    });
-    return unique;
-  }, [items]);
-  
-  // Clean up duplicates in state (only run once on mount and when explicitly needed)
-  // Don't run on every render to avoid interfering with new item additions
-  const hasCleanedUpRef = useRef(false);
+  const [globalTodos, setGlobalTodos] = useState<TodoItem[]>(() => assignMissingOrder(loadState('ws_todos', [])));
+  const [holidaySettings, setHolidaySettings] = useState<HolidaySettings>(() => loadState('ws_holidaySettings', getDefaultHolidaySettings()));
+  // Years holidays are generated for; calendars add years as they navigate
+  const [holidayYears, setHolidayYears] = useState<number[]>(() => {
+    const currentYear = new Date().getFullYear();
+    return [currentYear - 1, currentYear, currentYear + 1];
+  });
+  const [trash, setTrash] = useState<TrashEntry[]>(() => loadState('ws_trash', []));
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(() => loadState('ws_trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS));
+  // Workspaces from before the registry start with the categories their events use
+  const [eventCategories, setEventCategories] = useState<EventCategory[]>(() =>
+    loadState<EventCategory[] | null>('ws_eventCategories', null) ?? seedCategories(loadState<CalendarEvent[]>('ws_events', [])));
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(() => loadState('ws_notificationSettings', DEFAULT_NOTIFICATION_SETTINGS));
+
+  // The workspace file could not be read (and the app started empty) or came from a newer version of
+  // the app; point the user to the kept copy
   useEffect(() => {
-    if (!hasCleanedUpRef.current) {
-      // One-time cleanup on mount
-      const itemIds = new Set(items.map(i => i.i));
-      if (itemIds.size < items.length) {
-        console.warn(`Removing ${items.length - itemIds.size} duplicate module(s) on mount`);
-        setItems(uniqueItems);
-      }
-      hasCleanedUpRef.current = true;
-    }
-  }, []); // Only run once on mount
-  
-  // Save view-specific items and minimized items
-  useEffect(() => { localStorage.setItem(`ws_items_${viewMode}`, JSON.stringify(items)); }, [items, viewMode]);
-  useEffect(() => { localStorage.setItem(`ws_minimized_${viewMode}`, JSON.stringify(minimizedItems)); }, [minimizedItems, viewMode]);
-  useEffect(() => { localStorage.setItem('ws_events', JSON.stringify(globalEvents)); }, [globalEvents]);
-  useEffect(() => { localStorage.setItem('ws_todos', JSON.stringify(globalTodos)); }, [globalTodos]);
+      const backup = takeStoreBackup();
+      if (!backup) return;
+      const reason = backup.reason === 'corrupt'
+          ? 'Your workspace file could not be read, so an empty workspace was opened. The unreadable file was kept as:'
+          : 'Your workspace file was saved by a newer version of the app and will be saved in this version\'s format. The original was kept as:';
+      if (confirm(`${reason}\n${backup.path}\n\nShow it in its folder?`)) showInFolder(backup.path);
+  }, []);
+
+  useEffect(() => { saveState('ws_viewMode', viewMode); }, [viewMode]);
+  useEffect(() => { saveState('ws_boards', boards); }, [boards]);
+  useEffect(() => { saveState('ws_activeBoardId', activeBoard.id); }, [activeBoard.id]);
+  useEffect(() => { saveState('ws_events', globalEvents); }, [globalEvents]);
+  useEffect(() => { saveState('ws_todos', globalTodos); }, [globalTodos]);
+  useEffect(() => { saveState('ws_trash', trash); }, [trash]);
+  useEffect(() => { saveState('ws_trashRetentionDays', trashRetentionDays); }, [trashRetentionDays]);
+  useEffect(() => { saveState('ws_notificationSettings', notificationSettings); }, [notificationSettings]);
+  useEffect(() => { saveState('ws_eventCategories', eventCategories); }, [eventCategories]);
+  useEffect(() => { saveState('ws_holidaySettings', holidaySettings); }, [holidaySettings]);
+
+  // Undo/redo over boards (modules, layouts, module content), todos, events and the trash
+  const historySnapshot = useMemo(
+      () => ({ boards, todos: globalTodos, events: globalEvents, trash }),
+      [boards, globalTodos, globalEvents, trash]
+  );
+  const history = useUndoHistory(historySnapshot, snapshot => {
+      setBoards(snapshot.boards);
+      setGlobalTodos(snapshot.todos);
+      setGlobalEvents(snapshot.events);
+      setTrash(snapshot.trash);
+  });
+  const { undo, redo } = history;
+
+  // Deleted files cannot be brought back, so neither can the undo steps that use them
+  const forgetFiles = (paths: string[]) => {
+      if (paths.length === 0) return;
+      history.forget(snapshot => {
+          const used = getFilePaths(snapshot);
+          return paths.some(path => used.has(path));
+      });
+  };
+  const deleteFiles = (paths: string[]) => {
+      forgetFiles(paths);
+      removeFiles(paths);
+  };
 
-  // Holiday Fetcher
   useEffect(() => {
-      const locale = navigator.language || 'en-US';
-      const countryCode = locale.split('-')[1] || 'US';
-      const hd = new Holidays(countryCode);
-      const currentYear = new Date().getFullYear();
-      type Holiday = {
-        name: string;
-        date: string;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          // Text fields and the notepad editor keep their own undo
+          const target = e.target as HTMLElement | null;
+          if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              undo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              redo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Module state of the active board; setters write back into the boards list
+  const modules = activeBoard.modules;
+  const freeLayouts = activeBoard.layoutFree;
+  const structuredLayouts = activeBoard.layoutStructured;
+  const boardSetter = <K extends keyof Board>(key: K) => (action: React.SetStateAction<Board[K]>) => {
+    const boardId = activeBoard.id;
+    setBoards(prev => prev.map(b => {
+      if (b.id !== boardId) return b;
+      const value = typeof action === 'function' ? (action as (prevValue: Board[K]) => Board[K])(b[key]) : action;
+      return { ...b, [key]: value };
+    }));
+  };
+  const setModules = boardSetter('modules');
+  const setFreeLayouts = boardSetter('layoutFree');
+  const setStructuredLayouts = boardSetter('layoutStructured');
+
+  // Visible modules merged with their layout for the current view
+  const items = useMemo<ModuleItem[]>(() => modules
+    .filter(m => !m.minimized)
+    .map((m, index) => {
+      if (viewMode === 'free') {
+        return { ...m, ...(freeLayouts[m.i] || getFreeSlot(index, m.type)) };
       }
-      let fetched: Holiday[] = [];
-      [currentYear - 1, currentYear, currentYear + 1].forEach(y => { fetched = [...fetched, ...hd.getHolidays(y)]; });
-      // eslint-disable-next-line react-hooks/set-state-in-effect
-      setHolidayEvents(fetched.map((h, i) => ({
-          id: `holiday-${i}`, title: h.name, date: new Date(h.date).toISOString(),
-          isAllDay: true, notify: false, color: '#28a745', category: 'Public Holiday', location: countryCode
-      })));
-  }, []);
+      const layout = structuredLayouts[m.i] || { orderIndex: Number.MAX_SAFE_INTEGER, w: 16, h: MODULE_SPECS[m.type].h };
+      return { ...m, x: 0, y: 0, ...layout };
+    }), [modules, freeLayouts, structuredLayouts, viewMode]);
+  const minimizedItems = useMemo(() => modules.filter(m => m.minimized), [modules]);
+
+  const holidayEvents = useMemo(() => getHolidayEvents(holidaySettings, holidayYears), [holidaySettings, holidayYears]);
+
+  const requestHolidayYears = (start: Date, end: Date) => {
+      setHolidayYears(prev => {
+          const missing: number[] = [];
+          for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+              if (!prev.includes(year)) missing.push(year);
+          }
+          return missing.length > 0 ? [...prev, ...missing].sort((a, b) => a - b) : prev;
+      });
+  };
 
-  const allEvents = [...holidayEvents, ...globalEvents];
+  // Boards with their own events only see those; shared boards see the common pool
+  const boardEvents = globalEvents.filter(e => activeBoard.eventScope === 'board' ? e.boardId === activeBoard.id : !e.boardId);
+  const allEvents = [...holidayEvents, ...boardEvents];
+  // Due to-dos of the lists on this board, for calendars that show them
+  const boardListIds = new Set(activeBoard.modules.filter(m => m.type === 'todo').map(getTodoListId));
+  const todoEvents = getTodoEvents(globalTodos.filter(t => boardListIds.has(t.originModuleId)));
+  // Events shown by a calendar or events module
+  const getModuleEvents = (module: ModuleRecord) => {
+      const events = module.hideHolidays ? boardEvents : allEvents;
+      return module.type === 'calendar' && module.showDueTodos ? [...events, ...todoEvents] : events;
+  };
 
   // UI State
   const [draggingType, setDraggingType] = useState<ModuleType>('notepad');
@@ -484,7 +590,6 @@ export const Workspace = () => {
   const [gridHeight, setGridHeight] = useState(800);
   const [maxRows, setMaxRows] = useState(50);
   const [isDragging, setIsDragging] = useState(false);
-  const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
   
   // @dnd-kit state for structured mode
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -505,12 +610,48 @@ export const Workspace = () => {
   // Modals
   const [showModal, setShowModal] = useState(false);
   const [modalData, setModalData] = useState<Partial<CalendarEvent>>({});
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>('this');
+  const [attendeeDraft, setAttendeeDraft] = useState('');
+  // Category chosen in the .ics export dialog ('' = all events); null while the dialog is closed
+  const [icsExportCategory, setIcsExportCategory] = useState<string | null>(null);
   const [editingTodo, setEditingTodo] = useState<TodoItem | null>(null);
+  // Smart list whose filter is being edited
+  const [editingFilterModuleId, setEditingFilterModuleId] = useState<string | null>(null);
+  // To-do module whose archive is open
+  const [archiveModuleId, setArchiveModuleId] = useState<string | null>(null);
   const [editingTitleId, setEditingTitleId] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<WorkspaceArchive | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+  const [showHolidaySettings, setShowHolidaySettings] = useState(false);
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [firedReminders, setFiredReminders] = useState<Reminder[]>([]);
   const [paletteOpenId, setPaletteOpenId] = useState<string | null>(null);
   const [draggingTodoOrPlanner, setDraggingTodoOrPlanner] = useState(false);
 
+  // Reminders for every board's events and to-dos; rebuilt hourly so the scheduling window keeps moving
+  useEffect(() => {
+    const sync = () => scheduleNotifications([...buildReminders(globalEvents, notificationSettings), ...buildTodoReminders(globalTodos, notificationSettings)]);
+    sync();
+    const interval = setInterval(sync, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [globalEvents, globalTodos, notificationSettings]);
+
+  useEffect(() => onNotificationFired(reminder => {
+    setFiredReminders(prev => [...prev.filter(r => r.key !== reminder.key), reminder]);
+  }), []);
+
+  const snoozeReminder = (key: string, minutes: number) => {
+    snoozeNotification(key, minutes);
+    setFiredReminders(prev => prev.filter(r => r.key !== key));
+  };
+
+  const dismissReminder = (key: string) => {
+    dismissNotification(key);
+    setFiredReminders(prev => prev.filter(r => r.key !== key));
+  };
+
   useEffect(() => {
     const handleDragEnd = () => setDraggingTodoOrPlanner(false);
     window.addEventListener('dragend', handleDragEnd);
@@ -567,166 +708,40 @@ export const Workspace = () => {
         }
       });
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [globalTodos, viewMode, maxRows]);
 
 
-  // Calculate structured layout: group by type and assign orderIndex
-  const calculateStructuredLayout = (modules: ModuleItem[]): ModuleItem[] => {
-    if (!modules || modules.length === 0) return [];
-    
-    // Filter out any invalid modules
-    const validModules = modules.filter(m => m && m.i && m.type);
-    if (validModules.length === 0) return [];
-    
-    // If modules already have orderIndex, preserve their order
-    const hasOrderIndex = validModules.some(m => m.orderIndex !== undefined && m.orderIndex !== null);
-    if (hasOrderIndex) {
-      // Sort by orderIndex, then assign new indices
-      const sorted = [...validModules].sort((a, b) => {
-        const aOrder = a.orderIndex ?? 999999;
-        const bOrder = b.orderIndex ?? 999999;
-        return aOrder - bOrder;
-      });
-      return sorted.map((mod, index) => ({
-        ...mod,
-        orderIndex: index
-      }));
-    }
-    
-    // Group by type for initial layout
-    const grouped = validModules.reduce((acc, mod) => {
-      if (!acc[mod.type]) acc[mod.type] = [];
-      acc[mod.type].push(mod);
-      return acc;
-    }, {} as Record<ModuleType, ModuleItem[]>);
-    
-    // Sort groups by type order (matching toolbar order)
-    const typeOrder: ModuleType[] = ['notepad', 'stickynote', 'whiteboard', 'todo', 'planner', 'plannerCalendar', 'calendar', 'events', 'clock'];
-    const sortedTypes = typeOrder.filter(t => grouped[t]);
-    
-    // Assign orderIndex based on grouped order
-    let orderIndex = 0;
-    const result: ModuleItem[] = [];
-    
-    sortedTypes.forEach(type => {
-      grouped[type].forEach(mod => {
-        result.push({
-          ...mod,
-          orderIndex: orderIndex++
-        });
-      });
-    });
-    
-    return result;
-  };
-  
   // Get sorted items by orderIndex for structured mode
   const getSortedItems = (): ModuleItem[] => {
-    // Use the already-deduplicated uniqueItems
-    if (!uniqueItems || uniqueItems.length === 0) return [];
-    return [...uniqueItems].sort((a, b) => {
+    return [...items].sort((a, b) => {
       const aOrder = a.orderIndex ?? 999999;
       const bOrder = b.orderIndex ?? 999999;
       return aOrder - bOrder;
     });
   };
 
-  // Toggle view mode
+  // Both views render the same modules, so switching only swaps the layout in use
   const toggleViewMode = () => {
-    const newMode: 'free' | 'structured' = viewMode === 'free' ? 'structured' : 'free';
-    
-    // Save current state
-    localStorage.setItem(`ws_items_${viewMode}`, JSON.stringify(items));
-    localStorage.setItem(`ws_minimized_${viewMode}`, JSON.stringify(minimizedItems));
-    
-    // Load new view state
-    let newItems = loadState<ModuleItem[]>(`ws_items_${newMode}`, []);
-    const newMinimizedItems = loadState<ModuleItem[]>(`ws_minimized_${newMode}`, []);
-    
-    // Merge modules: combine items from both views, prioritizing current view's properties
-    // This ensures modules added in one view appear in the other, and properties like themes are synced
-    const newItemIds = new Set(newItems.map(i => i.i));
-    
-    // Create a map of current items for easy lookup
-    const currentItemsMap = new Map(items.map(i => [i.i, i]));
-    
-    // Merge: for items that exist in both views, use current view's properties (theme, content, etc.)
-    // but preserve the new view's position/size
-    const mergedItems = newItems.map(newItem => {
-      const currentItem = currentItemsMap.get(newItem.i);
-      if (currentItem) {
-        // Item exists in both views - merge properties, prioritizing current view's non-positional data
-        return {
-          ...newItem, // Start with new view's position/size
-          ...currentItem, // Override with current view's properties (theme, content, etc.)
-          x: newItem.x, // But keep new view's position
-          y: newItem.y,
-          w: newItem.w,
-          h: newItem.h
-        };
-      }
-      return newItem;
-    });
-    
-    // Add items from current view that don't exist in new view
-    const itemsToAdd = items.filter(item => !newItemIds.has(item.i));
-    
-    // Deduplicate before setting items
-    const seen = new Set<string>();
-    const deduplicatedMerged = mergedItems.filter(item => {
-      if (seen.has(item.i)) {
-        console.warn(`Removing duplicate during view switch: ${item.i}`);
-        return false;
-      }
-      seen.add(item.i);
-      return true;
-    });
-    const deduplicatedToAdd = itemsToAdd.filter(item => {
-      if (seen.has(item.i)) {
-        console.warn(`Removing duplicate during view switch: ${item.i}`);
-        return false;
-      }
-      seen.add(item.i);
-      return true;
-    });
-    
-    // If switching to structured, calculate layout
-    if (newMode === 'structured') {
-      const allItems = [...deduplicatedMerged, ...deduplicatedToAdd];
-      const structuredItems = calculateStructuredLayout(allItems);
-      setItems(structuredItems);
-    } else {
-      // For free view, add new items at default positions
-      const itemsWithDefaults = [...deduplicatedMerged, ...deduplicatedToAdd.map((item, index) => {
-        const spec = MODULE_SPECS[item.type];
-        return {
-          ...item,
-          x: ((deduplicatedMerged.length + index) % 10) * 16,
-          y: Math.floor((deduplicatedMerged.length + index) / 10) * 12,
-          w: spec.w,
-          h: spec.h
-        };
-      })];
-      setItems(itemsWithDefaults);
-    }
-    
-    setMinimizedItems(newMinimizedItems);
-    setViewMode(newMode);
+    setViewMode(viewMode === 'free' ? 'structured' : 'free');
   };
 
-  const onDragStart = (e: React.DragEvent, type: ModuleType) => {
+  const onDragStart = (e: React.DragEvent, type: ModuleType, smartList = false) => {
     e.dataTransfer.setData("text/plain", "");
     e.dataTransfer.setData("moduleType", type); // Mark as module drag
+    if (smartList) e.dataTransfer.setData("moduleVariant", "smartList");
     setDraggingType(type);
     setIsDropping(true);
   };
 
-  const createStructuredModule = (type: ModuleType) => {
-    if (type === 'clock' && items.some(i => i.type === 'clock')) {
+  // Create a module with a layout record for each view
+  // Smart lists are to-do modules with a filter
+  const addModule = (type: ModuleType, freePos?: { x: number, y: number }, smartList = false) => {
+    if (type === 'clock' && modules.some(i => i.type === 'clock')) {
       alert("Only one clock allowed!");
       return;
     }
-    if (type === 'planner' && items.some(i => i.type === 'planner')) {
+    if (type === 'planner' && modules.some(i => i.type === 'planner')) {
       alert("Only one planner allowed!");
       return;
     }
@@ -737,27 +752,28 @@ export const Workspace = () => {
     if (type === 'todo') defaultTitle = "To-do (click to edit)";
     if (type === 'planner') defaultTitle = "Planner";
     if (type === 'plannerCalendar') defaultTitle = "Planner Calendar";
+    if (smartList) defaultTitle = "Smart List";
 
-    const maxOrderIndex = items.length > 0 ? Math.max(...items.map(i => i.orderIndex ?? 0)) : -1;
-    const newItem: ModuleItem = {
+    const newModule: ModuleRecord = {
       i: uniqueId,
-      x: 0,
-      y: 0,
-      w: 16,
-      h: specs.h,
       type,
       title: defaultTitle,
       content: '',
       clockMode: 'analog',
       listTitle: '',
       themeIndex: 0,
-      orderIndex: maxOrderIndex + 1,
+      ...(smartList ? { todoFilter: { done: 'open' } } : {}),
     };
 
-    setItems(prev => [...prev, newItem]);
+    setModules(prev => [...prev, newModule]);
+    setFreeLayouts(prev => ({
+      ...prev,
+      [uniqueId]: freePos ? { ...freePos, w: specs.w, h: specs.h } : getFreeSlot(Object.keys(prev).length, type)
+    }));
+    setStructuredLayouts(prev => ({ ...prev, [uniqueId]: { orderIndex: getNextOrderIndex(prev), w: 16, h: specs.h } }));
   };
 
-  const onDrop = (layout: Layout[], layoutItem: Layout, event: Event) => {
+  const onDrop = (_layout: Layout[], layoutItem: Layout, event: Event) => {
     // FIX 1: If dragging a Todo Item, CANCEL module creation
     const dragEvent = event as unknown as React.DragEvent;
     const types = dragEvent.dataTransfer?.types ? Array.from(dragEvent.dataTransfer.types) : [];
@@ -778,219 +794,34 @@ export const Workspace = () => {
     // Handle Restore from Minimized Drag
     const restoreId = dragEvent.dataTransfer?.getData('restoreId');
     if (restoreId) {
-        const itemToRestore = minimizedItems.find(i => i.i === restoreId);
-        if (itemToRestore) {
-            if (viewMode === 'structured') {
-              // In structured view, add to end with orderIndex (check for duplicates first)
-              if (!items.some(i => i.i === restoreId)) {
-                const maxOrderIndex = items.length > 0 
-                  ? Math.max(...items.map(i => i.orderIndex ?? 0))
-                  : -1;
-                const restored = {
-                  ...itemToRestore,
-                  orderIndex: maxOrderIndex + 1
-                };
-                setItems([...items, restored]);
-              }
-            } else {
-              // Free view: restore to dropped position (check for duplicates first)
-              if (!items.some(i => i.i === restoreId)) {
-                const restored = { 
-                  ...itemToRestore, 
-                  x: layoutItem.x, 
-                  y: layoutItem.y,
-                  w: itemToRestore.prevPos?.w || itemToRestore.w,
-                  h: itemToRestore.prevPos?.h || itemToRestore.h
-                };
-                setItems(prev => [...prev, restored]);
-              }
-            }
-            setMinimizedItems(prev => prev.filter(i => i.i !== restoreId));
-            
-            // Also restore in the other view's storage
-            const otherMode: 'free' | 'structured' = viewMode === 'free' ? 'structured' : 'free';
-            const otherMinimized = loadState<ModuleItem[]>(`ws_minimized_${otherMode}`, []);
-            const otherItemToRestore = otherMinimized.find(i => i.i === restoreId);
-            if (otherItemToRestore) {
-              const otherItems = loadState<ModuleItem[]>(`ws_items_${otherMode}`, []);
-              const otherRestored: ModuleItem = otherMode === 'structured' 
-                ? {
-                    ...otherItemToRestore,
-                    orderIndex: otherItems.length > 0 
-                      ? Math.max(...otherItems.map(i => i.orderIndex ?? 0)) + 1
-                      : 0
-                  }
-                : {
-                    ...otherItemToRestore,
-                    x: otherItemToRestore.prevPos?.x || 0,
-                    y: otherItemToRestore.prevPos?.y || 0,
-                    w: otherItemToRestore.prevPos?.w || otherItemToRestore.w,
-                    h: otherItemToRestore.prevPos?.h || otherItemToRestore.h
-                  };
-              
-              const updatedOtherItems = otherMode === 'structured'
-                ? [...otherItems, otherRestored]
-                : [...otherItems, otherRestored];
-              
-              localStorage.setItem(`ws_items_${otherMode}`, JSON.stringify(updatedOtherItems));
-              localStorage.setItem(`ws_minimized_${otherMode}`, JSON.stringify(otherMinimized.filter(i => i.i !== restoreId)));
-            }
-        }
+        restoreModule(restoreId, layoutItem.x, layoutItem.y);
         setIsDropping(false);
         return;
     }
 
-    if (draggingType === 'clock' && items.some(i => i.type === 'clock')) {
-        alert("Only one clock allowed!");
-        setIsDropping(false);
-        return;
-    }
-    if (draggingType === 'planner' && items.some(i => i.type === 'planner')) {
-        alert("Only one planner allowed!");
-        setIsDropping(false);
-        return;
-    }
-    const specs = MODULE_SPECS[draggingType];
-    const uniqueId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `mod_${Date.now()}`;
-    
-    let defaultTitle = draggingType.charAt(0).toUpperCase() + draggingType.slice(1);
-    if (draggingType === 'todo') defaultTitle = "To-do (click to edit)";
-    if (draggingType === 'planner') defaultTitle = "Planner";
-    if (draggingType === 'plannerCalendar') defaultTitle = "Planner Calendar";
-
-    const newItem: ModuleItem = {
-        i: uniqueId, 
-        x: viewMode === 'structured' ? 0 : layoutItem.x, 
-        y: viewMode === 'structured' ? 0 : layoutItem.y, 
-        w: viewMode === 'structured' ? 16 : specs.w, 
-        h: viewMode === 'structured' ? specs.h : specs.h, 
-        type: draggingType,
-        title: defaultTitle, content: '', clockMode: 'analog', listTitle: '', themeIndex: 0,
-        orderIndex: viewMode === 'structured' ? (() => {
-          if (items.length === 0) return 0;
-          const orderIndices = items.map(i => i.orderIndex ?? 0).filter(idx => idx >= 0);
-          return orderIndices.length > 0 ? Math.max(...orderIndices) + 1 : 0;
-        })() : undefined
-    };
-    
-    // Add to current view
-    if (viewMode === 'structured') {
-      // In structured view, add to end (check for duplicates first)
-      if (!items.some(i => i.i === uniqueId)) {
-        setItems([...items, newItem]);
-      }
-    } else {
-      setItems(prev => {
-        if (prev.some(i => i.i === uniqueId)) return prev;
-        return [...prev, newItem];
-      });
-    }
-    
-    // Also add to the other view's storage (with appropriate positioning)
-    const otherMode: 'free' | 'structured' = viewMode === 'free' ? 'structured' : 'free';
-    const otherItems = loadState<ModuleItem[]>(`ws_items_${otherMode}`, []);
-    
-    // Check if module already exists in other view (shouldn't, but be safe)
-    if (!otherItems.some(i => i.i === uniqueId)) {
-      const otherViewItem: ModuleItem = {
-        ...newItem,
-        x: otherMode === 'structured' ? 0 : (otherItems.length % 10) * 16,
-        y: otherMode === 'structured' ? 0 : Math.floor(otherItems.length / 10) * 12,
-        w: otherMode === 'structured' ? 16 : specs.w,
-        h: otherMode === 'structured' ? specs.h : specs.h,
-        orderIndex: otherMode === 'structured' 
-          ? (otherItems.length > 0 ? Math.max(...otherItems.map(i => i.orderIndex ?? 0)) + 1 : 0)
-          : undefined
-      };
-      const updatedOtherItems = otherMode === 'structured' 
-        ? [...otherItems, otherViewItem]
-        : [...otherItems, otherViewItem];
-      localStorage.setItem(`ws_items_${otherMode}`, JSON.stringify(updatedOtherItems));
-    }
-    
+    addModule(draggingType, viewMode === 'free' ? { x: layoutItem.x, y: layoutItem.y } : undefined, dragEvent.dataTransfer?.getData('moduleVariant') === 'smartList');
     setIsDropping(false);
   };
 
   // --- MINIMIZATION LOGIC ---
   const minimizeModule = (id: string) => {
-      const item = items.find(i => i.i === id);
-      if (!item) return;
-      
-      // Save position for restore
-      const itemWithPos = { ...item, prevPos: { x: item.x, y: item.y, w: item.w, h: item.h } };
-      
-      setMinimizedItems(prev => [...prev, itemWithPos]);
-      setItems(prev => prev.filter(i => i.i !== id));
+      setModules(prev => prev.map(m => m.i === id ? { ...m, minimized: true } : m));
   };
 
   const restoreModule = (id: string, dropX?: number, dropY?: number) => {
       const item = minimizedItems.find(i => i.i === id);
       if (!item) return;
 
-      let restoredItem: ModuleItem;
-      
       if (viewMode === 'structured') {
-        // In structured view, add to end with orderIndex (check for duplicates first)
-        if (!items.some(i => i.i === id)) {
-          const maxOrderIndex = items.length > 0 
-            ? Math.max(...items.map(i => i.orderIndex ?? 0))
-            : -1;
-          restoredItem = {
-            ...item,
-            orderIndex: maxOrderIndex + 1
-          };
-          setItems([...items, restoredItem]);
-        } else {
-          return; // Item already exists, don't restore
-        }
-      } else {
-        // Free view: use saved position or provided drop position (check for duplicates first)
-        if (!items.some(i => i.i === id)) {
-          const newX = dropX !== undefined ? dropX : (item.prevPos?.x || 0);
-          const newY = dropY !== undefined ? dropY : (item.prevPos?.y || 0);
-          restoredItem = { 
-            ...item, 
-            x: newX, 
-            y: newY, 
-            w: item.prevPos?.w || item.w, 
-            h: item.prevPos?.h || item.h 
-          };
-          setItems(prev => [...prev, restoredItem]);
-        } else {
-          return; // Item already exists, don't restore
-        }
-      }
-      
-      setMinimizedItems(prev => prev.filter(i => i.i !== id));
-      
-      // Also restore in the other view's storage
-      const otherMode: 'free' | 'structured' = viewMode === 'free' ? 'structured' : 'free';
-      const otherMinimized = loadState<ModuleItem[]>(`ws_minimized_${otherMode}`, []);
-      const otherItem = otherMinimized.find(i => i.i === id);
-      if (otherItem) {
-        const otherItems = loadState<ModuleItem[]>(`ws_items_${otherMode}`, []);
-        const otherRestored: ModuleItem = otherMode === 'structured' 
-          ? {
-              ...otherItem,
-              orderIndex: otherItems.length > 0 
-                ? Math.max(...otherItems.map(i => i.orderIndex ?? 0)) + 1
-                : 0
-            }
-          : {
-              ...otherItem,
-              x: otherItem.prevPos?.x || 0,
-              y: otherItem.prevPos?.y || 0,
-              w: otherItem.prevPos?.w || otherItem.w,
-              h: otherItem.prevPos?.h || otherItem.h
-            };
-        
-        const updatedOtherItems = otherMode === 'structured'
-          ? [...otherItems.length > 0 ? otherItems : [], otherRestored]
-          : [...otherItems, otherRestored];
-        
-        localStorage.setItem(`ws_items_${otherMode}`, JSON.stringify(updatedOtherItems));
-        localStorage.setItem(`ws_minimized_${otherMode}`, JSON.stringify(otherMinimized.filter(i => i.i !== id)));
+        // Restored modules go to the end of the row
+        setStructuredLayouts(prev => ({
+          ...prev,
+          [id]: { ...(prev[id] || { w: 16, h: MODULE_SPECS[item.type].h }), orderIndex: getNextOrderIndex(prev) }
+        }));
+      } else if (dropX !== undefined && dropY !== undefined) {
+        setFreeLayouts(prev => ({ ...prev, [id]: { ...(prev[id] || getFreeSlot(0, item.type)), x: dropX, y: dropY } }));
       }
+      setModules(prev => prev.map(m => m.i === id ? { ...m, minimized: false } : m));
   };
 
   const requestDelete = (id: string) => {
@@ -999,83 +830,478 @@ export const Workspace = () => {
       let hasContent = false;
       if (item.type === 'notepad' || item.type === 'stickynote') if (item.content && item.content.trim().length > 0) hasContent = true;
       else if (item.type === 'whiteboard') if (item.content && item.content.length > 50) hasContent = true; 
-      else if (item.type === 'todo') if (globalTodos.some(t => t.originModuleId === id)) hasContent = true;
+      else if (item.type === 'todo') if (globalTodos.some(t => t.originModuleId === getTodoListId(item))) hasContent = true;
       else if (item.type === 'planner') if (item.content && item.content.length > 50) hasContent = true;
 
       if (hasContent) setDeleteConfirmId(id);
       else performDelete(id);
   };
 
+  // A module's trash entry carries its layouts and, unless another module still shows it, its to-do list
+  const trashModule = (board: Board, module: ModuleRecord, todos: TodoItem[]): TrashedModule => ({
+      id: createId('trash'),
+      kind: 'module',
+      deletedAt: new Date().toISOString(),
+      boardId: board.id,
+      module,
+      layoutFree: board.layoutFree[module.i],
+      layoutStructured: board.layoutStructured[module.i],
+      todos,
+  });
+
+  // Trash entries for every module of a board; a list no other board shows travels with its first module
+  const trashBoardModules = (board: Board, otherBoards: Board[]) => {
+      const listsInUse = new Set(otherBoards.flatMap(b => b.modules.map(getTodoListId)));
+      const orphanedLists = new Set(board.modules.map(getTodoListId).filter(listId => !listsInUse.has(listId)));
+      const trashedLists = new Set<string>();
+      const entries: TrashEntry[] = board.modules.map(module => {
+          const listId = getTodoListId(module);
+          const ownsList = orphanedLists.has(listId) && !trashedLists.has(listId);
+          if (ownsList) trashedLists.add(listId);
+          return trashModule(board, module, ownsList ? globalTodos.filter(t => t.originModuleId === listId) : []);
+      });
+      globalEvents.filter(e => e.boardId === board.id).forEach(event => {
+          entries.push({ id: createId('trash'), kind: 'event', deletedAt: new Date().toISOString(), boardId: board.id, event });
+      });
+      return { entries, orphanedLists };
+  };
+
   const performDelete = (id: string) => {
-      setItems(prev => prev.filter(i => i.i !== id));
-      setGlobalTodos(prev => prev.filter(t => t.originModuleId !== id));
-      
-      // Also remove from the other view's storage
-      const otherMode: 'free' | 'structured' = viewMode === 'free' ? 'structured' : 'free';
-      const otherItems = loadState<ModuleItem[]>(`ws_items_${otherMode}`, []);
-      const updatedOtherItems = otherItems.filter(i => i.i !== id);
-      localStorage.setItem(`ws_items_${otherMode}`, JSON.stringify(updatedOtherItems));
-      
-      // Also remove from minimized items in both views
-      const otherMinimized = loadState<ModuleItem[]>(`ws_minimized_${otherMode}`, []);
-      const updatedOtherMinimized = otherMinimized.filter(i => i.i !== id);
-      localStorage.setItem(`ws_minimized_${otherMode}`, JSON.stringify(updatedOtherMinimized));
-      
+      const module = modules.find(m => m.i === id);
+      setModules(prev => prev.filter(m => m.i !== id));
+      setFreeLayouts(prev => { const next = { ...prev }; delete next[id]; return next; });
+      setStructuredLayouts(prev => { const next = { ...prev }; delete next[id]; return next; });
+      if (module) {
+          // A list shown on another board survives the module
+          const listId = getTodoListId(module);
+          const stillShown = boards.some(b => b.modules.some(m => m.i !== id && getTodoListId(m) === listId));
+          const todos = stillShown ? [] : globalTodos.filter(t => t.originModuleId === listId);
+          if (todos.length > 0) setGlobalTodos(prev => prev.filter(t => t.originModuleId !== listId));
+          setTrash(prev => [trashModule(activeBoard, module, todos), ...prev]);
+      }
       setDeleteConfirmId(null);
   };
 
-  const updateContent = (id: string, data: Partial<ModuleItem>) => {
-    setItems(prev => prev.map(i => i.i === id ? { ...i, ...data } : i));
-    
-    // Sync theme changes (and other properties) to the other view
-    const otherMode: 'free' | 'structured' = viewMode === 'free' ? 'structured' : 'free';
-    const otherItems = loadState<ModuleItem[]>(`ws_items_${otherMode}`, []);
-    const updatedOtherItems = otherItems.map(i => i.i === id ? { ...i, ...data } : i);
-    localStorage.setItem(`ws_items_${otherMode}`, JSON.stringify(updatedOtherItems));
-    
-    // Also update minimized items in both views if needed
-    const currentMinimized = minimizedItems.find(i => i.i === id);
-    if (currentMinimized) {
-      setMinimizedItems(prev => prev.map(i => i.i === id ? { ...i, ...data } : i));
-    }
-    const otherMinimized = loadState<ModuleItem[]>(`ws_minimized_${otherMode}`, []);
-    const updatedOtherMinimized = otherMinimized.map(i => i.i === id ? { ...i, ...data } : i);
-    localStorage.setItem(`ws_minimized_${otherMode}`, JSON.stringify(updatedOtherMinimized));
+  const updateContent = (id: string, data: Partial<ModuleRecord>) => {
+    setModules(prev => prev.map(m => m.i === id ? { ...m, ...data } : m));
+  };
+
+  // --- BOARDS ---
+  const selectBoard = (id: string) => {
+      setActiveBoardId(id);
+      setEditingTitleId(null);
+      setPaletteOpenId(null);
+  };
+
+  const addBoard = () => {
+      const board = createBoard(`Board ${boards.length + 1}`);
+      setBoards(prev => [...prev, board]);
+      selectBoard(board.id);
+  };
+
+  const renameBoard = (id: string, name: string) => {
+      if (!name.trim()) return;
+      setBoards(prev => prev.map(b => b.id === id ? { ...b, name: name.trim() } : b));
+  };
+
+  const reorderBoard = (draggedId: string, targetId: string) => {
+      setBoards(prev => {
+          const oldIndex = prev.findIndex(b => b.id === draggedId);
+          const newIndex = prev.findIndex(b => b.id === targetId);
+          if (oldIndex === -1 || newIndex === -1) return prev;
+          return arrayMove(prev, oldIndex, newIndex);
+      });
+  };
+
+  const setBoardScope = (id: string, key: 'eventScope' | 'todoScope', scope: BoardScope) => {
+      setBoards(prev => prev.map(b => b.id === id ? { ...b, [key]: scope } : b));
+      // Events of a board that goes back to sharing join the common pool
+      if (key === 'eventScope' && scope === 'shared') {
+          setGlobalEvents(prev => prev.map(e => e.boardId === id ? { ...e, boardId: undefined } : e));
+      }
+  };
+
+  const duplicateBoard = async (id: string) => {
+      const source = boards.find(b => b.id === id);
+      if (!source) return;
+
+      const cloned = cloneModules(source, source.todoScope === 'shared');
+      const copy: Board = {
+          ...source,
+          id: createId('board'),
+          name: `${source.name} (copy)`,
+          modules: cloned.modules,
+          layoutFree: cloned.layoutFree,
+          layoutStructured: cloned.layoutStructured,
+      };
+
+      if (cloned.listIdMap.size > 0) {
+          const { todos } = cloneTodos(globalTodos, cloned.listIdMap);
+          const copiedTodos: TodoItem[] = [];
+          for (const todo of todos) {
+              if (!todo.images) {
+                  copiedTodos.push(todo);
+                  continue;
+              }
+              // Each copy owns its image files so deleting one never breaks the other
+              const images: NonNullable<TodoItem['images']> = [];
+              for (const img of todo.images) {
+                  try {
+                      images.push({ ...img, id: createId('img'), path: await copyImage(img.path, todo.id) });
+                  } catch (error) {
+                      console.error(`Error copying image ${img.path}:`, error);
+                  }
+              }
+              copiedTodos.push({ ...todo, images });
+          }
+          setGlobalTodos(prev => [...prev, ...copiedTodos]);
+      }
+
+      if (source.eventScope === 'board') {
+          const copiedEvents = globalEvents
+              .filter(e => e.boardId === source.id)
+              .map(e => ({ ...e, id: createId('evt'), boardId: copy.id }));
+          setGlobalEvents(prev => [...prev, ...copiedEvents]);
+      }
+
+      setBoards(prev => {
+          const index = prev.findIndex(b => b.id === id);
+          return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+      });
+      selectBoard(copy.id);
+  };
+
+  const deleteBoard = (id: string) => {
+      const board = boards.find(b => b.id === id);
+      if (!board || boards.length <= 1) return;
+      if (!confirm(`Delete board "${board.name}"? Its modules are moved to the trash.`)) return;
+
+      const remaining = boards.filter(b => b.id !== id);
+      // Restoring these puts them on the active board
+      const { entries, orphanedLists } = trashBoardModules(board, remaining);
+      setTrash(prev => [...entries, ...prev]);
+      setGlobalTodos(prev => prev.filter(t => !orphanedLists.has(t.originModuleId)));
+      setGlobalEvents(prev => prev.filter(e => e.boardId !== id));
+      setBoards(remaining);
+      if (activeBoard.id === id) selectBoard(remaining[0].id);
+  };
+
+  // --- TRASH ---
+  const restoreTrashEntry = (entryId: string) => {
+      const entry = trash.find(t => t.id === entryId);
+      if (!entry) return;
+
+      if (entry.kind === 'module') {
+          const board = boards.find(b => b.id === entry.boardId) || activeBoard;
+          const { module } = entry;
+          if ((module.type === 'clock' || module.type === 'planner') && board.modules.some(m => m.type === module.type)) {
+              alert(`"${board.name}" already has a ${module.type}.`);
+              return;
+          }
+          setBoards(prev => prev.map(b => {
+              if (b.id !== board.id) return b;
+              return {
+                  ...b,
+                  modules: [...b.modules, module],
+                  layoutFree: entry.layoutFree ? { ...b.layoutFree, [module.i]: entry.layoutFree } : b.layoutFree,
+                  layoutStructured: entry.layoutStructured ? { ...b.layoutStructured, [module.i]: entry.layoutStructured } : b.layoutStructured,
+              };
+          }));
+          setGlobalTodos(prev => [...prev, ...entry.todos.filter(t => !prev.some(p => p.id === t.id))]);
+      } else if (entry.kind === 'todo') {
+          const [root] = entry.todos;
+          const listShown = boards.some(b => b.modules.some(m => getTodoListId(m) === root.originModuleId));
+          if (!listShown) {
+              alert('The to-do list of this item was deleted. Restore the list first.');
+              return;
+          }
+          setGlobalTodos(prev => {
+              // Re-attach at the top level when the parent is gone
+              const parentGone = root.parentId && !prev.some(t => t.id === root.parentId);
+              const todos = parentGone ? [{ ...root, parentId: undefined }, ...entry.todos.slice(1)] : entry.todos;
+              return [...prev, ...todos.filter(t => !prev.some(p => p.id === t.id))];
+          });
+      } else {
+          const boardExists = !entry.event.boardId || boards.some(b => b.id === entry.event.boardId);
+          const event = boardExists ? entry.event : { ...entry.event, boardId: activeBoard.eventScope === 'board' ? activeBoard.id : undefined };
+          setGlobalEvents(prev => prev.some(e => e.id === event.id) ? prev : [...prev, event]);
+      }
+      setTrash(prev => prev.filter(t => t.id !== entryId));
+  };
+
+  // `automatic`: a purge the user did not ask for, kept out of the undo history
+  const purgeTrash = (entries: TrashEntry[], automatic = false) => {
+      if (entries.length === 0) return;
+      const ids = new Set(entries.map(e => e.id));
+      // Images shared with todos that stay, in the workspace or in the trash, are kept
+      const remainingTodos = [...globalTodos, ...trash.filter(t => !ids.has(t.id)).flatMap(getTrashedTodos)];
+      deleteFiles(entries.flatMap(entry => getPurgedFiles(entry, globalEvents, remainingTodos)));
+      setTrash(prev => {
+          const next = prev.filter(t => !ids.has(t.id));
+          if (automatic && next.length !== prev.length) history.markUntracked();
+          return next;
+      });
+  };
+
+  // Drop entries past the retention period, checked whenever the trash changes and hourly while the app runs
+  const purgeExpiredRef = useRef(() => {});
+  useEffect(() => {
+      purgeExpiredRef.current = () => purgeTrash(trash.filter(entry => isExpired(entry, trashRetentionDays)), true);
+  });
+  useEffect(() => {
+      purgeExpiredRef.current();
+      const timer = setInterval(() => purgeExpiredRef.current(), 60 * 60 * 1000);
+      return () => clearInterval(timer);
+  }, [trash, trashRetentionDays]);
+
+  // Lists whose parents follow their sub-items also follow new, moved and removed sub-items
+  const derivedDoneListIds = useMemo(() => getDerivedDoneListIds(boards.flatMap(b => b.modules)), [boards]);
+  useEffect(() => {
+      if (derivedDoneListIds.size === 0) return;
+      setGlobalTodos(prev => {
+          const next = addNextInstances(prev, syncParentDone(prev, derivedDoneListIds));
+          if (next !== prev) history.markUntracked();
+          return next;
+      });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [globalTodos, derivedDoneListIds]);
+
+  // Archive done to-dos past their list's period, checked hourly while the app runs
+  useEffect(() => {
+      const periods = getArchivePeriods(boards.flatMap(b => b.modules));
+      if (periods.size === 0) return;
+      const archive = () => setGlobalTodos(prev => {
+          const next = archiveCompletedTodos(prev, periods);
+          // Archiving is not an edit of its own
+          if (next !== prev) history.markUntracked();
+          return next;
+      });
+      archive();
+      const timer = setInterval(archive, 60 * 60 * 1000);
+      return () => clearInterval(timer);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [boards]);
+
+  // --- ARCHIVE EXPORT / IMPORT ---
+  const exportArchive = async () => {
+      const filePath = await openArchiveSaveDialog(`${activeBoard.name}.wsarchive`);
+      if (!filePath) return;
+      try {
+          await exportWorkspaceArchive(activeBoard, globalTodos, boardEvents, filePath);
+      } catch (error) {
+          console.error('Error exporting workspace:', error);
+          alert('Could not export the workspace. See the console for details.');
+      }
+  };
+
+  const exportWholeArchive = async () => {
+      const filePath = await openArchiveSaveDialog('Workspace.wsarchive');
+      if (!filePath) return;
+      try {
+          await exportWholeWorkspace({ boards, trash, categories: eventCategories, holidaySettings }, globalTodos, globalEvents, filePath);
+      } catch (error) {
+          console.error('Error exporting workspace:', error);
+          alert('Could not export the workspace. See the console for details.');
+      }
+  };
+
+  const importArchive = async () => {
+      const filePath = await openArchiveFileDialog();
+      if (!filePath) return;
+      try {
+          setPendingImport(await readWorkspaceArchive(filePath));
+      } catch (error) {
+          console.error('Error reading workspace archive:', error);
+          alert(`Could not import this file: ${error instanceof Error ? error.message : error}`);
+      }
+  };
+
+  // Merging adds the archive's boards next to the current ones; replacing swaps the whole workspace
+  // (files of the replaced one stay on disk, so undo can bring it back)
+  const applyWorkspaceImport = async (archive: WorkspaceArchive & { kind: 'workspace' }, mode: 'merge' | 'replace') => {
+      const imported = await instantiateWholeWorkspace(archive);
+      if (imported.boards.length === 0) {
+          alert('This archive has no boards.');
+          return;
+      }
+      if (mode === 'replace') {
+          setBoards(imported.boards);
+          setActiveBoardId(imported.boards[0].id);
+          setGlobalTodos(imported.todos);
+          setGlobalEvents(imported.events);
+          setTrash(imported.trash);
+          setEventCategories(imported.categories);
+          if (imported.holidaySettings) setHolidaySettings(imported.holidaySettings);
+          return;
+      }
+      setBoards(prev => [...prev, ...imported.boards]);
+      setGlobalTodos(prev => [...prev, ...imported.todos]);
+      // Shared events that already exist here are skipped, like in board imports
+      const eventKey = (e: CalendarEvent) => [e.title, e.date, e.startTime, e.endTime].join('|');
+      setGlobalEvents(prev => {
+          const existing = new Set(prev.filter(e => !e.boardId).map(eventKey));
+          return [...prev, ...imported.events.filter(e => e.boardId || !existing.has(eventKey(e)))];
+      });
+      setTrash(prev => [...imported.trash, ...prev]);
+      setEventCategories(prev => [...prev, ...imported.categories.filter(c => !prev.some(p => p.name === c.name))]);
+  };
+
+  const applyImport = async (mode: 'merge' | 'replace') => {
+      if (!pendingImport) return;
+      const archive = pendingImport;
+      setPendingImport(null);
+      if (archive.kind === 'workspace') {
+          await applyWorkspaceImport(archive, mode);
+          return;
+      }
+      const imported = await instantiateArchive(archive);
+      const boardId = activeBoard.id;
+      const boardScoped = activeBoard.eventScope === 'board';
+
+      const keptModules = mode === 'replace' ? [] : activeBoard.modules;
+      if (mode === 'replace') {
+          // The replaced modules (and lists no other board shows) go to the trash
+          const { entries, orphanedLists } = trashBoardModules(activeBoard, boards.filter(b => b.id !== boardId));
+          setTrash(prev => [...entries, ...prev]);
+          setGlobalTodos(prev => prev.filter(t => !orphanedLists.has(t.originModuleId)));
+          if (boardScoped) setGlobalEvents(prev => prev.filter(e => e.boardId !== boardId));
+      }
+
+      // Only one clock and one planner per board
+      const skipped = imported.modules.filter(m =>
+          (m.type === 'clock' || m.type === 'planner') && keptModules.some(k => k.type === m.type)
+      );
+      if (skipped.length > 0) alert(`Skipped ${skipped.map(m => m.type).join(' and ')}: this board already has one.`);
+      const skippedIds = new Set(skipped.map(m => m.i));
+      const importedModules = imported.modules.filter(m => !skippedIds.has(m.i));
+
+      // Merged modules go below (free view) and after (structured view) the existing ones
+      const keptIds = new Set(keptModules.map(m => m.i));
+      const keptFree = Object.entries(activeBoard.layoutFree).filter(([id]) => keptIds.has(id));
+      const keptStructured = Object.fromEntries(Object.entries(activeBoard.layoutStructured).filter(([id]) => keptIds.has(id)));
+      const yOffset = Math.max(0, ...keptFree.map(([, l]) => l.y + l.h));
+      const orderOffset = getNextOrderIndex(keptStructured);
+      const layoutFree = { ...Object.fromEntries(keptFree) };
+      const layoutStructured = { ...keptStructured };
+      importedModules.forEach(m => {
+          if (imported.layoutFree[m.i]) layoutFree[m.i] = { ...imported.layoutFree[m.i], y: imported.layoutFree[m.i].y + yOffset };
+          if (imported.layoutStructured[m.i]) layoutStructured[m.i] = { ...imported.layoutStructured[m.i], orderIndex: imported.layoutStructured[m.i].orderIndex + orderOffset };
+      });
+
+      setBoards(prev => prev.map(b => b.id === boardId
+          ? { ...b, modules: [...keptModules, ...importedModules], layoutFree, layoutStructured }
+          : b
+      ));
+      setGlobalTodos(prev => [...prev, ...imported.todos]);
+
+      // Skip events that already exist here (e.g. re-importing a shared calendar)
+      const eventKey = (e: CalendarEvent) => [e.title, e.date, e.startTime, e.endTime].join('|');
+      setGlobalEvents(prev => {
+          const existing = new Set(prev.filter(e => boardScoped ? e.boardId === boardId : !e.boardId).map(eventKey));
+          const added = imported.events
+              .filter(e => !existing.has(eventKey(e)))
+              .map(e => boardScoped ? { ...e, boardId } : e);
+          return [...prev, ...added];
+      });
   };
   
   // --- EVENT HANDLING ---
   const openAddEventModal = (date?: Date) => { 
-      setModalData({ date: date ? date.toISOString() : new Date().toISOString(), title: '', startTime: '09:00', endTime: '10:00', location: '', color: '#007bff', notify: false, isAllDay: false }); 
+      setModalData({ date: date ? date.toISOString() : new Date().toISOString(), title: '', startTime: '09:00', endTime: '10:00', location: '', color: '#007bff', notify: false, isAllDay: false, timeZone: getLocalTimeZone() }); 
       setShowModal(true); 
   };
 
   const openAddEventModalForDrop = (date: Date, title: string) => {
-      setModalData({ date: date.toISOString(), title, startTime: '09:00', endTime: '10:00', location: '', color: '#007bff', notify: false, isAllDay: false });
+      setModalData({ date: date.toISOString(), title, startTime: '09:00', endTime: '10:00', location: '', color: '#007bff', notify: false, isAllDay: false, timeZone: getLocalTimeZone() });
       setShowModal(true);
   };
   
+  const openAddEventModalForRange = (date: Date, startTime: string, endTime: string) => {
+      setModalData({ date: date.toISOString(), title: '', startTime, endTime, location: '', color: '#007bff', notify: false, isAllDay: false, timeZone: getLocalTimeZone() });
+      setShowModal(true);
+  };
+
+  // Drag-and-drop in the calendar; a dragged occurrence of a series is moved on its own
+  const changeEventTimes = (event: CalendarEvent, times: EventTimes) => {
+      if (isHolidayEvent(event)) return;
+      // Moving a due to-do changes its due date (and time, when it has one)
+      if (isTodoEvent(event)) {
+          updateTodo(getTodoIdFromEvent(event), { dueDate: toDateKey(new Date(times.date)), dueTime: event.isAllDay ? undefined : times.startTime });
+          return;
+      }
+      // The calendar shows and moves events in this computer's zone
+      const edited = delocalizeEvent({ ...event, ...times });
+      if (event.seriesId && event.occurrenceDate) {
+          setGlobalEvents(prev => applyOccurrenceEdit(prev, edited, 'this', () => createId('evt')));
+      } else {
+          setGlobalEvents(prev => prev.map(e => e.id === event.id ? edited : e));
+      }
+  };
+
   const handleEditEvent = (event: CalendarEvent) => {
-      setModalData({ ...event });
+      // Holidays are generated, not stored
+      if (isHolidayEvent(event)) return;
+      if (isTodoEvent(event)) {
+          const todo = globalTodos.find(t => t.id === getTodoIdFromEvent(event));
+          if (todo) setEditingTodo(todo);
+          return;
+      }
+      // The modal edits times in the event's own zone; calendar views pass events shown in this computer's zone
+      const stored = !event.occurrenceDate && globalEvents.find(e => e.id === event.id);
+      setModalData(stored ? { ...stored } : delocalizeEvent(event));
+      setSeriesScope('this');
       setShowModal(true);
   };
 
+  // The modal shows one occurrence of a recurring event
+  const isEditingOccurrence = !!(modalData.seriesId && modalData.occurrenceDate);
+  // An end date only counts when it is after the start date
+  // Dates are local days; their ISO strings are UTC and can fall on another day
+  const modalDay = modalData.date ? toDateKey(new Date(modalData.date)) : '';
+  const modalEndDay = modalData.endDate ? toDateKey(new Date(modalData.endDate)) : '';
+  const hasModalEndDate = !!(modalEndDay && modalDay && modalEndDay > modalDay);
+  // Times of an event in another zone, as they are here
+  const modalLocalTimes = !modalData.isAllDay && modalData.date && modalData.startTime && modalData.timeZone && modalData.timeZone !== getLocalTimeZone()
+      ? localizeEvent({ ...modalData, endDate: hasModalEndDate ? modalData.endDate : undefined } as CalendarEvent)
+      : null;
+
   const saveEvent = () => { 
       if (!modalData.title || !modalData.date) return; 
       
       const evtId = modalData.id || Date.now().toString();
+      const links = (modalData.links || []).filter(l => l.trim()).map(normalizeUrl);
       const newEvent: CalendarEvent = { 
           id: evtId, 
           title: modalData.title, 
           date: modalData.date, 
+          endDate: hasModalEndDate ? modalData.endDate : undefined,
           startTime: modalData.startTime, 
           endTime: modalData.endTime, 
+          timeZone: modalData.isAllDay ? undefined : modalData.timeZone,
           location: modalData.location, 
+          description: modalData.description || undefined,
+          attendees: modalData.attendees?.length ? modalData.attendees : undefined,
+          links: links.length ? links : undefined,
+          attachments: modalData.attachments?.length ? modalData.attachments : undefined,
           color: modalData.color || '#007bff', 
           notify: modalData.notify || false, 
           isAllDay: modalData.isAllDay,
-          category: modalData.category // Preserve category
+          category: modalData.category, // Preserve category
+          boardId: modalData.id ? modalData.boardId : (activeBoard.eventScope === 'board' ? activeBoard.id : undefined),
+          recurrence: modalData.recurrence,
+          exceptionDates: modalData.recurrence ? modalData.exceptionDates : undefined,
+          seriesId: modalData.seriesId,
+          occurrenceDate: modalData.occurrenceDate,
       }; 
 
+      if (isEditingOccurrence) {
+          setGlobalEvents(prev => applyOccurrenceEdit(prev, newEvent, seriesScope, () => createId('evt')));
+          setShowModal(false);
+          return;
+      }
+
+      const stored = globalEvents.find(e => e.id === evtId);
+      if (stored) deleteFiles(getUnusedAttachments(stored, [...globalEvents.filter(e => e.id !== evtId), newEvent]));
       setGlobalEvents(prev => {
           const exists = prev.some(e => e.id === evtId);
           if (exists) return prev.map(e => e.id === evtId ? newEvent : e);
@@ -1083,43 +1309,195 @@ export const Workspace = () => {
       }); 
       setShowModal(false); 
   };
+
+  const deleteEvent = (id: string) => {
+      const event = globalEvents.find(e => e.id === id);
+      if (!event) return;
+      setGlobalEvents(prev => prev.filter(e => e.id !== id));
+      setTrash(prev => [{ id: createId('trash'), kind: 'event', deletedAt: new Date().toISOString(), boardId: activeBoard.id, event }, ...prev]);
+      setShowModal(false);
+  };
+
+  const deleteModalEvent = () => {
+      const { seriesId, occurrenceDate } = modalData;
+      if (!seriesId || !occurrenceDate || seriesScope === 'all') {
+          deleteEvent(seriesId || modalData.id!);
+          return;
+      }
+      const series = globalEvents.find(e => e.id === seriesId);
+      if (!series) return;
+      if (seriesScope === 'this') {
+          setGlobalEvents(prev => prev.map(e => e.id === seriesId ? addException(e, occurrenceDate) : e));
+      } else {
+          const { head } = splitSeries(series, occurrenceDate);
+          // Deleting from the first occurrence on removes the whole series
+          if (!head) {
+              deleteEvent(seriesId);
+              return;
+          }
+          setGlobalEvents(prev => prev.map(e => e.id === seriesId ? head : e));
+      }
+      setShowModal(false);
+  };
   
+  // --- ICS IMPORT / EXPORT ---
+  const importIcs = async () => {
+      const text = await openIcsFile();
+      if (text === null) return;
+      const imported = parseIcs(text);
+      if (imported.length === 0) {
+          alert('No events found in this file.');
+          return;
+      }
+      const result = mergeImportedEvents(globalEvents, imported, e => boardEvents.includes(e), () => ({
+          id: createId('evt'),
+          boardId: activeBoard.eventScope === 'board' ? activeBoard.id : undefined,
+      }));
+      setGlobalEvents(result.events);
+      const missing = getMissingCategories(eventCategories, imported);
+      if (missing.length > 0) setEventCategories(prev => [...prev, ...missing]);
+      alert(`Imported ${result.added} new and updated ${result.updated} existing event(s).`);
+  };
+
+  const usedCategories = [...new Set(boardEvents.map(e => e.category).filter((c): c is string => !!c))].sort();
+
+  // --- CATEGORIES ---
+  const addCategory = (name: string, color: string) => {
+      setEventCategories(prev => [...prev, createCategory(name, color)]);
+  };
+
+  // Events refer to categories by name, so a rename carries over to them
+  const updateCategory = (id: string, changes: Partial<Omit<EventCategory, 'id'>>) => {
+      const category = eventCategories.find(c => c.id === id);
+      if (!category) return;
+      setEventCategories(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+      if (changes.name && changes.name !== category.name) {
+          setGlobalEvents(prev => prev.map(e => e.category === category.name ? { ...e, category: changes.name } : e));
+          setBoards(prev => prev.map(board => ({
+              ...board,
+              modules: board.modules.map(m => m.linkedCategory?.includes(category.name)
+                  ? { ...m, linkedCategory: m.linkedCategory.map(n => n === category.name ? changes.name! : n) }
+                  : m),
+          })));
+      }
+  };
+
+  // Events keep the name of a removed category and show it as unregistered
+  const deleteCategory = (id: string) => {
+      setEventCategories(prev => prev.filter(c => c.id !== id));
+  };
+
+  // Picking a category for a new event applies the category's defaults
+  const selectModalCategory = (name: string) => {
+      const category = eventCategories.find(c => c.name === name);
+      if (!modalData.id && category) setModalData({ ...modalData, category: name, color: category.color, notify: category.notify });
+      else setModalData({ ...modalData, category: name || undefined });
+  };
+
+  const addModalAttendee = () => {
+      const attendee = attendeeDraft.trim();
+      const attendees = modalData.attendees || [];
+      if (attendee && !attendees.includes(attendee)) setModalData({ ...modalData, attendees: [...attendees, attendee] });
+      setAttendeeDraft('');
+  };
+
+  const updateModalLink = (index: number, url: string) =>
+      setModalData({ ...modalData, links: (modalData.links || []).map((l, i) => i === index ? url : l) });
+
+  // Files are copied into app storage right away; files removed from the event are deleted once it is saved
+  const addModalAttachment = async () => {
+      const sourcePath = await openAttachmentFileDialog();
+      if (!sourcePath) return;
+      try {
+          const storedPath = await copyAttachment(sourcePath, modalData.seriesId || modalData.id || createId('evt'));
+          const attachment = { id: createId('att'), path: storedPath, name: sourcePath.split(/[\\/]/).pop() || storedPath };
+          setModalData(prev => ({ ...prev, attachments: [...(prev.attachments || []), attachment] }));
+      } catch (error) {
+          console.error('Error adding attachment:', error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          alert('Failed to add attachment: ' + errorMessage);
+      }
+  };
+
+  const exportIcs = async (category: string) => {
+      const events = category ? boardEvents.filter(e => e.category === category) : boardEvents;
+      const name = category ? `${activeBoard.name} - ${category}` : activeBoard.name;
+      try {
+          await saveIcsFile(`${name}.ics`, buildIcs(events));
+          setIcsExportCategory(null);
+      } catch (error) {
+          console.error('Error exporting calendar:', error);
+          alert('Could not export the calendar. See the console for details.');
+      }
+  };
+
   // --- TODO HELPERS ---
-  const addTodo = (text: string, moduleId: string, parentId?: string) => {
+  // `fields` come from the quick-add syntax; `afterId` places the item right after that sibling
+  const addTodo = (text: string, moduleId: string, parentId?: string, fields: Partial<TodoItem> = {}, afterId?: string) => {
       const parent = parentId ? globalTodos.find(t => t.id === parentId) : null;
-      setGlobalTodos(prev => [...prev, { 
-          id: Date.now().toString(), 
-          text, 
-          done: false, 
-          originModuleId: moduleId, 
-          parentId,
-          color: parent?.color || '#333333',
-      }]);
+      const id = Date.now().toString();
+      setGlobalTodos(prev => {
+          const next = [...prev, { 
+              id, 
+              text, 
+              done: false, 
+              originModuleId: moduleId, 
+              parentId,
+              order: getNextOrder(prev, moduleId, parentId),
+              color: parent?.color || '#333333',
+              ...fields,
+          }];
+          return afterId ? placeTodo(next, id, afterId, 'after', moduleId) : next;
+      });
+  };
+
+  // Changes made in the to-do edit modal apply right away
+  const patchEditingTodo = (patch: Partial<TodoItem>) => {
+      if (!editingTodo) return;
+      setEditingTodo({ ...editingTodo, ...patch });
+      updateTodo(editingTodo.id, patch);
   };
 
   const updateTodo = (id: string, updates: Partial<TodoItem>) => {
-      if ('done' in updates) {
-          const newStatus = updates.done!;
+      const item = globalTodos.find(t => t.id === id);
+      // Fields sent along with `done` apply whatever happens to it
+      const { done, ...rest } = updates;
+      const applyRest = (todos: TodoItem[]) => Object.keys(rest).length > 0 ? todos.map(t => t.id === id ? { ...t, ...rest } : t) : todos;
+      if ('done' in updates && item && derivedDoneListIds.has(item.originModuleId)) {
+          // Items with sub-items follow those instead of being checked themselves
+          if (globalTodos.some(t => t.parentId === id && !t.archivedAt)) {
+              setGlobalTodos(applyRest);
+              return;
+          }
+          setGlobalTodos(prev => {
+              const next = addNextInstances(prev, syncParentDone(applyRest(prev).map(t => t.id === id ? setTodoDone(t, done!) : t), derivedDoneListIds));
+              // The next item of a recurring sub-item reopens its parent
+              return syncParentDone(next, derivedDoneListIds);
+          });
+      } else if ('done' in updates) {
+          const newStatus = done!;
+          const now = new Date();
           setGlobalTodos(prev => {
-              const nextTodos = [...prev];
-              const updateItem = (itemId: string, patch: Partial<TodoItem>) => {
+              const nextTodos = [...applyRest(prev)];
+              const updateItem = (itemId: string, done: boolean) => {
                   const idx = nextTodos.findIndex(t => t.id === itemId);
-                  if (idx !== -1) nextTodos[idx] = { ...nextTodos[idx], ...patch };
+                  if (idx !== -1) nextTodos[idx] = setTodoDone(nextTodos[idx], done, now);
               };
+              // Archived sub-items stay done
               const markChildren = (pId: string) => {
-                  const children = nextTodos.filter(t => t.parentId === pId);
+                  const children = nextTodos.filter(t => t.parentId === pId && !t.archivedAt);
                   children.forEach(c => {
-                      updateItem(c.id, { done: newStatus });
+                      updateItem(c.id, newStatus);
                       markChildren(c.id);
                   });
               };
-              updateItem(id, { done: newStatus });
+              updateItem(id, newStatus);
               markChildren(id);
 
               if (!newStatus) {
                   let curr = nextTodos.find(t => t.id === id);
                   while (curr && curr.parentId) {
-                      updateItem(curr.parentId, { done: false });
+                      updateItem(curr.parentId, false);
                       curr = nextTodos.find(t => t.id === curr.parentId);
                   }
               } else {
@@ -1127,111 +1505,73 @@ export const Workspace = () => {
                   while (curr && curr.parentId) {
                       const siblings = nextTodos.filter(t => t.parentId === curr.parentId);
                       if (siblings.every(s => s.done)) {
-                          updateItem(curr.parentId, { done: true });
+                          updateItem(curr.parentId, true);
                           curr = nextTodos.find(t => t.id === curr.parentId);
                       } else { break; }
                   }
               }
-              return nextTodos;
+              return addNextInstances(prev, nextTodos);
           });
       } else {
           setGlobalTodos(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
       }
   };
 
-  const deleteTodo = async (id: string) => {
-      const getDescendants = (rootId: string, allItems: TodoItem[]): string[] => {
-          const children = allItems.filter(i => i.parentId === rootId);
-          return [...children.map(c => c.id), ...children.flatMap(c => getDescendants(c.id, allItems))];
-      };
-      
-      // Clean up images for deleted todos
-      const todoToDelete = globalTodos.find(t => t.id === id);
-      if (todoToDelete && todoToDelete.images) {
-          for (const img of todoToDelete.images) {
-              try {
-                  await removeImage(img.path);
-              } catch (error) {
-                  console.error(`Error removing image ${img.path}:`, error);
-              }
-          }
-      }
-      
-      // Also clean up images for descendants
-      const descendants = getDescendants(id, globalTodos);
-      for (const descId of descendants) {
-          const descTodo = globalTodos.find(t => t.id === descId);
-          if (descTodo && descTodo.images) {
-              for (const img of descTodo.images) {
-                  try {
-                      await removeImage(img.path);
-                  } catch (error) {
-                      console.error(`Error removing image ${img.path}:`, error);
-                  }
-              }
-          }
-      }
-      
-      setGlobalTodos(prev => {
-          const toDelete = [id, ...getDescendants(id, prev)];
-          return prev.filter(t => !toDelete.includes(t.id));
-      });
+  // Each todo goes to the trash with its subtree, as an entry of its own; images stay on disk until the entry is purged
+  const deleteTodos = (rootIds: string[]) => {
+      const subtrees = rootIds.map(id => collectSubtree(globalTodos, id)).filter(subtree => subtree.length > 0);
+      if (subtrees.length === 0) return;
+      const ids = new Set(subtrees.flat().map(t => t.id));
+      const deletedAt = new Date().toISOString();
+      setGlobalTodos(prev => prev.filter(t => !ids.has(t.id)));
+      setTrash(prev => [...subtrees.map((todos): TrashEntry => ({ id: createId('trash'), kind: 'todo', deletedAt, boardId: activeBoard.id, todos })), ...prev]);
+  };
+
+  const deleteTodo = (id: string) => deleteTodos([id]);
+
+  // Done items a module shows, with their subtrees
+  const clearCompletedTodos = (module: ModuleItem) => {
+      deleteTodos(getClearableRoots(getVisibleTodos(module)).map(t => t.id));
   };
   
+  // Dropped on another list: the item and its subtree go to the end of that list
   const moveTodo = (itemId: string, targetModuleId: string) => {
-      const getDescendants = (rootId: string, allItems: TodoItem[], visited = new Set<string>()): string[] => {
-          if (visited.has(rootId)) return [];
-          visited.add(rootId);
-          const children = allItems.filter(i => i.parentId === rootId);
-          return [...children.map(c => c.id), ...children.flatMap(c => getDescendants(c.id, allItems, visited))];
-      };
+      setGlobalTodos(prev => placeTodo(prev, itemId, null, 'after', targetModuleId));
+  };
 
-      setGlobalTodos(prev => {
-          const descendants = getDescendants(itemId, prev);
-          const idsToMove = [itemId, ...descendants];
-          
-          return prev.map(t => {
-              if (idsToMove.includes(t.id)) {
-                  let newParentId = t.parentId;
-                  if (t.id === itemId && t.originModuleId !== targetModuleId) {
-                      newParentId = undefined; 
-                  }
-                  
-                  return { ...t, originModuleId: targetModuleId, parentId: newParentId };
-              }
-              return t;
-          });
-      });
+  const reorderTodo = (draggedId: string, targetId: string | null, position: TodoDropPosition, moduleId: string) => {
+      setGlobalTodos(prev => placeTodo(prev, draggedId, targetId, position, moduleId));
   };
 
-  const reorderTodo = (draggedId: string, targetId: string | null, position: 'before' | 'after' | 'inside', moduleId: string) => {
-      setGlobalTodos(prev => {
-          const draggedItem = prev.find(t => t.id === draggedId);
-          if (!draggedItem) return prev;
+  const restoreArchivedTodo = (id: string) => {
+      setGlobalTodos(prev => unarchiveTodo(prev, id));
+  };
 
-          const newTodos = prev.filter(t => t.id !== draggedId); // Remove temporarily
-          const targetIndex = newTodos.findIndex(t => t.id === targetId);
+  const stepTodoItem = (itemId: string, step: TodoMoveStep) => {
+      setGlobalTodos(prev => stepTodo(prev, itemId, step));
+  };
 
-          const updatedItem = { ...draggedItem, originModuleId: moduleId };
-          
-          if (targetId && targetIndex !== -1) {
-              const targetItem = prev.find(t => t.id === targetId)!;
-              
-              if (position === 'inside') {
-                  updatedItem.parentId = targetId;
-              } else {
-                  updatedItem.parentId = targetItem.parentId; 
-              }
-              
-              const insertIndex = position === 'after' ? targetIndex + 1 : targetIndex;
-              newTodos.splice(insertIndex, 0, updatedItem);
-          } else {
-              updatedItem.parentId = undefined;
-              newTodos.push(updatedItem);
-          }
+  // Smart lists have no items of their own: new items go into the list of the item they are added
+  // next to, tagged so they match, and dropped items are placed relative to their target
+  const addModuleTodo = (module: ModuleItem, text: string, parentId?: string, fields: Partial<TodoItem> = {}, afterId?: string) => {
+      if (!module.todoFilter) {
+          addTodo(text, getTodoListId(module), parentId, fields, afterId);
+          return;
+      }
+      const anchor = globalTodos.find(t => t.id === (parentId || afterId));
+      if (!anchor) return;
+      const filterTags = module.todoFilter.matchAllTags ? module.todoFilter.tags || [] : (module.todoFilter.tags || []).slice(0, 1);
+      const tags = [...new Set([...(fields.tags || []), ...filterTags])];
+      addTodo(text, anchor.originModuleId, parentId, tags.length > 0 ? { ...fields, tags } : fields, afterId);
+  };
 
-          return newTodos;
-      });
+  const reorderModuleTodo = (module: ModuleItem, draggedId: string, targetId: string | null, position: TodoDropPosition) => {
+      if (!module.todoFilter) {
+          reorderTodo(draggedId, targetId, position, getTodoListId(module));
+          return;
+      }
+      const target = globalTodos.find(t => t.id === targetId);
+      if (target) reorderTodo(draggedId, target.id, position, target.originModuleId);
   };
 
   // Image management handlers
@@ -1290,7 +1630,12 @@ export const Workspace = () => {
 
   const handleRemoveImage = async (todoId: string, imageId: string, imagePath: string) => {
       try {
-          await removeImage(imagePath);
+          // Recurring todos may share the file
+          const otherTodos = [...globalTodos.filter(t => t.id !== todoId), ...trash.flatMap(getTrashedTodos)];
+          if (!getImagePaths(otherTodos).has(imagePath)) {
+              forgetFiles([imagePath]);
+              await removeImage(imagePath);
+          }
           
           setGlobalTodos(prev => {
               const todo = prev.find(t => t.id === todoId);
@@ -1333,169 +1678,21 @@ export const Workspace = () => {
       });
   };
   
-  // Handle layout changes - different behavior for structured vs free view
+  // Free view: keep layout records in sync with the grid (structured mode uses @dnd-kit)
   const handleLayoutChange = (newLayout: Layout[]) => {
     if (isDropping) return;
-    
-    if (viewMode === 'structured') {
-      // If dragging, don't update here - let handleDrag handle it
-      if (draggedItemId) {
-        return;
-      }
-      
-      // No drag in progress, just snap to positions
-      const sortedLayout = [...newLayout].sort((a, b) => a.x - b.x);
-      const reorderedItems: ModuleItem[] = [];
-      
-      sortedLayout.forEach((layoutItem, index) => {
-        const item = items.find(i => i.i === layoutItem.i);
-        if (item) {
-          reorderedItems.push({
-            ...item,
-            x: index * 16,
-            y: 0,
-            w: 16,
-            h: maxRows
-          });
-        }
+    setFreeLayouts(prev => {
+      let changed = false;
+      const next = { ...prev };
+      newLayout.forEach(l => {
+        if (!modules.some(m => m.i === l.i)) return;
+        const current = prev[l.i];
+        if (current && current.x === l.x && current.y === l.y && current.w === l.w && current.h === l.h) return;
+        next[l.i] = { x: l.x, y: l.y, w: l.w, h: l.h };
+        changed = true;
       });
-      
-      setItems(reorderedItems);
-      return;
-
-    } else {
-      // Free view: normal behavior
-      setItems(prevItems => prevItems.map(item => {
-        const match = newLayout.find(l => l.i === item.i);
-        return match ? { ...item, x: match.x, y: match.y, w: match.w, h: match.h } : item;
-      }));
-    }
-  };
-
-  // Drag handlers for zoom effect in structured view
-  const handleDragStart = (layout: Layout[], oldItem: Layout, newItem: Layout, placeholder: Layout, e: MouseEvent, element: HTMLElement) => {
-    if (viewMode === 'structured') {
-      setIsDragging(true);
-      setDraggedItemId(newItem.i);
-    }
-  };
-
-  const handleDrag = (layout: Layout[], oldItem: Layout, newItem: Layout, placeholder: Layout, e: MouseEvent, element: HTMLElement) => {
-    if (viewMode === 'structured' && draggedItemId && newItem.i === draggedItemId) {
-      // Force y to 0 - prevent any vertical movement
-      if (newItem.y !== 0) {
-        // This shouldn't happen, but ensure it's always 0
-        return;
-      }
-      
-      // Calculate insertion point based on dragged item's x position
-      // Use the current items array to get the order, not the layout
-      const currentOrder = items
-        .filter(item => item.i !== draggedItemId)
-        .sort((a, b) => a.x - b.x);
-      
-      // Calculate which position the dragged item should be inserted at
-      // Based on x position: each module is 16 units wide
-      const draggedX = newItem.x;
-      const insertionIndex = Math.max(0, Math.min(Math.round(draggedX / 16), currentOrder.length));
-      
-      // Build reordered items array with strict ordering
-      const reorderedItems: ModuleItem[] = [];
-      
-      // Add items before insertion point
-      for (let i = 0; i < insertionIndex; i++) {
-        const item = currentOrder[i];
-        reorderedItems.push({
-          ...item,
-          x: i * 16,
-          y: 0,
-          w: 16,
-          h: maxRows
-        });
-      }
-      
-      // Add dragged item at insertion point (keep its current drag x position for visual feedback)
-      const draggedItem = items.find(i => i.i === draggedItemId);
-      if (draggedItem) {
-        reorderedItems.push({
-          ...draggedItem,
-          x: draggedX, // Keep actual drag position during drag for visual feedback
-          y: 0,
-          w: 16,
-          h: maxRows
-        });
-      }
-      
-      // Add items after insertion point
-      for (let i = insertionIndex; i < currentOrder.length; i++) {
-        const item = currentOrder[i];
-        reorderedItems.push({
-          ...item,
-          x: (i + 1) * 16,
-          y: 0,
-          w: 16,
-          h: maxRows
-        });
-      }
-      
-      setItems(reorderedItems);
-    }
-  };
-
-  const handleDragStop = (layout: Layout[], oldItem: Layout, newItem: Layout, placeholder: Layout, e: MouseEvent, element: HTMLElement) => {
-    if (viewMode === 'structured' && draggedItemId) {
-      // Finalize order - snap all items to strict positions
-      const currentOrder = items
-        .filter(item => item.i !== draggedItemId)
-        .sort((a, b) => a.x - b.x);
-      
-      // Calculate final insertion index based on dragged item's final x position
-      const draggedX = newItem.x;
-      const insertionIndex = Math.max(0, Math.min(Math.round(draggedX / 16), currentOrder.length));
-      
-      // Build final reordered items with strict positions
-      const reorderedItems: ModuleItem[] = [];
-      
-      // Add items before insertion point
-      for (let i = 0; i < insertionIndex; i++) {
-        const item = currentOrder[i];
-        reorderedItems.push({
-          ...item,
-          x: i * 16,
-          y: 0,
-          w: 16,
-          h: maxRows
-        });
-      }
-      
-      // Add dragged item at insertion point
-      const draggedItem = items.find(i => i.i === draggedItemId);
-      if (draggedItem) {
-        reorderedItems.push({
-          ...draggedItem,
-          x: insertionIndex * 16,
-          y: 0,
-          w: 16,
-          h: maxRows
-        });
-      }
-      
-      // Add items after insertion point
-      for (let i = insertionIndex; i < currentOrder.length; i++) {
-        const item = currentOrder[i];
-        reorderedItems.push({
-          ...item,
-          x: (i + 1) * 16,
-          y: 0,
-          w: 16,
-          h: maxRows
-        });
-      }
-      
-      setItems(reorderedItems);
-      setIsDragging(false);
-      setDraggedItemId(null);
-    }
+      return changed ? next : prev;
+    });
   };
 
   // @dnd-kit handlers for structured mode
@@ -1522,12 +1719,13 @@ export const Workspace = () => {
         return;
       }
       const reordered = arrayMove(sortedItems, oldIndex, newIndex);
-      const updated = reordered.map((item, index) => ({
-        ...item,
-        orderIndex: index
-      }));
-      
-      setItems(updated);
+      setStructuredLayouts(prev => {
+        const next = { ...prev };
+        reordered.forEach((item, index) => {
+          next[item.i] = { ...(prev[item.i] || { w: item.w, h: item.h }), orderIndex: index };
+        });
+        return next;
+      });
     }
     
     setActiveId(null);
@@ -1536,19 +1734,27 @@ export const Workspace = () => {
 
   // Handler for todo module height changes
   const handleTodoHeightChange = (moduleId: string, height: number) => {
-    setItems(prevItems => prevItems.map(item => {
-      if (item.i === moduleId && item.type === 'todo') {
-        const gridHeight = Math.ceil(height / ROW_HEIGHT);
-        return { ...item, h: gridHeight };
-      }
-      return item;
-    }));
+    setStructuredLayouts(prev => {
+      const layout = prev[moduleId];
+      const gridHeight = Math.ceil(height / ROW_HEIGHT);
+      if (!layout || layout.h === gridHeight) return prev;
+      // Measured heights follow the content; they are not an edit of their own
+      history.markUntracked();
+      return { ...prev, [moduleId]: { ...layout, h: gridHeight } };
+    });
   };
 
-  const getVisibleTodos = (module: ModuleItem) => globalTodos.filter(t => t.originModuleId === module.i);
+  const getVisibleTodos = (module: ModuleItem) => module.todoFilter
+      ? globalTodos.filter(t => !t.archivedAt && boardListIds.has(t.originModuleId) && matchesTodoFilter(t, module.todoFilter!))
+      : globalTodos.filter(t => !t.archivedAt && t.originModuleId === getTodoListId(module));
+  const getArchivedCount = (module: ModuleItem) => module.todoFilter ? 0 : getArchivedRoots(globalTodos, getTodoListId(module)).length;
+  const todoTags = getAllTags(globalTodos);
+  const editingFilterModule = editingFilterModuleId ? modules.find(m => m.i === editingFilterModuleId) : undefined;
+  const archiveModule = archiveModuleId ? modules.find(m => m.i === archiveModuleId) : undefined;
+  const archivedTodos = archiveModule ? getArchivedRoots(globalTodos, getTodoListId(archiveModule)) : [];
   const currentSpecs = MODULE_SPECS[draggingType];
-  const hasClock = items.some(i => i.type === 'clock');
-  const hasPlanner = items.some(i => i.type === 'planner');
+  const hasClock = modules.some(i => i.type === 'clock');
+  const hasPlanner = modules.some(i => i.type === 'planner');
   
   // Get active dragged item for overlay
   const activeItem = activeId ? items.find(item => item.i === activeId) : null;
@@ -1563,18 +1769,57 @@ export const Workspace = () => {
             { type: 'stickynote', label: 'Sticky', Icon: FaRegStickyNote, color: '#fdd835', disabled: false },
             { type: 'whiteboard', label: 'Whiteboard', Icon: FaPencilAlt, color: '#6610f2', disabled: false },
             { type: 'todo', label: 'To-Do', Icon: FaCheckSquare, color: '#e83e8c', disabled: false },
+            { type: 'todo', label: 'Smart List', Icon: FaFilter, color: '#e83e8c', disabled: false, smartList: true },
             { type: 'planner', label: 'Planner', Icon: FaTasks, color: '#20c997', disabled: hasPlanner },
             { type: 'plannerCalendar', label: 'Plan Cal', Icon: FaCalendarAlt, color: '#4dabf7', disabled: false },
             { type: 'calendar', label: 'Calendar', Icon: FaCalendarAlt, color: '#fd7e14', disabled: false },
             { type: 'events', label: 'Events', Icon: FaList, color: '#17a2b8', disabled: false },
             { type: 'clock', label: 'Clock', Icon: FaRegClock, color: '#28a745', disabled: hasClock },
         ] as const).map(tool => (
-             <div key={tool.type} className="droppable-element" draggable={!tool.disabled} unselectable="on" onDragStart={(e) => !tool.disabled && onDragStart(e, tool.type as ModuleType)} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', cursor: tool.disabled ? 'not-allowed' : 'grab', opacity: tool.disabled ? 0.3 : 1, padding: '5px', border: '1px solid #ccc', borderRadius: '5px', width: '60px' }}>
+             <div key={tool.label} className="droppable-element" draggable={!tool.disabled} unselectable="on" onDragStart={(e) => !tool.disabled && onDragStart(e, tool.type as ModuleType, 'smartList' in tool)} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', cursor: tool.disabled ? 'not-allowed' : 'grab', opacity: tool.disabled ? 0.3 : 1, padding: '5px', border: '1px solid #ccc', borderRadius: '5px', width: '60px' }}>
                 <tool.Icon size={20} color={tool.disabled ? '#999' : tool.color}/>
                 <span style={{fontSize: '9px', marginTop: '4px'}}>{tool.label}</span>
             </div>
         ))}
         <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '10px' }}>
+          <button onClick={() => setShowTrash(true)} title="Trash" style={{ position: 'relative', display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: 'pointer' }}>
+            <FaTrash size={14} />
+            {trash.length > 0 && (
+              <span style={{ position: 'absolute', top: '-6px', right: '-6px', background: '#dc3545', color: 'white', borderRadius: '8px', fontSize: '9px', padding: '1px 5px' }}>{trash.length}</span>
+            )}
+          </button>
+          <button onClick={() => setShowNotificationSettings(true)} title="Notifications" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: 'pointer' }}>
+            <FaBell size={14} />
+          </button>
+          <button onClick={() => setShowHolidaySettings(true)} title="Holidays" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: 'pointer' }}>
+            <FaGlobe size={14} />
+          </button>
+          <button onClick={undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: history.canUndo ? 'pointer' : 'default', opacity: history.canUndo ? 1 : 0.4 }}>
+            <FaUndo size={14} />
+          </button>
+          <button onClick={redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: history.canRedo ? 'pointer' : 'default', opacity: history.canRedo ? 1 : 0.4 }}>
+            <FaRedo size={14} />
+          </button>
+          <BoardSwitcher
+            boards={boards}
+            activeBoardId={activeBoard.id}
+            onSelect={selectBoard}
+            onCreate={addBoard}
+            onRename={renameBoard}
+            onDuplicate={duplicateBoard}
+            onDelete={deleteBoard}
+            onReorder={reorderBoard}
+            onSetScope={setBoardScope}
+          />
+          <button onClick={exportArchive} title="Export this board to an archive" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: 'pointer' }}>
+            <FaFileExport size={16} />
+          </button>
+          <button onClick={exportWholeArchive} title="Export the whole workspace to an archive" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: 'pointer' }}>
+            <FaArchive size={16} />
+          </button>
+          <button onClick={importArchive} title="Import a board or workspace archive" style={{ display: 'flex', alignItems: 'center', padding: '8px', border: '1px solid #ccc', borderRadius: '5px', background: 'white', color: '#333', cursor: 'pointer' }}>
+            <FaFileImport size={16} />
+          </button>
           <button
             onClick={toggleViewMode}
             style={{
@@ -1604,7 +1849,7 @@ export const Workspace = () => {
               <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '300px', textAlign: 'center' }}>
                   <FaExclamationTriangle size={40} color="#dc3545" style={{ margin: '0 auto' }} />
                   <h3>Delete Content?</h3>
-                  <p>Permanently delete this module and its content?</p>
+                  <p>Move this module and its content to the trash?</p>
                   <div className="modal-actions" style={{ justifyContent: 'center' }}>
                       <button onClick={() => setDeleteConfirmId(null)} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Cancel</button>
                       <button onClick={() => performDelete(deleteConfirmId)} style={{ background: '#dc3545', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Delete</button>
@@ -1613,20 +1858,213 @@ export const Workspace = () => {
           </div>
       )}
 
+      {/* TRASH */}
+      {showTrash && (
+          <TrashView
+              entries={trash}
+              boards={boards}
+              retentionDays={trashRetentionDays}
+              onRestore={restoreTrashEntry}
+              onPurge={(id) => purgeTrash(trash.filter(t => t.id === id))}
+              onEmpty={() => { if (confirm('Permanently delete everything in the trash?')) purgeTrash(trash); }}
+              onRetentionChange={setTrashRetentionDays}
+              onClose={() => setShowTrash(false)}
+          />
+      )}
+
+      {/* NOTIFICATIONS */}
+      {showNotificationSettings && (
+          <NotificationSettingsView
+              settings={notificationSettings}
+              onChange={setNotificationSettings}
+              onClose={() => setShowNotificationSettings(false)}
+          />
+      )}
+      <NotificationBanner reminders={firedReminders} onSnooze={snoozeReminder} onDismiss={dismissReminder} />
+
+      {/* HOLIDAYS */}
+      {showHolidaySettings && (
+          <HolidaySettingsView
+              settings={holidaySettings}
+              modules={modules.filter(m => m.type === 'calendar' || m.type === 'events')}
+              onChange={setHolidaySettings}
+              onToggleModule={(id) => updateContent(id, { hideHolidays: !modules.find(m => m.i === id)?.hideHolidays })}
+              onClose={() => setShowHolidaySettings(false)}
+          />
+      )}
+
+      {/* ICS EXPORT MODAL */}
+      {icsExportCategory !== null && (
+          <div className="modal-overlay" onClick={() => setIcsExportCategory(null)}>
+              <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '320px' }}>
+                  <div className="modal-header">Export Calendar</div>
+                  <div className="modal-row">
+                      <label>Events:</label>
+                      <select value={icsExportCategory} onChange={(e) => setIcsExportCategory(e.target.value)}>
+                          <option value="">All events</option>
+                          {usedCategories.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                  </div>
+                  <div className="modal-actions">
+                      <button onClick={() => setIcsExportCategory(null)} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Cancel</button>
+                      <button onClick={() => exportIcs(icsExportCategory)} style={{ background: '#007bff', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Export</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* IMPORT ARCHIVE MODAL */}
+      {pendingImport && (
+          <div className="modal-overlay" onClick={() => setPendingImport(null)}>
+              <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: '340px', textAlign: 'center' }}>
+                  <FaFileImport size={36} color="#007bff" style={{ margin: '0 auto' }} />
+                  {pendingImport.kind === 'workspace' ? (
+                      <>
+                          <h3>Import a whole workspace?</h3>
+                          <p style={{ fontSize: '13px' }}>
+                              {pendingImport.workspace.boards.length} boards, {pendingImport.todos.length} to-dos, {pendingImport.events.length} events.
+                              Add its boards to this workspace or replace the whole workspace?
+                          </p>
+                      </>
+                  ) : (
+                      <>
+                          <h3>Import "{pendingImport.board.name}"?</h3>
+                          <p style={{ fontSize: '13px' }}>
+                              {pendingImport.board.modules.length} modules, {pendingImport.todos.length} to-dos, {pendingImport.events.length} events.
+                              Merge them into "{activeBoard.name}" or replace its contents?
+                          </p>
+                      </>
+                  )}
+                  <div className="modal-actions" style={{ justifyContent: 'center' }}>
+                      <button onClick={() => setPendingImport(null)} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Cancel</button>
+                      <button onClick={() => applyImport('merge')} style={{ background: '#007bff', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Merge</button>
+                      <button onClick={() => applyImport('replace')} style={{ background: '#dc3545', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px' }}>Replace</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* EVENT MODAL */}
       {showModal && (
         <div className="modal-overlay" onClick={() => setShowModal(false)}>
-            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ maxHeight: '90vh', overflowY: 'auto' }}>
                 <div className="modal-header">{modalData.id ? 'Edit Event' : 'Add Event'}</div>
                 <div className="modal-row"><label>Title:</label><input type="text" value={modalData.title} onChange={e => setModalData({...modalData, title: e.target.value})} /></div>
-                <div className="modal-row" style={{ flexDirection: 'row', gap: '10px' }}><div style={{flex:1}}><label>Date:</label><input type="date" value={modalData.date ? modalData.date.split('T')[0] : ''} onChange={e => setModalData({...modalData, date: new Date(e.target.value).toISOString()})} /></div><div style={{flex:1}}><label>Color:</label><input type="color" value={modalData.color} onChange={e => setModalData({...modalData, color: e.target.value})} style={{width:'100%', height:'38px'}} /></div></div>
+                <div className="modal-row"><label>Location:</label><input type="text" value={modalData.location || ''} onChange={e => setModalData({...modalData, location: e.target.value})} /></div>
+                <div className="modal-row">
+                    <label>Category:</label>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                        <select value={modalData.category || ''} onChange={e => selectModalCategory(e.target.value)} style={{ flex: 1 }}>
+                            <option value="">None</option>
+                            {eventCategories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                            {modalData.category && !eventCategories.some(c => c.name === modalData.category) && <option value={modalData.category}>{modalData.category}</option>}
+                        </select>
+                        <button onClick={() => setShowCategoryManager(true)} style={{ background: '#6c757d', color: 'white', border: 'none', padding: '0 10px', borderRadius: '4px', fontSize: '12px' }}>Manage…</button>
+                    </div>
+                </div>
+                <div className="modal-row" style={{ flexDirection: 'row', gap: '10px' }}><div style={{flex:1}}><label>Date:</label><input type="date" value={modalDay} onChange={e => { if (e.target.value) setModalData({...modalData, date: parseDateKey(e.target.value).toISOString()}); }} /></div><div style={{flex:1}}><label>End date:</label><input type="date" value={modalEndDay || modalDay} min={modalDay || undefined} onChange={e => setModalData({...modalData, endDate: e.target.value ? parseDateKey(e.target.value).toISOString() : undefined})} /></div><div style={{flex:1}}><label>Color:</label><input type="color" value={modalData.color} onChange={e => setModalData({...modalData, color: e.target.value})} style={{width:'100%', height:'38px'}} /></div></div>
                 <div className="modal-row" style={{flexDirection: 'row', alignItems: 'center', gap: '10px'}}><input type="checkbox" checked={modalData.isAllDay} onChange={e => setModalData({...modalData, isAllDay: e.target.checked})} /><label onClick={() => setModalData({...modalData, isAllDay: !modalData.isAllDay})}>All Day</label></div>
-                {!modalData.isAllDay && (<div className="modal-row" style={{ flexDirection: 'row', gap: '10px' }}><div style={{flex:1}}><label>Start:</label><input type="time" value={modalData.startTime} onChange={e => setModalData({...modalData, startTime: e.target.value})} /></div><div style={{flex:1}}><label>End:</label><input type="time" value={modalData.endTime} onChange={e => setModalData({...modalData, endTime: e.target.value})} /></div></div>)}
-                <div className="modal-actions"><button onClick={() => setShowModal(false)} style={{background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px'}}>Cancel</button><button onClick={saveEvent} style={{background: '#007bff', color: 'white', border: 'none', padding: '8px 15px'}}>Save</button></div>
+                {!modalData.isAllDay && (<div className="modal-row" style={{ flexDirection: 'row', gap: '10px' }}><div style={{flex:1}}><label>Start:</label><input type="time" value={modalData.startTime} onChange={e => setModalData({...modalData, startTime: e.target.value})} /></div><div style={{flex:1}}><label>End:</label><input type="time" value={modalData.endTime} onChange={e => setModalData({...modalData, endTime: e.target.value})} /></div><div style={{flex:2, minWidth: 0}}><label>Time zone:</label><TimeZoneSelect value={modalData.timeZone || ''} onChange={timeZone => setModalData({...modalData, timeZone: timeZone || undefined})} emptyLabel="Floating" style={{ width: '100%' }} /></div></div>)}
+                {modalLocalTimes && (
+                    <div style={{ fontSize: '11px', color: '#666', marginTop: '-4px', marginBottom: '8px' }}>
+                        Your time: {new Date(modalLocalTimes.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} {modalLocalTimes.startTime}{modalLocalTimes.endTime ? ` – ${modalLocalTimes.endTime}` : ''} ({getTimeZoneAbbreviation(getLocalTimeZone())})
+                    </div>
+                )}
+                {!modalData.isAllDay && !hasModalEndDate && modalData.startTime && modalData.endTime && modalData.endTime < modalData.startTime && (
+                    <div style={{ fontSize: '11px', color: '#666', marginTop: '-4px', marginBottom: '8px' }}>Ends the next day</div>
+                )}
+                {isEditingOccurrence && (
+                    <div className="modal-row">
+                        <label>Apply to:</label>
+                        <select value={seriesScope} onChange={e => setSeriesScope(e.target.value as SeriesScope)}>
+                            <option value="this">This event</option>
+                            <option value="following">This and following events</option>
+                            <option value="all">All events</option>
+                        </select>
+                    </div>
+                )}
+                {!(isEditingOccurrence && seriesScope === 'this') && (
+                    <RecurrenceEditor value={modalData.recurrence} startDate={modalData.date} onChange={recurrence => setModalData({...modalData, recurrence})} />
+                )}
+                <div className="modal-row">
+                    <label>Description:</label>
+                    <div style={{ height: '150px', border: '1px solid #ccc', borderRadius: '4px', overflow: 'hidden' }}>
+                        <Notepad content={modalData.description || ''} onChange={description => setModalData(prev => ({ ...prev, description }))} placeholder="Agenda, notes..." />
+                    </div>
+                </div>
+                <div className="modal-row">
+                    <label>Attendees:</label>
+                    {modalData.attendees && modalData.attendees.length > 0 && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '4px' }}>
+                            {modalData.attendees.map(attendee => (
+                                <span key={attendee} style={{ display: 'flex', alignItems: 'center', gap: '4px', background: '#e9ecef', borderRadius: '10px', padding: '2px 8px', fontSize: '12px' }}>
+                                    {attendee}
+                                    <FaTimes size={9} style={{ cursor: 'pointer', color: '#666' }} onClick={() => setModalData({...modalData, attendees: modalData.attendees!.filter(a => a !== attendee)})} />
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <input type="text" value={attendeeDraft} placeholder="Name or email, Enter to add" onChange={e => setAttendeeDraft(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') addModalAttendee(); }} onBlur={addModalAttendee} />
+                </div>
+                <div className="modal-row">
+                    <label>Links:</label>
+                    {(modalData.links || []).map((url, index) => (
+                        <div key={index} style={{ display: 'flex', gap: '6px', marginBottom: '4px' }}>
+                            <input type="text" value={url} placeholder="https://..." onChange={e => updateModalLink(index, e.target.value)} style={{ flex: 1 }} />
+                            <button onClick={() => setModalData({...modalData, links: modalData.links!.filter((_, i) => i !== index)})} title="Remove link" style={{ background: 'transparent', border: 'none', color: '#dc3545', cursor: 'pointer' }}><FaTimes /></button>
+                        </div>
+                    ))}
+                    <button onClick={() => setModalData({...modalData, links: [...(modalData.links || []), '']})} style={{ alignSelf: 'flex-start', background: '#6c757d', color: 'white', border: 'none', padding: '4px 10px', borderRadius: '4px', fontSize: '12px', cursor: 'pointer' }}>Add link</button>
+                </div>
+                <div className="modal-row">
+                    <label>Attachments:</label>
+                    {(modalData.attachments || []).map(attachment => (
+                        <div key={attachment.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', marginBottom: '4px' }}>
+                            {isImageFile(attachment.path) && <img src={getImageUrl(attachment.path)} alt="" style={{ width: '32px', height: '24px', objectFit: 'cover', borderRadius: '2px' }} />}
+                            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{attachment.name}</span>
+                            <button onClick={() => setModalData({...modalData, attachments: modalData.attachments!.filter(a => a.id !== attachment.id)})} title="Remove attachment" style={{ background: 'transparent', border: 'none', color: '#dc3545', cursor: 'pointer' }}><FaTimes /></button>
+                        </div>
+                    ))}
+                    <button onClick={addModalAttachment} style={{ alignSelf: 'flex-start', background: '#6c757d', color: 'white', border: 'none', padding: '4px 10px', borderRadius: '4px', fontSize: '12px', cursor: 'pointer' }}>Attach file…</button>
+                </div>
+                <div className="modal-actions">{modalData.id && globalEvents.some(e => e.id === (modalData.seriesId || modalData.id)) && (<button onClick={deleteModalEvent} title="Move to trash" style={{background: '#dc3545', color: 'white', border: 'none', padding: '8px 15px', marginRight: 'auto'}}><FaTrash /></button>)}<button onClick={() => setShowModal(false)} style={{background: '#6c757d', color: 'white', border: 'none', padding: '8px 15px'}}>Cancel</button><button onClick={saveEvent} style={{background: '#007bff', color: 'white', border: 'none', padding: '8px 15px'}}>Save</button></div>
             </div>
         </div>
       )}
 
+      {/* TODO ARCHIVE */}
+      {archiveModule && (
+          <TodoArchiveView
+              title={archiveModule.title || 'To-do'}
+              items={archivedTodos}
+              subtaskCounts={new Map(archivedTodos.map(t => [t.id, collectSubtree(globalTodos, t.id).length - 1]))}
+              onRestore={restoreArchivedTodo}
+              onDelete={deleteTodo}
+              onClose={() => setArchiveModuleId(null)}
+          />
+      )}
+
+      {/* SMART LIST FILTER */}
+      {editingFilterModule && (
+          <SmartListEditor
+              filter={editingFilterModule.todoFilter || {}}
+              tags={todoTags}
+              onSave={(todoFilter) => updateContent(editingFilterModule.i, { todoFilter })}
+              onClose={() => setEditingFilterModuleId(null)}
+          />
+      )}
+
+      {/* CATEGORIES */}
+      {showCategoryManager && (
+          <CategoryManager
+              categories={eventCategories}
+              onAdd={addCategory}
+              onUpdate={updateCategory}
+              onDelete={deleteCategory}
+              onClose={() => setShowCategoryManager(false)}
+          />
+      )}
+
       {/* TODO EDIT MODAL */}
       {editingTodo && (
         <div className="modal-overlay" onClick={() => setEditingTodo(null)}>
@@ -1635,11 +2073,69 @@ export const Workspace = () => {
                 <div className="modal-row"><label>Task:</label><input type="text" value={editingTodo.text} onChange={(e) => { const val = e.target.value; setEditingTodo({...editingTodo, text: val}); updateTodo(editingTodo.id, { text: val }); }} /></div>
                 
                 <div className="modal-row"><label>Description (Markdown):</label><textarea rows={5} value={editingTodo.description || ''} onChange={(e) => { const val = e.target.value; setEditingTodo({...editingTodo, description: val}); updateTodo(editingTodo.id, { description: val }); }} placeholder="Type... (Supports Markdown)" /></div>
+                <div className="modal-row"><label>Tags:</label><TagPicker value={editingTodo.tags || []} suggestions={todoTags} onChange={(tags) => patchEditingTodo({ tags: tags.length > 0 ? tags : undefined })} /></div>
                 
                 <div className="modal-row" style={{ flexDirection: 'row', gap: '10px' }}>
                     <div style={{flex: 1}}><label><FaPalette /> Color:</label><input type="color" value={editingTodo.color || '#333333'} onChange={(e) => { const val = e.target.value; setEditingTodo({...editingTodo, color: val}); updateTodo(editingTodo.id, { color: val }); }} /></div>
+                    <div style={{flex: 1}}>
+                        <label>Priority:</label>
+                        <select value={editingTodo.priority || ''} onChange={(e) => patchEditingTodo({ priority: (e.target.value || undefined) as TodoItem['priority'] })}>
+                            <option value="">None</option>
+                            {PRIORITIES.map(p => <option key={p.priority} value={p.priority}>{p.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="modal-row" style={{ flexDirection: 'row', gap: '10px' }}>
+                    <div style={{flex: 1}}><label>Due date:</label><input type="date" value={editingTodo.dueDate || ''} onChange={(e) => patchEditingTodo(e.target.value ? { dueDate: e.target.value } : { dueDate: undefined, dueTime: undefined, reminders: undefined })} /></div>
+                    <div style={{flex: 1}}><label>Due time:</label><input type="time" value={editingTodo.dueTime || ''} disabled={!editingTodo.dueDate} onChange={(e) => patchEditingTodo({ dueTime: e.target.value || undefined })} /></div>
                 </div>
 
+                {editingTodo.dueDate && (
+                    <div className="modal-row">
+                        <label>Reminders:</label>
+                        {(editingTodo.reminders || []).length > 0 && (
+                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '4px' }}>
+                                {[...editingTodo.reminders!].sort((a, b) => a - b).map(lead => (
+                                    <span key={lead} style={{ display: 'flex', alignItems: 'center', gap: '4px', background: '#e9ecef', borderRadius: '10px', padding: '2px 8px', fontSize: '12px' }}>
+                                        {lead === 0 ? 'When due' : describeLeadTime(lead)}
+                                        <FaTimes size={9} style={{ cursor: 'pointer', color: '#666' }} onClick={() => patchEditingTodo({ reminders: editingTodo.reminders!.filter(l => l !== lead) })} />
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        <select value="" onChange={(e) => { if (e.target.value) patchEditingTodo({ reminders: [...(editingTodo.reminders || []), Number(e.target.value)] }); }}>
+                            <option value="">Add reminder…</option>
+                            {LEAD_TIME_OPTIONS.filter(lead => !editingTodo.reminders?.includes(lead)).map(lead => <option key={lead} value={lead}>{lead === 0 ? 'When due' : describeLeadTime(lead)}</option>)}
+                        </select>
+                        {!editingTodo.dueTime && <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>Without a due time, reminders count from {notificationSettings.allDayHour}:00 on the due date</div>}
+                    </div>
+                )}
+                <RecurrenceEditor
+                    value={editingTodo.recurrence}
+                    startDate={editingTodo.dueDate && parseDateKey(editingTodo.dueDate).toISOString()}
+                    onChange={recurrence => patchEditingTodo(recurrence ? { recurrence } : { recurrence: undefined, recurrenceKeepsImages: undefined })}
+                />
+                {editingTodo.recurrence && (
+                    <div className="modal-row">
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 'normal' }}>
+                            <input type="checkbox" checked={!!editingTodo.recurrenceKeepsImages} onChange={(e) => patchEditingTodo({ recurrenceKeepsImages: e.target.checked || undefined })} style={{ width: 'auto' }} />
+                            Next items keep the images
+                        </label>
+                        {!editingTodo.dueDate && <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>Without a due date, the next item counts from the day this one is done</div>}
+                    </div>
+                )}
+                {editingTodo.completions && editingTodo.completions.length > 0 && (
+                    <div className="modal-row">
+                        <label>Done before ({editingTodo.completions.length}):</label>
+                        <div style={{ maxHeight: '100px', overflowY: 'auto', fontSize: '12px', color: '#555' }}>
+                            {[...editingTodo.completions].reverse().map(completion => (
+                                <div key={completion.completedAt} style={{ padding: '2px 0', borderBottom: '1px solid #eee' }}>{describeCompletion(completion)}</div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Image Management Section */}
                 <div className="modal-row">
                     <div style={{display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px'}}>
@@ -1846,7 +2342,7 @@ export const Workspace = () => {
         >
           <ReactGridLayout 
             className="layout" 
-            layout={uniqueItems.map(i => { 
+            layout={items.map(i => { 
               const spec = MODULE_SPECS[i.type]; 
               return { 
                 i: i.i, 
@@ -1873,14 +2369,11 @@ export const Workspace = () => {
             isResizable={true} 
             isDraggable={true}
             onLayoutChange={handleLayoutChange}
-            onDragStart={handleDragStart}
-            onDrag={handleDrag}
-            onDragStop={handleDragStop}
             droppingItem={{ i: 'placeholder', w: currentSpecs.w, h: currentSpecs.h }} 
             draggableHandle=".drag-handle"
             verticalCompact={false}
           >
-            {uniqueItems.map((item) => {
+            {items.map((item) => {
                const theme = THEMES[item.themeIndex || 0] || THEMES[0];
                const greyOutFree = draggingTodoOrPlanner && !['todo', 'planner', 'calendar'].includes(item.type);
                return (
@@ -1961,29 +2454,43 @@ export const Workspace = () => {
                           backgroundColor={theme.body}
                       />
                   )}
-                  {item.type === 'clock' && <Clock mode={item.clockMode || 'analog'} onToggleMode={() => updateContent(item.i, { clockMode: item.clockMode === 'analog' ? 'digital' : 'analog' })} />}
+                  {item.type === 'clock' && <Clock mode={item.clockMode || 'analog'} onToggleMode={() => updateContent(item.i, { clockMode: item.clockMode === 'analog' ? 'digital' : 'analog' })} worldClocks={item.worldClocks} onWorldClocksChange={(worldClocks) => updateContent(item.i, { worldClocks })} />}
                   {item.type === 'whiteboard' && <Whiteboard content={item.content || ''} onChange={(data) => updateContent(item.i, { content: data })} />}
                   
                   {item.type === 'todo' && (
                       <TodoList 
-                          moduleId={item.i} 
+                          moduleId={getTodoListId(item)} 
                           items={getVisibleTodos(item)} 
                           allEvents={allEvents} 
                           backgroundColor={theme.body}
-                          onAddTodo={(text, parentId) => addTodo(text, item.i, parentId)} 
+                          onAddTodo={(text, parentId, fields, afterId) => addModuleTodo(item, text, parentId, fields, afterId)} 
                           onUpdateTodo={updateTodo} 
                           onEditTodo={(todo) => setEditingTodo(todo)}
                           onDeleteTodo={deleteTodo} 
                           onMoveTodo={moveTodo} 
-                          onReorderTodo={(dragId, targetId, pos) => reorderTodo(dragId, targetId, pos, item.i)}
+                          onReorderTodo={(dragId, targetId, pos) => reorderModuleTodo(item, dragId, targetId, pos)}
+                          onStepTodo={item.todoFilter ? undefined : stepTodoItem}
                           onDragStartItem={() => setDraggingTodoOrPlanner(true)}
                           onDragEndItem={() => setDraggingTodoOrPlanner(false)}
+                          sort={item.todoSort}
+                          onSortChange={(todoSort) => updateContent(item.i, { todoSort })}
+                          filterSummary={item.todoFilter && describeTodoFilter(item.todoFilter)}
+                          onEditFilter={() => setEditingFilterModuleId(item.i)}
+                          completedMode={item.completedTodos}
+                          onCompletedModeChange={(completedTodos) => updateContent(item.i, { completedTodos })}
+                          archiveAfterDays={item.archiveAfterDays}
+                          onArchiveAfterDaysChange={item.todoFilter ? undefined : (archiveAfterDays) => updateContent(item.i, { archiveAfterDays })}
+                          archivedCount={getArchivedCount(item)}
+                          onShowArchive={() => setArchiveModuleId(item.i)}
+                          onClearCompleted={() => clearCompletedTodos(item)}
+                          parentDoneFromChildren={item.parentDoneFromChildren}
+                          onParentDoneFromChildrenChange={item.todoFilter ? undefined : (parentDoneFromChildren) => updateContent(item.i, { parentDoneFromChildren })}
                       />
                   )}
                   
                   {item.type === 'stickynote' && <StickyNote content={item.content || ''} onChange={(txt) => updateContent(item.i, { content: txt })} />}
-                  {item.type === 'events' && <EventsList events={allEvents} onAddClick={() => openAddEventModal()} onToggleNotify={(id) => setGlobalEvents(prev => prev.map(e => e.id === id ? { ...e, notify: !e.notify } : e))} backgroundColor={theme.body} />}
-                  {item.type === 'calendar' && <Calendar events={allEvents} onDayClick={(date) => openAddEventModal(date)} onDropItemOnDay={(date, itemName) => openAddEventModalForDrop(date, itemName)} backgroundColor={theme.body} />}
+                  {item.type === 'events' && <EventsList events={getModuleEvents(item)} onAddClick={() => openAddEventModal()} onToggleNotify={(id) => setGlobalEvents(prev => prev.map(e => e.id === id ? { ...e, notify: !e.notify } : e))} onEventClick={handleEditEvent} onImportClick={importIcs} onExportClick={() => setIcsExportCategory('')} categories={getLegendCategories(eventCategories, getModuleEvents(item))} visibleCategories={item.linkedCategory} onVisibleCategoriesChange={(linkedCategory) => updateContent(item.i, { linkedCategory })} onManageCategories={() => setShowCategoryManager(true)} horizon={item.eventsHorizon} onHorizonChange={(eventsHorizon) => updateContent(item.i, { eventsHorizon })} showPast={item.showPastEvents} onShowPastChange={(showPastEvents) => updateContent(item.i, { showPastEvents })} hideHolidays={item.hideHolidays} onHideHolidaysChange={(hideHolidays) => updateContent(item.i, { hideHolidays })} backgroundColor={theme.body} />}
+                  {item.type === 'calendar' && <Calendar events={getModuleEvents(item)} onVisibleRangeChange={requestHolidayYears} onDayClick={(date) => openAddEventModal(date)} onDropItemOnDay={(date, itemName) => openAddEventModalForDrop(date, itemName)} onEventClick={handleEditEvent} onCreateRange={openAddEventModalForRange} onEventChange={changeEventTimes} snapMinutes={item.snapMinutes} onSnapChange={(snapMinutes) => updateContent(item.i, { snapMinutes })} weekCount={item.weekCount} onWeekCountChange={(weekCount) => updateContent(item.i, { weekCount })} secondaryTimeZone={item.secondaryTimeZone} onSecondaryTimeZoneChange={(secondaryTimeZone) => updateContent(item.i, { secondaryTimeZone })} showTodos={item.showDueTodos} onShowTodosChange={(showDueTodos) => updateContent(item.i, { showDueTodos })} moduleWidthPx={Math.round((1200 / COLS) * item.w)} categories={getLegendCategories(eventCategories, getModuleEvents(item))} visibleCategories={item.linkedCategory} onVisibleCategoriesChange={(linkedCategory) => updateContent(item.i, { linkedCategory })} onManageCategories={() => setShowCategoryManager(true)} backgroundColor={theme.body} />}
                   {item.type === 'planner' && <Planner content={item.content || ''} onChange={(data) => updateContent(item.i, { content: data })} bgColor={theme.body} gridW={item.w} moduleWidthPx={Math.round((1200 / COLS) * item.w)} onDragStartItem={() => setDraggingTodoOrPlanner(true)} onDragEndItem={() => setDraggingTodoOrPlanner(false)} />}
                   {item.type === 'plannerCalendar' && (
                     <PlannerCalendar
@@ -2023,7 +2530,7 @@ export const Workspace = () => {
             e.preventDefault();
             e.stopPropagation();
             setIsDropping(false);
-            createStructuredModule(moduleType);
+            addModule(moduleType, undefined, e.dataTransfer.getData('moduleVariant') === 'smartList');
           }}
         >
           <div
@@ -2073,15 +2580,28 @@ export const Workspace = () => {
                         getVisibleTodos={getVisibleTodos}
                         allEvents={allEvents}
                         globalTodos={globalTodos}
-                        addTodo={addTodo}
+                        editSmartList={setEditingFilterModuleId}
+                        getArchivedCount={getArchivedCount}
+                        openTodoArchive={setArchiveModuleId}
+                        clearCompletedTodos={clearCompletedTodos}
+                        addModuleTodo={addModuleTodo}
                         updateTodo={updateTodo}
                         setEditingTodo={setEditingTodo}
                         deleteTodo={deleteTodo}
                         moveTodo={moveTodo}
-                        reorderTodo={reorderTodo}
+                        reorderModuleTodo={reorderModuleTodo}
+                        stepTodoItem={stepTodoItem}
                         handleEditEvent={handleEditEvent}
+                        importIcs={importIcs}
+                        openIcsExport={() => setIcsExportCategory('')}
                         openAddEventModal={openAddEventModal}
                         openAddEventModalForDrop={openAddEventModalForDrop}
+                        openAddEventModalForRange={openAddEventModalForRange}
+                        changeEventTimes={changeEventTimes}
+                        getModuleEvents={getModuleEvents}
+                        eventCategories={eventCategories}
+                        requestHolidayYears={requestHolidayYears}
+                        openCategoryManager={() => setShowCategoryManager(true)}
                         setGlobalEvents={setGlobalEvents}
                         maxRows={maxRows}
                         rowHeight={ROW_HEIGHT}
@@ -2,13 +2,44 @@ export interface CalendarEvent {
   id: string;
   title: string;
   date: string; // ISO String
+  endDate?: string; // ISO String of the last day, for events ending on a later day than `date`
   startTime?: string;
   endTime?: string;
+  timeZone?: string; // IANA zone the times are in; unset for floating (older) events
   location?: string;
   notify: boolean;
   color: string;
   isAllDay?: boolean;
   category?: string;
+  boardId?: string; // Set when the event belongs to a board with its own events
+  uid?: string; // iCalendar UID of imported events, kept so re-importing updates them; `${uid}#yyyy-MM-dd` for occurrences taken out of one
+  recurrence?: RecurrenceRule; // Makes the event a series; `date` is its first occurrence
+  exceptionDates?: string[]; // 'yyyy-MM-dd' occurrences removed from the series (deleted or edited separately)
+  description?: string; // HTML from the rich text editor
+  attendees?: string[]; // Names or email addresses
+  links?: string[]; // Meeting and other URLs, opened in the system browser
+  attachments?: EventAttachment[];
+  // Only on occurrences expanded from a series (never stored)
+  seriesId?: string;
+  occurrenceDate?: string; // 'yyyy-MM-dd'
+}
+
+// A file copied into app storage for an event
+export interface EventAttachment {
+  id: string;
+  path: string;
+  name: string; // Original file name; the stored copy is renamed
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Subset of an iCalendar RRULE
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months/years, defaults to 1
+  byWeekday?: number[]; // Weekly only: 0 (Sunday) to 6, defaults to the weekday of the first occurrence
+  until?: string; // 'yyyy-MM-dd', inclusive
+  count?: number; // Total number of occurrences, including removed ones
 }
 
 export interface TodoItem {
@@ -19,5 +50,157 @@ export interface TodoItem {
   color?: string; 
   originModuleId: string; 
   parentId?: string;
+  collapsed?: boolean; // Sub-items hidden
+  order?: number; // Position among the items with the same list and parent
   images?: Array<{ id: string; path: string; isCover?: boolean }>;
-}
\ No newline at end of file
+  dueDate?: string; // 'yyyy-MM-dd'
+  dueTime?: string; // 'HH:mm', unset for items due some time that day
+  priority?: TodoPriority;
+  tags?: string[];
+  reminders?: number[]; // Minutes before the item is due
+  completedAt?: string; // ISO, set while the item is done
+  archivedAt?: string; // ISO; archived items are only shown in their list's archive
+  recurrence?: RecurrenceRule; // Completing the item adds the next one; counts from `dueDate`
+  recurrenceKeepsImages?: boolean; // The next item shows the same images
+  completions?: TodoCompletion[]; // Earlier items of a recurring one, oldest first
+}
+
+// A done instance of a recurring to-do item
+export interface TodoCompletion {
+  dueDate?: string; // 'yyyy-MM-dd'
+  completedAt: string; // ISO
+}
+
+export type TodoPriority = 'low' | 'medium' | 'high';
+
+// Order of the items of a to-do module
+export type TodoSort = 'manual' | 'due' | 'priority';
+
+// How a to-do module shows done items: in place, in a "Completed" section at the end, or not at all
+export type CompletedTodoMode = 'show' | 'collapse' | 'hide';
+
+// Saved filter of a smart list; unset criteria match every item
+export interface TodoFilter {
+  tags?: string[];
+  matchAllTags?: boolean; // Otherwise any of the tags
+  done?: 'open' | 'done';
+  color?: string;
+  hasImages?: boolean;
+  due?: TodoDueFilter;
+}
+
+export type TodoDueFilter = 'overdue' | 'today' | 'week' | 'any' | 'none';
+
+export type ModuleType = 'notepad' | 'clock' | 'whiteboard' | 'calendar' | 'todo' | 'stickynote' | 'events' | 'planner' | 'plannerCalendar';
+
+// Canonical module record, shared by the free and structured views
+export interface ModuleRecord {
+  i: string;
+  type: ModuleType;
+  title?: string;
+  listTitle?: string;
+  content?: string; 
+  clockMode?: 'analog' | 'digital';
+  worldClocks?: string[]; // Clock modules: IANA zones shown below the clock
+  linkedCategory?: string[]; // Calendar/events modules: categories shown, all when unset
+  themeIndex?: number;
+  minimized?: boolean;
+  todoListId?: string; // To-do modules: list shown (todo.originModuleId), defaults to the module id
+  snapMinutes?: number; // Calendar modules: interval dragged events snap to
+  weekCount?: number; // Calendar modules: weeks in the rolling multi-week view
+  secondaryTimeZone?: string; // Calendar modules: extra time scale in day/week views
+  hideHolidays?: boolean; // Calendar/events modules
+  eventsHorizon?: EventsHorizon; // Events modules: how far ahead events are listed
+  showPastEvents?: boolean; // Events modules
+  showDueTodos?: boolean; // Calendar modules: open to-dos of the board's lists on their due dates
+  todoSort?: TodoSort; // To-do modules
+  todoFilter?: TodoFilter; // To-do modules: set for smart lists, which show the matching items of every list
+  completedTodos?: CompletedTodoMode; // To-do modules, defaults to 'show'
+  archiveAfterDays?: number; // To-do modules: done items are archived this long after completion, never when unset
+  parentDoneFromChildren?: boolean; // To-do modules: items with sub-items are done exactly when all of those are
+}
+
+// Events modules list events from today up to this far ahead
+export type EventsHorizon = 'today' | 'week' | 'month' | 'all';
+
+// Free view: position and size on the grid
+export interface FreeLayout {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Structured view: position in the row and the size used there
+export interface StructuredLayout {
+  orderIndex: number;
+  w: number;
+  h: number;
+}
+
+export type BoardScope = 'shared' | 'board';
+
+// A named workspace with its own modules, layouts and minimized tray
+export interface Board {
+  id: string;
+  name: string;
+  modules: ModuleRecord[];
+  layoutFree: Record<string, FreeLayout>;
+  layoutStructured: Record<string, StructuredLayout>;
+  eventScope: BoardScope; // 'board': only events created on this board are shown
+  todoScope: BoardScope; // 'shared': duplicating the board links its to-do lists instead of copying them
+}
+
+// Recycle bin: deleted items are kept until restored or purged
+interface TrashEntryBase {
+  id: string;
+  deletedAt: string; // ISO String
+  boardId: string; // Board the item was deleted from
+}
+
+export interface TrashedModule extends TrashEntryBase {
+  kind: 'module';
+  module: ModuleRecord;
+  layoutFree?: FreeLayout;
+  layoutStructured?: StructuredLayout;
+  todos: TodoItem[]; // The module's list, unless another module still shows it
+}
+
+export interface TrashedTodos extends TrashEntryBase {
+  kind: 'todo';
+  todos: TodoItem[]; // The deleted todo first, then its subtree
+}
+
+export interface TrashedEvent extends TrashEntryBase {
+  kind: 'event';
+  event: CalendarEvent;
+}
+
+export type TrashEntry = TrashedModule | TrashedTodos | TrashedEvent;
+
+export interface NotificationSettings {
+  leadMinutes: number[]; // Reminders before the start of timed events; 0 = at start
+  allDayHour: number; // Hour of the day all-day events are announced
+}
+
+// An entry of the category registry; events refer to it by name in `CalendarEvent.category`
+export interface EventCategory {
+  id: string;
+  name: string;
+  color: string; // Default color of new events in the category
+  notify: boolean; // Default notify flag of new events in the category
+}
+
+export type HolidayType = 'public' | 'bank' | 'observance' | 'optional' | 'school';
+
+// A country, optionally narrowed to a state and region (codes as used by date-holidays)
+export interface HolidayCalendar {
+  country: string;
+  state?: string;
+  region?: string;
+}
+
+export interface HolidaySettings {
+  calendars: HolidayCalendar[];
+  types: HolidayType[];
+}
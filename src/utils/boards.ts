@@ -0,0 +1,78 @@
+// Helpers for creating and copying boards
+import type { Board, ModuleRecord, TodoItem } from '../types';
+import { createId } from './ids';
+
+export const createBoard = (name: string): Board => ({
+  id: createId('board'),
+  name,
+  modules: [],
+  layoutFree: {},
+  layoutStructured: {},
+  eventScope: 'shared',
+  todoScope: 'board',
+});
+
+// Todos of a to-do module are stored under its list ID (shared lists point at another module's list)
+export const getTodoListId = (module: ModuleRecord) => module.todoListId || module.i;
+
+type BoardModules = Pick<Board, 'modules' | 'layoutFree' | 'layoutStructured'>;
+
+interface ClonedModules extends BoardModules {
+  moduleIdMap: Map<string, string>;
+  // Old list ID -> new list ID, for lists that were copied rather than linked
+  listIdMap: Map<string, string>;
+}
+
+// Copy modules under fresh IDs. Layouts and planner references follow the new IDs;
+// to-do modules either keep pointing at the original list or get a list of their own.
+export const cloneModules = (source: BoardModules, linkTodoLists: boolean): ClonedModules => {
+  const moduleIdMap = new Map(source.modules.map(m => [m.i, createId('mod')]));
+  const listIdMap = new Map<string, string>();
+  const remapKeys = <T,>(record: Record<string, T>) => Object.fromEntries(
+    Object.entries(record)
+      .filter(([key]) => moduleIdMap.has(key))
+      .map(([key, value]) => [moduleIdMap.get(key)!, value])
+  );
+
+  const modules = source.modules.map(m => {
+    const next: ModuleRecord = { ...m, i: moduleIdMap.get(m.i)! };
+    if (m.type === 'plannerCalendar' && m.content) {
+      next.content = Array.from(moduleIdMap).reduce((content, [oldId, newId]) => content.split(oldId).join(newId), m.content);
+    }
+    if (m.type === 'todo') {
+      const listId = getTodoListId(m);
+      if (linkTodoLists) {
+        next.todoListId = listId;
+      } else if (listIdMap.has(listId)) {
+        // Another module of this board shows the same list: keep them together
+        next.todoListId = listIdMap.get(listId);
+      } else {
+        next.todoListId = undefined;
+        listIdMap.set(listId, next.i);
+      }
+    }
+    return next;
+  });
+
+  return {
+    modules,
+    layoutFree: remapKeys(source.layoutFree),
+    layoutStructured: remapKeys(source.layoutStructured),
+    moduleIdMap,
+    listIdMap,
+  };
+};
+
+// Copy the todos of the given lists under fresh IDs, keeping their tree structure.
+// Image entries are copied as-is; callers decide where the files go.
+export const cloneTodos = (todos: TodoItem[], listIdMap: Map<string, string>) => {
+  const sourceTodos = todos.filter(t => listIdMap.has(t.originModuleId));
+  const todoIdMap = new Map(sourceTodos.map(t => [t.id, createId('todo')]));
+  const cloned = sourceTodos.map(t => ({
+    ...t,
+    id: todoIdMap.get(t.id)!,
+    originModuleId: listIdMap.get(t.originModuleId)!,
+    parentId: t.parentId ? todoIdMap.get(t.parentId) : undefined,
+  }));
+  return { todos: cloned, todoIdMap };
+};
@@ -0,0 +1,68 @@
+// Event categories
+// The registry holds the categories managed in the app. Events name their category, so events can
+// also carry names that are not registered (imported files, generated holidays); those still show
+// up in legends and filters.
+
+import type { CalendarEvent, EventCategory } from '../types';
+import { createId } from './ids';
+
+// Legend/filter key of events without a category
+export const UNCATEGORIZED = '';
+const FALLBACK_COLOR = '#6c757d';
+
+export interface LegendCategory {
+  name: string; // UNCATEGORIZED for events without a category
+  color: string;
+}
+
+export const createCategory = (name: string, color = '#007bff', notify = false): EventCategory =>
+  ({ id: createId('cat'), name, color, notify });
+
+// Registry for workspaces from before categories were managed: one entry per category in use
+export const seedCategories = (events: CalendarEvent[]): EventCategory[] => {
+  const seen = new Map<string, EventCategory>();
+  events.forEach(event => {
+    if (event.category && !seen.has(event.category)) seen.set(event.category, createCategory(event.category, event.color, event.notify));
+  });
+  return [...seen.values()];
+};
+
+// Registered categories plus any other category the given events use
+export const getLegendCategories = (registry: EventCategory[], events: CalendarEvent[]): LegendCategory[] => {
+  const legend: LegendCategory[] = registry.map(({ name, color }) => ({ name, color }));
+  const known = new Set(legend.map(c => c.name));
+  events.forEach(event => {
+    const name = event.category || UNCATEGORIZED;
+    if (known.has(name)) return;
+    known.add(name);
+    legend.push({ name, color: name === UNCATEGORIZED ? FALLBACK_COLOR : event.color });
+  });
+  // Uncategorized always comes last
+  return [...legend.filter(c => c.name !== UNCATEGORIZED), ...legend.filter(c => c.name === UNCATEGORIZED)];
+};
+
+// `visible` unset means every category is shown
+export const filterEventsByCategory = (events: CalendarEvent[], visible?: string[]): CalendarEvent[] => {
+  if (!visible) return events;
+  const shown = new Set(visible);
+  return events.filter(event => shown.has(event.category || UNCATEGORIZED));
+};
+
+// Show or hide one category; returns undefined once everything is shown again
+export const toggleCategory = (legend: LegendCategory[], visible: string[] | undefined, name: string): string[] | undefined => {
+  const current = visible ?? legend.map(c => c.name);
+  const next = current.includes(name) ? current.filter(n => n !== name) : [...current, name];
+  return legend.every(c => next.includes(c.name)) ? undefined : next;
+};
+
+// Registry entries for categories of imported events that are not registered yet
+export const getMissingCategories = (registry: EventCategory[], events: { category?: string; color?: string }[]): EventCategory[] => {
+  const known = new Set(registry.map(c => c.name));
+  const missing: EventCategory[] = [];
+  events.forEach(event => {
+    if (!event.category || known.has(event.category)) return;
+    known.add(event.category);
+    missing.push(createCategory(event.category, event.color));
+  });
+  return missing;
+};
@@ -0,0 +1,76 @@
+// Start, end and per-day extent of events
+// An event starts on `date` at `startTime` (all-day events at midnight) and ends on `endDate`, or
+// on `date` itself, at `endTime`. A timed event without an end date whose end time is before its
+// start time runs past midnight into the next day.
+
+import { addDays, addMinutes, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { CalendarEvent } from '../types';
+
+// The fields that place an event in time
+export type EventTimes = Pick<CalendarEvent, 'date' | 'endDate' | 'startTime' | 'endTime'>;
+
+// Length assumed for timed events without an end time
+const DEFAULT_DURATION_MINUTES = 60;
+const DAY_MINUTES = 24 * 60;
+
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = startOfDay(day);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
+
+export const getEventStart = (event: CalendarEvent) =>
+  atTime(new Date(event.date), event.isAllDay ? '00:00' : event.startTime || '00:00');
+
+// Exclusive end: all-day events end at midnight after their last day
+export function getEventEnd(event: CalendarEvent): Date {
+  const start = getEventStart(event);
+  const lastDate = startOfDay(event.endDate ? new Date(event.endDate) : start);
+  if (event.isAllDay || (event.endDate && !event.endTime)) return addDays(lastDate, 1);
+  if (!event.endTime) return addMinutes(start, DEFAULT_DURATION_MINUTES);
+  const end = atTime(lastDate, event.endTime);
+  if (end >= start) return end;
+  return event.endDate ? start : addDays(end, 1);
+}
+
+// Midnight of the last day the event covers
+export const getEventLastDay = (event: CalendarEvent) => {
+  const start = getEventStart(event);
+  const end = getEventEnd(event);
+  return startOfDay(end > start ? addMinutes(end, -1) : start);
+};
+
+// Number of days after its first one the event still covers (0 for single-day events)
+export const getEventSpanDays = (event: CalendarEvent) =>
+  differenceInCalendarDays(getEventLastDay(event), getEventStart(event));
+
+export const isMultiDay = (event: CalendarEvent) => getEventSpanDays(event) > 0;
+
+export const occursOnDay = (event: CalendarEvent, day: Date) => {
+  const date = startOfDay(day);
+  return date >= startOfDay(getEventStart(event)) && date <= getEventLastDay(event);
+};
+
+export interface DaySegment {
+  startMinutes: number; // From midnight of the day
+  endMinutes: number;
+  continuesBefore: boolean; // Started on an earlier day
+  continuesAfter: boolean; // Goes on into the next day
+}
+
+// The part of an event that falls on one day, or null if it does not cover the day
+export function getDaySegment(event: CalendarEvent, day: Date): DaySegment | null {
+  if (!occursOnDay(event, day)) return null;
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  const start = getEventStart(event);
+  const end = getEventEnd(event);
+  const minutesFromDayStart = (date: Date) => date.getHours() * 60 + date.getMinutes();
+  return {
+    startMinutes: start > dayStart ? minutesFromDayStart(start) : 0,
+    endMinutes: end < dayEnd ? minutesFromDayStart(end) : DAY_MINUTES,
+    continuesBefore: start < dayStart,
+    continuesAfter: end > dayEnd,
+  };
+}
@@ -0,0 +1,102 @@
+// Workspace undo/redo
+// The hook observes a snapshot of the workspace state and records every change as an undo step.
+// Snapshots are the immutable state objects themselves, so a step costs no more than a reference.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+// Changes closer together than this (typing, drawing, dragging) collapse into one step
+const COALESCE_MS = 1000;
+// Changes right after mount or an undo/redo are follow-ups (layout compaction, measuring), not edits
+const SETTLE_MS = 300;
+
+export interface UndoHistory<T> {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  // Call from a state updater that is about to make a derived change (e.g. a measured height)
+  // so that the change is kept out of the history
+  markUntracked: () => void;
+  // Drop the steps `isStale` matches and the ones only reachable through them, for states that can
+  // no longer be restored (e.g. their files were deleted)
+  forget: (isStale: (snapshot: T) => boolean) => void;
+}
+
+export function useUndoHistory<T>(present: T, restore: (snapshot: T) => void): UndoHistory<T> {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const recorded = useRef(present);
+  const lastChangeAt = useRef(0);
+  const settleUntil = useRef(0);
+  const untracked = useRef(false);
+  // The recorded state was forgotten and is not to become an undo step
+  const recordedStale = useRef(false);
+  const restoreRef = useRef(restore);
+  // Stack sizes mirrored into state so canUndo/canRedo re-render
+  const [depth, setDepth] = useState({ past: 0, future: 0 });
+  const syncDepth = useCallback(() => setDepth({ past: past.current.length, future: future.current.length }), []);
+
+  useEffect(() => {
+    restoreRef.current = restore;
+  });
+
+  useEffect(() => {
+    settleUntil.current = Date.now() + SETTLE_MS;
+  }, []);
+
+  useEffect(() => {
+    if (present === recorded.current) return;
+    const now = Date.now();
+    const tracked = !untracked.current && now >= settleUntil.current;
+    untracked.current = false;
+    if (tracked) {
+      if (!recordedStale.current && (past.current.length === 0 || now - lastChangeAt.current > COALESCE_MS)) {
+        past.current = [...past.current, recorded.current].slice(-HISTORY_LIMIT);
+      }
+      future.current = [];
+      lastChangeAt.current = now;
+      syncDepth();
+    }
+    recorded.current = present;
+    recordedStale.current = false;
+  }, [present, syncDepth]);
+
+  const travel = useCallback((from: { current: T[] }, to: { current: T[] }) => {
+    const target = from.current[from.current.length - 1];
+    if (target === undefined) return;
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, recorded.current].slice(-HISTORY_LIMIT);
+    recorded.current = target;
+    recordedStale.current = false;
+    lastChangeAt.current = 0;
+    settleUntil.current = Date.now() + SETTLE_MS;
+    restoreRef.current(target);
+    syncDepth();
+  }, [syncDepth]);
+
+  const undo = useCallback(() => travel(past, future), [travel]);
+  const redo = useCallback(() => travel(future, past), [travel]);
+  const markUntracked = useCallback(() => { untracked.current = true; }, []);
+  const forget = useCallback((isStale: (snapshot: T) => boolean) => {
+    // Older undo steps (and further redo steps) are only reachable through a stale one
+    const dropThrough = (stack: T[]) => {
+      let last = -1;
+      stack.forEach((snapshot, i) => { if (isStale(snapshot)) last = i; });
+      return stack.slice(last + 1);
+    };
+    past.current = dropThrough(past.current);
+    future.current = dropThrough(future.current);
+    recordedStale.current = isStale(recorded.current);
+    syncDepth();
+  }, [syncDepth]);
+
+  return {
+    canUndo: depth.past > 0,
+    canRedo: depth.future > 0,
+    undo,
+    redo,
+    markUntracked,
+    forget,
+  };
+}
@@ -0,0 +1,78 @@
+// Public holidays from `date-holidays`
+// Holidays are generated for the chosen calendars and the years in view, never stored. Their IDs
+// are derived from calendar, rule and date, so they stay the same however many years are loaded.
+
+import Holidays from 'date-holidays';
+import { addDays } from 'date-fns';
+import type { CalendarEvent, HolidayCalendar, HolidaySettings, HolidayType } from '../types';
+import { parseDateKey, toDateKey } from './recurrence';
+
+const HOLIDAY_ID_PREFIX = 'holiday:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HOLIDAY_TYPES: { type: HolidayType; label: string; category: string; color: string }[] = [
+  { type: 'public', label: 'Public holidays', category: 'Public Holiday', color: '#28a745' },
+  { type: 'bank', label: 'Bank holidays', category: 'Bank Holiday', color: '#17a2b8' },
+  { type: 'observance', label: 'Observances', category: 'Observance', color: '#6f42c1' },
+  { type: 'optional', label: 'Optional holidays', category: 'Optional Holiday', color: '#fd7e14' },
+  { type: 'school', label: 'School holidays', category: 'School Holiday', color: '#e0a800' },
+];
+
+// Country from the browser language, as holidays were chosen before they were configurable
+export const getDefaultHolidaySettings = (): HolidaySettings => {
+  const locale = navigator.language || 'en-US';
+  return { calendars: [{ country: locale.split('-')[1] || 'US' }], types: ['public'] };
+};
+
+export const isHolidayEvent = (event: CalendarEvent) => event.id.startsWith(HOLIDAY_ID_PREFIX);
+
+export const getCalendarKey = ({ country, state, region }: HolidayCalendar) =>
+  [country, state, region].filter(Boolean).join('-');
+
+export const getCountries = (): Record<string, string> => new Holidays().getCountries();
+export const getStates = (country: string): Record<string, string> => new Holidays().getStates(country) || {};
+export const getRegions = (country: string, state: string): Record<string, string> => new Holidays().getRegions(country, state) || {};
+
+export const describeCalendar = (calendar: HolidayCalendar) => {
+  const names = [getCountries()[calendar.country] || calendar.country];
+  if (calendar.state) names.push(getStates(calendar.country)[calendar.state] || calendar.state);
+  if (calendar.region && calendar.state) names.push(getRegions(calendar.country, calendar.state)[calendar.region] || calendar.region);
+  return names.join(' · ');
+};
+
+// Holidays of all chosen calendars in the given years; a holiday shared by several calendars is listed once
+export function getHolidayEvents(settings: HolidaySettings, years: number[]): CalendarEvent[] {
+  const types = new Set(settings.types);
+  const seen = new Set<string>();
+  const events: CalendarEvent[] = [];
+
+  settings.calendars.forEach(calendar => {
+    const hd = new Holidays(calendar.country, calendar.state || '', calendar.region || '');
+    const key = getCalendarKey(calendar);
+    years.forEach(year => {
+      hd.getHolidays(year).forEach(holiday => {
+        const typeInfo = HOLIDAY_TYPES.find(t => t.type === holiday.type);
+        if (!typeInfo || !types.has(holiday.type)) return;
+        // The date string is in the calendar's own time zone; its day is what matters here
+        const day = parseDateKey(holiday.date.slice(0, 10));
+        const dateKey = toDateKey(day);
+        const duplicateKey = `${dateKey}|${holiday.name}`;
+        if (seen.has(duplicateKey)) return;
+        seen.add(duplicateKey);
+        const days = Math.max(1, Math.round((holiday.end.getTime() - holiday.start.getTime()) / DAY_MS));
+        events.push({
+          id: `${HOLIDAY_ID_PREFIX}${key}:${holiday.rule}${holiday.substitute ? ':substitute' : ''}:${dateKey}`,
+          title: holiday.name,
+          date: day.toISOString(),
+          endDate: days > 1 ? addDays(day, days - 1).toISOString() : undefined,
+          isAllDay: true,
+          notify: false,
+          color: typeInfo.color,
+          category: typeInfo.category,
+          location: key,
+        });
+      });
+    });
+  });
+  return events;
+}
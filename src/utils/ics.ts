@@ -0,0 +1,434 @@
+// iCalendar (.ics) import and export for calendar events
+// Supports VEVENT with DTSTART/DTEND, all-day dates, SUMMARY, LOCATION, CATEGORIES, RRULE, EXDATE,
+// RECURRENCE-ID (moved occurrences) and a VALARM as the notify flag. Times with an IANA TZID keep
+// that zone, UTC times get this computer's zone and other times are read as local. Exports are
+// written in UTC, except for recurring events: their times stay in the event's zone (with a VTIMEZONE)
+// or floating, so other tools expand them across DST changes as we do.
+
+import { addDays, endOfDay, format, startOfDay, subDays } from 'date-fns';
+import type { CalendarEvent, RecurrenceFrequency, RecurrenceRule } from '../types';
+import { getOccurrenceUid, parseDateKey, toDateKey } from './recurrence';
+import { getEventEnd, getEventLastDay, getEventStart } from './eventTime';
+import { fromZonedWallClock, getLocalTimeZone, getOffsetMs, isValidTimeZone, toZonedWallClock } from './timeZones';
+import { getIpcRenderer } from './ipc';
+
+const PRODUCT_ID = '-//Workspace//Calendar Export//EN';
+const UID_DOMAIN = 'workspace';
+// Event color has no standard hex property, so it travels as an extension property
+const COLOR_PROPERTY = 'X-WORKSPACE-COLOR';
+const DEFAULT_COLOR = '#007bff';
+const NOTIFY_LEAD = '-PT15M';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// Stable identity used in exported files; events created here get one derived from their ID
+export const getEventUid = (event: CalendarEvent) => event.uid || `${event.id}@${UID_DOMAIN}`;
+
+// An imported event before it is given an ID in the workspace (color only if the file has one)
+export type ImportedEvent = Omit<CalendarEvent, 'id' | 'color'> & { uid: string; color?: string };
+
+// --- PARSING ---
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  children: IcsComponent[];
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([nN,;\\])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Split a content line into name, parameters and value, respecting quoted parameter values
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(text: string): IcsComponent[] {
+  // Unfold continuation lines (a line break followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const root: IcsComponent = { type: 'ROOT', properties: [], children: [] };
+  const stack = [root];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const child: IcsComponent = { type: property.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root.children;
+}
+
+interface IcsDate {
+  date: Date; // Wall clock of `timeZone` (or local time) in the local fields
+  isDate: boolean; // VALUE=DATE, i.e. an all-day value
+  timeZone?: string;
+}
+
+// DATE (20261019), local DATE-TIME (20261019T090000) or UTC DATE-TIME (20261019T090000Z)
+function parseIcsDate(property: IcsProperty): IcsDate | null {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) return { date: new Date(+y, +mo - 1, +d), isDate: true };
+  if (utc) {
+    const timeZone = getLocalTimeZone();
+    return { date: toZonedWallClock(new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)), timeZone), isDate: false, timeZone };
+  }
+  const tzid = property.params.TZID;
+  return { date: new Date(+y, +mo - 1, +d, +h, +mi, +s), isDate: false, timeZone: tzid && isValidTimeZone(tzid) ? tzid : undefined };
+}
+
+function parseRRule(value: string): RecurrenceRule | undefined {
+  const parts = Object.fromEntries(value.split(';').map(part => {
+    const [key, val = ''] = part.split('=');
+    return [key.toUpperCase(), val];
+  }));
+  const freq = FREQUENCIES.find(f => f.toUpperCase() === parts.FREQ);
+  if (!freq) return undefined;
+
+  const rule: RecurrenceRule = { freq };
+  const interval = parseInt(parts.INTERVAL, 10);
+  if (interval > 1) rule.interval = interval;
+  const count = parseInt(parts.COUNT, 10);
+  if (count > 0) rule.count = count;
+  if (parts.UNTIL) {
+    const until = parseIcsDate({ name: 'UNTIL', params: {}, value: parts.UNTIL });
+    if (until) rule.until = toDateKey(until.date);
+  }
+  if (freq === 'weekly' && parts.BYDAY) {
+    // Ordinal weekdays (e.g. 2TU) only make sense for monthly/yearly rules, which we keep on the date
+    const weekdays = parts.BYDAY.split(',')
+      .map(code => WEEKDAY_CODES.indexOf(code.slice(-2).toUpperCase()))
+      .filter(day => day >= 0);
+    if (weekdays.length > 0) rule.byWeekday = weekdays;
+  }
+  return rule;
+}
+
+// Last day of an event ending on a later day; DTEND of all-day events is exclusive
+function getImportedEndDate(start: IcsDate, end: IcsDate): string | undefined {
+  const lastDay = startOfDay(start.isDate ? subDays(end.date, 1) : end.date);
+  return lastDay > startOfDay(start.date) ? lastDay.toISOString() : undefined;
+}
+
+function toImportedEvent(component: IcsComponent): { event: ImportedEvent; recurrenceId?: string } | null {
+  const get = (name: string) => component.properties.find(p => p.name === name);
+  const uid = get('UID')?.value.trim();
+  const startProperty = get('DTSTART');
+  const start = startProperty && parseIcsDate(startProperty);
+  if (!uid || !start) return null;
+
+  const endProperty = get('DTEND');
+  const end = endProperty ? parseIcsDate(endProperty) : null;
+  // The end is kept in the zone of the start
+  if (end && start.timeZone && end.timeZone && end.timeZone !== start.timeZone) {
+    end.date = toZonedWallClock(fromZonedWallClock(end.date, end.timeZone), start.timeZone);
+  }
+  // Escaped commas belong to a category's name
+  const categories = get('CATEGORIES')?.value.match(/(?:\\.|[^,])+/g)?.map(c => unescapeText(c.trim())).filter(Boolean);
+  const rruleProperty = get('RRULE');
+  const exceptionDates = component.properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(value => parseIcsDate({ ...p, value })))
+    .filter((d): d is IcsDate => !!d)
+    .map(d => toDateKey(d.date));
+  const recurrenceIdProperty = get('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProperty ? parseIcsDate(recurrenceIdProperty) : null;
+
+  const event: ImportedEvent = {
+    uid,
+    title: unescapeText(get('SUMMARY')?.value || 'Untitled'),
+    date: startOfDay(start.date).toISOString(),
+    endDate: end ? getImportedEndDate(start, end) : undefined,
+    isAllDay: start.isDate,
+    startTime: start.isDate ? undefined : format(start.date, 'HH:mm'),
+    endTime: start.isDate || !end ? undefined : format(end.date, 'HH:mm'),
+    timeZone: start.isDate ? undefined : start.timeZone,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!.value) : undefined,
+    category: categories?.[0],
+    color: get(COLOR_PROPERTY)?.value,
+    notify: component.children.some(child => child.type === 'VALARM'),
+  };
+  if (rruleProperty && !recurrenceId) {
+    event.recurrence = parseRRule(rruleProperty.value);
+    if (event.recurrence && exceptionDates.length > 0) event.exceptionDates = exceptionDates;
+  }
+  return { event, recurrenceId: recurrenceId ? toDateKey(recurrenceId.date) : undefined };
+}
+
+// Read all VEVENTs of a calendar file. Occurrences moved in the other tool (RECURRENCE-ID) become
+// their own events and are removed from their series.
+export function parseIcs(text: string): ImportedEvent[] {
+  const calendars = parseComponents(text).filter(c => c.type === 'VCALENDAR');
+  const vevents = calendars.flatMap(c => c.children).filter(c => c.type === 'VEVENT');
+  const parsed = vevents.map(toImportedEvent).filter((p): p is NonNullable<typeof p> => !!p);
+
+  const series = new Map(parsed.filter(p => !p.recurrenceId).map(p => [p.event.uid, p.event]));
+  return parsed.map(({ event, recurrenceId }) => {
+    if (!recurrenceId) return event;
+    const parent = series.get(event.uid);
+    if (parent?.recurrence) {
+      parent.exceptionDates = [...new Set([...(parent.exceptionDates || []), recurrenceId])];
+    }
+    return { ...event, uid: getOccurrenceUid(event, recurrenceId)! };
+  });
+}
+
+// --- EXPORT ---
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const formatDateValue = (date: Date) => format(date, 'yyyyMMdd');
+// Local fields, for TZID and floating times
+const formatLocal = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
+
+// Lines longer than 75 octets are folded (approximated by characters)
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    chunks.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return chunks.join('\r\n ');
+};
+
+// Local date of the event at the given 'HH:mm'
+const atTime = (day: Date, time: string | undefined) => {
+  const [h, m] = (time || '00:00').split(':').map(Number);
+  const date = startOfDay(day);
+  date.setHours(h || 0, m || 0);
+  return date;
+};
+
+// `zone`: the zone of a timed event's DTSTART, null when it is floating
+function formatRRule(rule: RecurrenceRule, isAllDay: boolean, zone: string | null): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.map(d => WEEKDAY_CODES[d]).join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  // UNTIL has to match DTSTART: a date, UTC for zoned times, floating for floating ones
+  if (rule.until) {
+    const lastMoment = endOfDay(parseDateKey(rule.until));
+    const until = isAllDay ? rule.until.replace(/-/g, '') : zone ? formatUtc(fromZonedWallClock(lastMoment, zone)) : formatLocal(lastMoment);
+    parts.push(`UNTIL=${until}`);
+  }
+  return parts.join(';');
+}
+
+const formatOffset = (offsetMs: number) => {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  return `${offsetMs < 0 ? '-' : '+'}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// VTIMEZONE for the zone's offset changes in `year`, each repeating yearly on the same weekday of the
+// month (e.g. the last Sunday of March), which is how zones with DST change their clocks
+function formatTimeZone(zone: string, year: number): string[] {
+  const offsetAt = (ms: number) => getOffsetMs(zone, ms);
+  const changes: { at: number; from: number; to: number }[] = [];
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  let before = Date.UTC(year, 0, 1);
+  let offset = offsetAt(before);
+  for (let ms = before + DAY_MS; ms <= yearEnd; before = ms, ms += DAY_MS) {
+    const next = offsetAt(ms);
+    if (next === offset) continue;
+    // Narrow the change down to the minute
+    let low = before;
+    let high = ms;
+    while (high - low > 60000) {
+      const mid = Math.floor((low + high) / 120000) * 60000;
+      if (offsetAt(mid) === offset) low = mid;
+      else high = mid;
+    }
+    changes.push({ at: high, from: offset, to: next });
+    offset = next;
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`];
+  if (changes.length === 0) {
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${formatOffset(offset)}`, `TZOFFSETTO:${formatOffset(offset)}`, 'END:STANDARD');
+  }
+  changes.forEach(change => {
+    // The clock as it reads just before the change
+    const utcFields = new Date(change.at + change.from);
+    const wall = new Date(utcFields.getUTCFullYear(), utcFields.getUTCMonth(), utcFields.getUTCDate(), utcFields.getUTCHours(), utcFields.getUTCMinutes());
+    const daysInMonth = new Date(wall.getFullYear(), wall.getMonth() + 1, 0).getDate();
+    const ordinal = wall.getDate() + 7 > daysInMonth ? -1 : Math.ceil(wall.getDate() / 7);
+    const type = change.to > change.from ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${type}`,
+      `DTSTART:${formatLocal(wall)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${wall.getMonth() + 1};BYDAY=${ordinal}${WEEKDAY_CODES[wall.getDay()]}`,
+      `TZOFFSETFROM:${formatOffset(change.from)}`,
+      `TZOFFSETTO:${formatOffset(change.to)}`,
+      `END:${type}`,
+    );
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// Zone of the event's times; null for floating times (and for zones this system does not know)
+const getRecurringZone = (event: CalendarEvent) =>
+  event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : null;
+
+// A time property of `event`. Recurring times stay on the event's clock, so occurrences keep their
+// time across DST changes; other times are written in UTC.
+function formatTimeProperty(event: CalendarEvent, name: string, date: Date): string {
+  const zone = getRecurringZone(event);
+  if (event.recurrence) return zone ? `${name};TZID=${zone}:${formatLocal(date)}` : `${name}:${formatLocal(date)}`;
+  // Times of zoned events are wall clock of their zone
+  return `${name}:${formatUtc(zone ? fromZonedWallClock(date, zone) : date)}`;
+}
+
+// An occurrence taken out of a series in the same file, written as an override of that occurrence
+interface SeriesOverride {
+  series: CalendarEvent;
+  occurrenceDate: string;
+}
+
+function formatEvent(event: CalendarEvent, stamp: string, override?: SeriesOverride): string[] {
+  const day = new Date(event.date);
+  const lines = ['BEGIN:VEVENT', `UID:${getEventUid(override ? override.series : event)}`, `DTSTAMP:${stamp}`];
+  if (override) {
+    // Same value type as the series' DTSTART
+    const { series, occurrenceDate } = override;
+    lines.push(series.isAllDay
+      ? `RECURRENCE-ID;VALUE=DATE:${occurrenceDate.replace(/-/g, '')}`
+      : formatTimeProperty(series, 'RECURRENCE-ID', atTime(parseDateKey(occurrenceDate), series.startTime)));
+  }
+  const zone = getRecurringZone(event);
+  const formatTime = (name: string, date: Date) => formatTimeProperty(event, name, date);
+
+  if (event.isAllDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(day)}`, `DTEND;VALUE=DATE:${formatDateValue(addDays(getEventLastDay(event), 1))}`);
+  } else {
+    const start = getEventStart(event);
+    const end = event.endTime || event.endDate ? getEventEnd(event) : start;
+    lines.push(formatTime('DTSTART', start), formatTime('DTEND', end));
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.category) lines.push(`CATEGORIES:${escapeText(event.category)}`);
+  lines.push(`${COLOR_PROPERTY}:${event.color}`);
+
+  if (event.recurrence) {
+    lines.push(`RRULE:${formatRRule(event.recurrence, !!event.isAllDay, zone)}`);
+    for (const key of event.exceptionDates || []) {
+      lines.push(event.isAllDay
+        ? `EXDATE;VALUE=DATE:${key.replace(/-/g, '')}`
+        : formatTime('EXDATE', atTime(parseDateKey(key), event.startTime)));
+    }
+  }
+
+  if (event.notify) {
+    lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.title)}`, `TRIGGER:${NOTIFY_LEAD}`, 'END:VALARM');
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildIcs(events: CalendarEvent[]): string {
+  const stamp = formatUtc(new Date());
+  // One VTIMEZONE per zone of the timed recurring events, starting the year before the earliest of them
+  const zoneYears = new Map<string, number>();
+  events.forEach(event => {
+    const zone = !event.isAllDay && event.recurrence ? getRecurringZone(event) : null;
+    if (zone) zoneYears.set(zone, Math.min(zoneYears.get(zone) ?? Infinity, new Date(event.date).getFullYear() - 1));
+  });
+  // Occurrences edited on their own keep the UID of their series plus the date they replace
+  const seriesByUid = new Map(events.filter(e => e.recurrence && e.uid).map(e => [e.uid!, e]));
+  const getOverride = (event: CalendarEvent): SeriesOverride | undefined => {
+    const split = event.uid && !event.recurrence ? event.uid.lastIndexOf('#') : -1;
+    if (split === -1) return undefined;
+    const series = seriesByUid.get(event.uid!.slice(0, split));
+    const occurrenceDate = event.uid!.slice(split + 1);
+    return series?.exceptionDates?.includes(occurrenceDate) ? { series, occurrenceDate } : undefined;
+  };
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...[...zoneYears].flatMap(([zone, year]) => formatTimeZone(zone, year)),
+    ...events.flatMap(event => formatEvent(event, stamp, getOverride(event))),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Merge imported events into the stored ones: a known UID among the events `isTarget` accepts (those of
+// the board imported into) updates the event in place. `identify` gives new events their ID (and board).
+export function mergeImportedEvents(
+  events: CalendarEvent[],
+  imported: ImportedEvent[],
+  isTarget: (event: CalendarEvent) => boolean,
+  identify: () => Pick<CalendarEvent, 'id' | 'boardId'>
+): { events: CalendarEvent[]; added: number; updated: number } {
+  const byUid = new Map(imported.map(e => [e.uid, e]));
+  let updated = 0;
+  const next = events.map(existing => {
+    const match = isTarget(existing) ? byUid.get(getEventUid(existing)) : undefined;
+    if (!match) return existing;
+    byUid.delete(match.uid);
+    updated++;
+    return {
+      ...existing,
+      ...match,
+      id: existing.id,
+      boardId: existing.boardId,
+      color: match.color || existing.color,
+      recurrence: match.recurrence,
+      exceptionDates: match.exceptionDates,
+    };
+  });
+  const added = [...byUid.values()].map(e => ({ ...e, color: e.color || DEFAULT_COLOR, ...identify() }));
+  return { events: [...next, ...added], added: added.length, updated };
+}
+
+// --- FILES ---
+
+// Let the user pick a calendar file; resolves to its text, or null if cancelled
+export const openIcsFile = async (): Promise<string | null> => {
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) return null;
+  return await ipcRenderer.invoke('import-ics') as string | null;
+};
+
+// Save calendar text through a save dialog; resolves to the chosen path, or null if cancelled
+export const saveIcsFile = async (defaultName: string, content: string): Promise<string | null> => {
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) return null;
+  return await ipcRenderer.invoke('export-ics', defaultName, content) as string | null;
+};
@@ -0,0 +1,5 @@
+// Unique IDs for records created in the renderer
+export const createId = (prefix: string): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
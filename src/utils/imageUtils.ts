@@ -1,6 +1,8 @@
-// Image utility functions for todo items
+// Image utility functions for todo items, also used for event attachments
 // Uses Node.js fs and path modules (available via nodeIntegration)
 
+import { getIpcRenderer } from './ipc';
+
 declare const require: any;
 declare const window: any;
 declare const process: any;
@@ -56,14 +58,17 @@ function getElectronDialog(): any {
   }
 }
 
-// Get the app data directory for storing images
-function getImageStorageDir(): string {
+const IMAGE_FOLDER = 'todo-images';
+const ATTACHMENT_FOLDER = 'event-attachments';
+
+// Get the app data directory for storing images (or another kind of stored file)
+function getImageStorageDir(folderName = IMAGE_FOLDER): string {
   try {
     const app = getElectronApp();
     // Try to use Electron's app.getPath if available
     if (app && app.getPath) {
       const userDataPath = app.getPath('userData');
-      const imageDir = path.join(userDataPath, 'todo-images');
+      const imageDir = path.join(userDataPath, folderName);
       if (!fs.existsSync(imageDir)) {
         fs.mkdirSync(imageDir, { recursive: true });
       }
@@ -80,7 +85,7 @@ function getImageStorageDir(): string {
     } catch (e) {
       // Ignore
     }
-    const imageDir = path.join(cwd, 'todo-images');
+    const imageDir = path.join(cwd, folderName);
     if (!fs.existsSync(imageDir)) {
       fs.mkdirSync(imageDir, { recursive: true });
     }
@@ -98,7 +103,7 @@ function getImageStorageDir(): string {
     } catch (e) {
       // Ignore
     }
-    const imageDir = path.join(cwd, 'todo-images');
+    const imageDir = path.join(cwd, folderName);
     if (!fs.existsSync(imageDir)) {
       fs.mkdirSync(imageDir, { recursive: true });
     }
@@ -107,9 +112,9 @@ function getImageStorageDir(): string {
 }
 
 // Copy an image file to the storage directory
-export async function copyImage(sourcePath: string, todoId: string): Promise<string> {
+export async function copyImage(sourcePath: string, todoId: string, folderName = IMAGE_FOLDER): Promise<string> {
   try {
-    const imageDir = getImageStorageDir();
+    const imageDir = getImageStorageDir(folderName);
     const todoDir = path.join(imageDir, todoId);
     
     // Create todo-specific directory if it doesn't exist
@@ -152,6 +157,24 @@ export async function copyImage(sourcePath: string, todoId: string): Promise<str
   }
 }
 
+// Write image bytes (e.g. from an imported archive) to the storage directory
+export function saveImageData(data: Uint8Array, fileName: string, todoId: string, folderName = IMAGE_FOLDER): string {
+  const todoDir = path.join(getImageStorageDir(folderName), todoId);
+  if (!fs.existsSync(todoDir)) {
+    fs.mkdirSync(todoDir, { recursive: true });
+  }
+  const imageId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const destPath = path.join(todoDir, `${imageId}${path.extname(fileName)}`);
+  fs.writeFileSync(destPath, data);
+  return destPath;
+}
+
+// Event attachments are stored like todo images, in their own folder
+export const copyAttachment = (sourcePath: string, eventId: string) => copyImage(sourcePath, eventId, ATTACHMENT_FOLDER);
+export const saveAttachmentData = (data: Uint8Array, fileName: string, eventId: string) => saveImageData(data, fileName, eventId, ATTACHMENT_FOLDER);
+
+export const isImageFile = (filePath: string) => /\.(jpe?g|png|gif|bmp|webp|svg)$/i.test(filePath);
+
 // Convert a file system path to a data URL for display in browser
 // This avoids security restrictions with file:// URLs
 export function getImageUrl(filePath: string): string {
@@ -306,6 +329,13 @@ export async function openImageFileDialog(): Promise<string | null> {
   }
 }
 
+// Open file dialog to select any file to attach
+export async function openAttachmentFileDialog(): Promise<string | null> {
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) return null;
+  return await ipcRenderer.invoke('open-attachment-dialog') as string | null;
+}
+
 // Clean up orphaned images for a todo item
 export async function cleanupTodoImages(todoId: string, currentImagePaths: string[]): Promise<void> {
   try {
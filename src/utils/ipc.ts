@@ -0,0 +1,25 @@
+// Access to Electron's ipcRenderer (available through nodeIntegration)
+
+export interface IpcRenderer {
+  sendSync: (channel: string, ...args: unknown[]) => unknown;
+  invoke: (channel: string, ...args: unknown[]) => Promise<unknown>;
+  send: (channel: string, ...args: unknown[]) => void;
+  on: (channel: string, listener: IpcListener) => void;
+  removeListener: (channel: string, listener: IpcListener) => void;
+}
+
+export type IpcListener = (event: unknown, ...args: unknown[]) => void;
+
+declare const require: (id: string) => { ipcRenderer?: IpcRenderer };
+
+// Returns null outside Electron (e.g. plain `vite` in a browser)
+export function getIpcRenderer(): IpcRenderer | null {
+  try {
+    if (typeof require !== 'undefined') {
+      return require('electron').ipcRenderer || null;
+    }
+  } catch {
+    // Not running inside Electron
+  }
+  return null;
+}
@@ -0,0 +1,134 @@
+// Event and to-do reminders
+// The renderer turns events with `notify` and due to-dos with reminders into reminders and hands the
+// list to the main process, which owns the timers, raises the native notifications and remembers
+// what already fired.
+
+import { addDays, addMinutes, endOfDay, format, setHours, startOfDay } from 'date-fns';
+import type { CalendarEvent, NotificationSettings, TodoItem } from '../types';
+import { expandEvents, parseDateKey } from './recurrence';
+import { getEventEnd, getEventStart } from './eventTime';
+import { localizeEvent } from './timeZones';
+import { getPriorityInfo } from './todoDue';
+import { getIpcRenderer } from './ipc';
+import type { IpcListener } from './ipc';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = { leadMinutes: [15], allDayHour: 9 };
+export const LEAD_TIME_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440];
+export const SNOOZE_OPTIONS = [5, 10, 30, 60];
+
+// Reminders are rebuilt regularly, so only the next few days need to be scheduled
+const HORIZON_DAYS = 7;
+
+export interface Reminder {
+  key: string; // Stable across rebuilds and restarts: event, occurrence, start and lead time
+  eventId: string; // Or the to-do's ID
+  title: string;
+  body: string;
+  fireAt: string; // ISO
+  expiresAt: string; // ISO; a reminder missed while the app was closed is dropped after this
+}
+
+export const describeLeadTime = (minutes: number) => {
+  if (minutes === 0) return 'At start time';
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'} before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'} before`;
+  return `${minutes} minutes before`;
+};
+
+export function buildReminders(events: CalendarEvent[], settings: NotificationSettings, now = new Date()): Reminder[] {
+  // Start a day back so reminders for events that are still running survive a restart
+  const occurrences = expandEvents(events.filter(e => e.notify), addDays(startOfDay(now), -1), endOfDay(addDays(now, HORIZON_DAYS)));
+  const reminders: Reminder[] = [];
+
+  occurrences.forEach(occurrence => {
+    // Keys use the event's own date, so they stay the same when the computer changes time zone
+    const occurrenceKey = occurrence.occurrenceDate || format(startOfDay(new Date(occurrence.date)), 'yyyy-MM-dd');
+    // The start is part of the key, so a moved event is announced again
+    const startKey = `${format(new Date(occurrence.date), 'yyyy-MM-dd')} ${occurrence.isAllDay ? '' : occurrence.startTime || ''}`;
+    const event = localizeEvent(occurrence);
+    const day = startOfDay(new Date(event.date));
+    const eventId = event.seriesId || event.id;
+    const location = event.location ? ` · ${event.location}` : '';
+
+    // Events without a start time are announced like all-day events
+    if (event.isAllDay || !event.startTime) {
+      reminders.push({
+        key: `${eventId}|${occurrenceKey}|${startKey}|allday`,
+        eventId,
+        title: event.title,
+        body: `${format(day, 'EEEE, MMM d')} · All day${location}`,
+        fireAt: setHours(day, settings.allDayHour).toISOString(),
+        expiresAt: (event.isAllDay ? getEventEnd(event) : endOfDay(day)).toISOString(),
+      });
+      return;
+    }
+
+    const start = getEventStart(event);
+    const end = getEventEnd(event);
+    const timeRange = event.endTime ? `${event.startTime} – ${event.endTime}` : event.startTime;
+    settings.leadMinutes.forEach(lead => {
+      reminders.push({
+        key: `${eventId}|${occurrenceKey}|${startKey}|${lead}`,
+        eventId,
+        title: lead === 0 ? event.title : `${event.title} – in ${describeLeadTime(lead).replace(' before', '')}`,
+        body: `${format(day, 'EEEE, MMM d')} · ${timeRange}${location}`,
+        fireAt: addMinutes(start, -lead).toISOString(),
+        expiresAt: (end > start ? end : addMinutes(start, 1)).toISOString(),
+      });
+    });
+  });
+
+  return reminders;
+}
+
+// Items without a due time are announced from the all-day hour of their due date
+export function buildTodoReminders(todos: TodoItem[], settings: NotificationSettings, now = new Date()): Reminder[] {
+  const from = addDays(startOfDay(now), -1);
+  const until = endOfDay(addDays(now, HORIZON_DAYS));
+  const reminders: Reminder[] = [];
+
+  todos.forEach(todo => {
+    if (todo.done || !todo.dueDate || !todo.reminders?.length) return;
+    const day = parseDateKey(todo.dueDate);
+    const [hours, minutes] = (todo.dueTime || `${settings.allDayHour}:00`).split(':').map(Number);
+    const due = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+    const priority = getPriorityInfo(todo.priority);
+    const body = `Due ${format(day, 'EEEE, MMM d')}${todo.dueTime ? ` · ${todo.dueTime}` : ''}${priority ? ` · ${priority.label} priority` : ''}`;
+    todo.reminders.forEach(lead => {
+      const fireAt = addMinutes(due, -lead);
+      if (fireAt < from || fireAt > until) return;
+      reminders.push({
+        key: `todo|${todo.id}|${todo.dueDate}|${todo.dueTime || ''}|${lead}`,
+        eventId: todo.id,
+        title: lead === 0 ? todo.text : `${todo.text} – due in ${describeLeadTime(lead).replace(' before', '')}`,
+        body,
+        fireAt: fireAt.toISOString(),
+        expiresAt: endOfDay(due > fireAt ? due : fireAt).toISOString(),
+      });
+    });
+  });
+
+  return reminders;
+}
+
+// The main process replaces its schedule with every call
+export const scheduleNotifications = (reminders: Reminder[]) => {
+  getIpcRenderer()?.send('schedule-notifications', reminders);
+};
+
+export const snoozeNotification = (key: string, minutes: number) => {
+  getIpcRenderer()?.send('snooze-notification', key, minutes);
+};
+
+export const dismissNotification = (key: string) => {
+  getIpcRenderer()?.send('dismiss-notification', key);
+};
+
+// Calls `listener` for each reminder the main process fires; returns the unsubscribe function
+export const onNotificationFired = (listener: (reminder: Reminder) => void) => {
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) return () => {};
+  const handler: IpcListener = (_event, reminder) => listener(reminder as Reminder);
+  ipcRenderer.on('notification-fired', handler);
+  return () => ipcRenderer.removeListener('notification-fired', handler);
+};
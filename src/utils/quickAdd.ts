@@ -0,0 +1,97 @@
+// Quick-add syntax for new to-do items
+//   !high !medium !low (or !h !m !l, !1 !2 !3)   priority
+//   #tag                                         tag
+//   @today @tomorrow @fri @2026-11-03 @15:00      due date, optionally followed by a time (15:00, 3pm, 9:30am)
+//   ^red ^#ff8800                                 color
+// Recognized tokens are removed from the text; anything else is kept as typed.
+
+import { addDays, isValid, startOfDay } from 'date-fns';
+import type { TodoItem, TodoPriority } from '../types';
+import { parseDateKey, toDateKey } from './recurrence';
+
+export interface QuickAddResult {
+  text: string;
+  fields: Partial<TodoItem>;
+}
+
+const PRIORITY_TOKENS: Record<string, TodoPriority> = {
+  high: 'high', h: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low',
+};
+
+export const QUICK_ADD_COLORS: Record<string, string> = {
+  red: '#dc3545', orange: '#fd7e14', yellow: '#e0a800', green: '#28a745',
+  teal: '#20c997', blue: '#007bff', purple: '#6f42c1', pink: '#e83e8c', gray: '#6c757d', grey: '#6c757d',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+// 'HH:mm' for "15:00", "3pm" or "9:30am"; null for anything else
+export const parseTime = (value: string): string | null => {
+  const match = TIME_PATTERN.exec(value);
+  if (!match || (!match[2] && !match[3])) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Day key for "today", "tomorrow", a weekday (the next one, never today) or "yyyy-MM-dd"
+export const parseDueDay = (value: string, now = new Date()): string | null => {
+  const token = value.toLowerCase();
+  const today = startOfDay(now);
+  if (token === 'today' || token === 'tod') return toDateKey(today);
+  if (token === 'tomorrow' || token === 'tom') return toDateKey(addDays(today, 1));
+  // "fri", "frid" and "friday" all count
+  const weekday = token.length >= 3 ? WEEKDAYS.findIndex(day => day.startsWith(token)) : -1;
+  if (weekday !== -1) {
+    const days = ((weekday - today.getDay() + 7) % 7) || 7;
+    return toDateKey(addDays(today, days));
+  }
+  // Impossible dates (2026-02-30) would roll over into the next month
+  if (/^\d{4}-\d{2}-\d{2}$/.test(token) && isValid(parseDateKey(token)) && toDateKey(parseDateKey(token)) === token) return token;
+  return null;
+};
+
+export function parseQuickAdd(input: string, now = new Date()): QuickAddResult {
+  const fields: Partial<TodoItem> = {};
+  const tags: string[] = [];
+  const words: string[] = [];
+  const tokens = input.trim().split(/\s+/);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const value = token.slice(1);
+
+    if (token.startsWith('!') && PRIORITY_TOKENS[value.toLowerCase()]) {
+      fields.priority = PRIORITY_TOKENS[value.toLowerCase()];
+    } else if (token.startsWith('#') && /^[\p{L}\p{N}_-]+$/u.test(value)) {
+      if (!tags.includes(value)) tags.push(value);
+    } else if (token.startsWith('^') && (QUICK_ADD_COLORS[value.toLowerCase()] || /^#[0-9a-f]{6}$/i.test(value))) {
+      fields.color = QUICK_ADD_COLORS[value.toLowerCase()] || value.toLowerCase();
+    } else if (token.startsWith('@') && parseTime(value)) {
+      // A time on its own is due today
+      fields.dueDate = toDateKey(now);
+      fields.dueTime = parseTime(value)!;
+    } else if (token.startsWith('@') && parseDueDay(value, now)) {
+      fields.dueDate = parseDueDay(value, now)!;
+      const time = i + 1 < tokens.length ? parseTime(tokens[i + 1]) : null;
+      if (time) {
+        fields.dueTime = time;
+        i++;
+      }
+    } else {
+      words.push(token);
+    }
+  }
+
+  if (tags.length > 0) fields.tags = tags;
+  return { text: words.join(' '), fields };
+}
@@ -0,0 +1,210 @@
+// Recurring events
+// A series is a CalendarEvent with a `recurrence` rule. Its occurrences are expanded on the fly for
+// the range being displayed and never stored. Removed occurrences are listed in `exceptionDates`;
+// an occurrence edited on its own becomes a plain event and is listed there as well.
+
+import {
+  addDays, addMonths, addYears, differenceInCalendarDays, differenceInCalendarMonths,
+  differenceInCalendarYears, endOfDay, format, getDay, parse, subDays
+} from 'date-fns';
+import type { CalendarEvent, RecurrenceRule } from '../types';
+import { getEventSpanDays } from './eventTime';
+
+// Guards against rules that would otherwise never stop yielding inside a range
+const MAX_ITERATIONS = 10000;
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+export const parseDateKey = (key: string) => parse(key, 'yyyy-MM-dd', new Date());
+
+// Monday-based index, so weekly occurrences run Monday to Sunday
+const weekdayIndex = (weekday: number) => (weekday + 6) % 7;
+
+// Candidate dates in order, keeping the time of day of `start`.
+// Without a count the sequence may begin at the period containing `skipTo`.
+function* candidateDates(start: Date, rule: RecurrenceRule, skipTo?: Date): Generator<Date> {
+  const interval = Math.max(1, rule.interval || 1);
+  const periodsBefore = (elapsed: number) => skipTo ? Math.max(0, Math.floor(elapsed / interval)) : 0;
+
+  switch (rule.freq) {
+    case 'daily':
+      for (let k = periodsBefore(skipTo ? differenceInCalendarDays(skipTo, start) : 0); ; k++) {
+        yield addDays(start, k * interval);
+      }
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [getDay(start)];
+      const offsets = [...new Set(weekdays.map(weekdayIndex))].sort((a, b) => a - b);
+      const startOffset = weekdayIndex(getDay(start));
+      const weeksElapsed = skipTo ? Math.floor((differenceInCalendarDays(skipTo, start) + startOffset) / 7) : 0;
+      for (let k = periodsBefore(weeksElapsed); ; k++) {
+        for (const offset of offsets) {
+          const days = k * interval * 7 + offset - startOffset;
+          if (days >= 0) yield addDays(start, days);
+        }
+      }
+    }
+    case 'monthly':
+      // Months without the day (e.g. the 31st) are skipped, as in iCalendar
+      for (let k = periodsBefore(skipTo ? differenceInCalendarMonths(skipTo, start) : 0); ; k++) {
+        const date = addMonths(start, k * interval);
+        if (date.getDate() === start.getDate()) yield date;
+      }
+    case 'yearly':
+      for (let k = periodsBefore(skipTo ? differenceInCalendarYears(skipTo, start) : 0); ; k++) {
+        const date = addYears(start, k * interval);
+        if (date.getDate() === start.getDate()) yield date;
+      }
+  }
+}
+
+// Walk a rule's dates from `start` on, stopping at `until`/`count`
+function* ruleDates(start: Date, rule: RecurrenceRule, skipTo?: Date): Generator<Date> {
+  const until = rule.until ? endOfDay(parseDateKey(rule.until)) : null;
+  let produced = 0;
+  let iterations = 0;
+  for (const date of candidateDates(start, rule, rule.count ? undefined : skipTo)) {
+    if (++iterations > MAX_ITERATIONS) return;
+    if (until && date > until) return;
+    if (rule.count && produced >= rule.count) return;
+    produced++;
+    yield date;
+  }
+}
+
+function* seriesDates(series: CalendarEvent, skipTo?: Date): Generator<Date> {
+  if (series.recurrence) yield* ruleDates(new Date(series.date), series.recurrence, skipTo);
+}
+
+// First date of the rule starting at `start` that is on or after `from`; null once the rule has ended
+export function getNextRuleDate(start: Date, rule: RecurrenceRule, from: Date): Date | null {
+  for (const date of ruleDates(start, rule, from)) {
+    if (date >= from) return date;
+  }
+  return null;
+}
+
+// Occurrences of a series that overlap [rangeStart, rangeEnd]
+export function getOccurrences(series: CalendarEvent, rangeStart: Date, rangeEnd: Date): CalendarEvent[] {
+  const exceptions = new Set(series.exceptionDates || []);
+  // Multi-day occurrences starting before the range may still reach into it
+  const spanDays = getEventSpanDays(series);
+  const occurrences: CalendarEvent[] = [];
+  for (const date of seriesDates(series, subDays(rangeStart, spanDays))) {
+    if (date > rangeEnd) break;
+    const key = toDateKey(date);
+    if (endOfDay(addDays(date, spanDays)) < rangeStart || exceptions.has(key)) continue;
+    occurrences.push({
+      ...series,
+      id: `${series.id}_${key}`,
+      date: date.toISOString(),
+      endDate: series.endDate && addDays(date, spanDays).toISOString(),
+      seriesId: series.id,
+      occurrenceDate: key,
+    });
+  }
+  return occurrences;
+}
+
+// Replace every series by its occurrences within the range; other events pass through unchanged
+export const expandEvents = (events: CalendarEvent[], rangeStart: Date, rangeEnd: Date): CalendarEvent[] =>
+  events.flatMap(event => event.recurrence ? getOccurrences(event, rangeStart, rangeEnd) : [event]);
+
+export const addException = (series: CalendarEvent, occurrenceDate: string): CalendarEvent => ({
+  ...series,
+  exceptionDates: [...new Set([...(series.exceptionDates || []), occurrenceDate])],
+});
+
+// Split a series at an occurrence for "this and following" edits.
+// `head` is the part before the occurrence (null if the occurrence is the first one);
+// `remainingCount` is what is left of a count-limited rule from the occurrence on.
+export function splitSeries(series: CalendarEvent, occurrenceDate: string) {
+  const rule = series.recurrence!;
+  let before = 0;
+  for (const date of seriesDates(series)) {
+    if (toDateKey(date) >= occurrenceDate) break;
+    before++;
+  }
+  const exceptions = series.exceptionDates || [];
+  const head: CalendarEvent | null = before === 0 ? null : {
+    ...series,
+    recurrence: { ...rule, count: undefined, until: toDateKey(subDays(parseDateKey(occurrenceDate), 1)) },
+    exceptionDates: exceptions.filter(d => d < occurrenceDate),
+  };
+  return {
+    head,
+    remainingCount: rule.count ? Math.max(1, rule.count - before) : undefined,
+    followingExceptions: exceptions.filter(d => d >= occurrenceDate),
+  };
+}
+
+// Short human-readable summary, e.g. "Every 2 weeks on Mon, Wed until Dec 31, 2026"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[rule.freq];
+  let text = interval === 1 ? `Every ${units}` : `Every ${interval} ${units}s`;
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    const names = [...rule.byWeekday]
+      .sort((a, b) => weekdayIndex(a) - weekdayIndex(b))
+      .map(d => format(addDays(new Date(2024, 0, 7), d), 'EEE')); // Jan 7, 2024 is a Sunday
+    text += ` on ${names.join(', ')}`;
+  }
+  if (rule.until) text += ` until ${format(parseDateKey(rule.until), 'MMM d, yyyy')}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+// UID of an occurrence taken out of an imported series, so it does not pass for the series itself
+export const getOccurrenceUid = (series: Pick<CalendarEvent, 'uid'>, occurrenceDate: string) =>
+  series.uid && `${series.uid}#${occurrenceDate}`;
+
+// Which part of a series an edit made through one of its occurrences applies to
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// Apply an edited occurrence (still carrying seriesId/occurrenceDate) to the stored events
+export function applyOccurrenceEdit(
+  events: CalendarEvent[],
+  edited: CalendarEvent,
+  scope: SeriesScope,
+  createEventId: () => string
+): CalendarEvent[] {
+  const series = events.find(e => e.id === edited.seriesId);
+  const occurrenceDate = edited.occurrenceDate;
+  if (!series?.recurrence || !occurrenceDate) return events;
+  const fields: CalendarEvent = { ...edited, seriesId: undefined, occurrenceDate: undefined };
+  const replaceSeries = (next: CalendarEvent) => events.map(e => e.id === series.id ? next : e);
+
+  if (scope === 'this') {
+    return [
+      ...replaceSeries(addException(series, occurrenceDate)),
+      { ...fields, id: createEventId(), uid: getOccurrenceUid(series, occurrenceDate), recurrence: undefined, exceptionDates: undefined },
+    ];
+  }
+
+  if (scope === 'following') {
+    const { head, remainingCount, followingExceptions } = splitSeries(series, occurrenceDate);
+    // An unchanged count keeps counting where the first part stopped
+    const rule = fields.recurrence && {
+      ...fields.recurrence,
+      count: fields.recurrence.count === series.recurrence.count ? remainingCount : fields.recurrence.count,
+    };
+    const tail: CalendarEvent = {
+      ...fields,
+      id: head ? createEventId() : series.id,
+      uid: head ? getOccurrenceUid(series, occurrenceDate) : series.uid,
+      recurrence: rule,
+      exceptionDates: rule ? followingExceptions : undefined,
+    };
+    return head ? [...replaceSeries(head), tail] : replaceSeries(tail);
+  }
+
+  // All occurrences: moving this one moves the whole series by the same number of days
+  const shift = differenceInCalendarDays(new Date(fields.date), parseDateKey(occurrenceDate));
+  const shiftKey = (key: string) => toDateKey(addDays(parseDateKey(key), shift));
+  const date = addDays(new Date(series.date), shift);
+  return replaceSeries({
+    ...fields,
+    id: series.id,
+    date: date.toISOString(),
+    endDate: fields.endDate && addDays(date, differenceInCalendarDays(new Date(fields.endDate), new Date(fields.date))).toISOString(),
+    exceptionDates: fields.recurrence ? series.exceptionDates?.map(shiftKey) : undefined,
+  });
+}
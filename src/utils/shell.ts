@@ -0,0 +1,41 @@
+// Links and files opened outside the app, through Electron's shell in the main process
+
+import { getIpcRenderer } from './ipc';
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export const isEmailAddress = (value: string) => EMAIL_PATTERN.test(value.trim());
+
+// Links typed without a scheme ("zoom.us/j/123") are opened as https
+export const normalizeUrl = (url: string) => {
+  const trimmed = url.trim();
+  return /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// Host name shown for a link, or the link itself if it does not parse
+export const getLinkLabel = (url: string) => {
+  try {
+    return new URL(normalizeUrl(url)).host || url;
+  } catch {
+    return url;
+  }
+};
+
+// Opens in the system browser (or mail client); the main process only accepts web and mail links
+export const openExternal = (url: string) => {
+  const ipcRenderer = getIpcRenderer();
+  if (ipcRenderer) void ipcRenderer.invoke('open-external', normalizeUrl(url));
+  else window.open(normalizeUrl(url), '_blank', 'noopener');
+};
+
+export const openMail = (address: string) => openExternal(`mailto:${address.trim()}`);
+
+// Opens a stored file with its default app
+export const openPath = (filePath: string) => {
+  void getIpcRenderer()?.invoke('open-path', filePath);
+};
+
+// Opens the file's folder with the file selected
+export const showInFolder = (filePath: string) => {
+  void getIpcRenderer()?.invoke('show-in-folder', filePath);
+};
@@ -0,0 +1,105 @@
+// IANA time zones of events and clocks
+// Event fields hold the wall-clock time of the event's own zone. Timed events are converted to the
+// zone of this computer for display and back when they are edited; all-day events and events
+// without a zone (created before zones were stored) are shown as they are.
+
+import { format, isSameDay, startOfDay } from 'date-fns';
+import type { CalendarEvent } from '../types';
+import type { EventTimes } from './eventTime';
+import { getEventEnd, getEventStart } from './eventTime';
+
+// Used where the runtime cannot list its zones
+const FALLBACK_TIME_ZONES = [
+  'UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'America/Sao_Paulo',
+  'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Europe/Moscow', 'Africa/Johannesburg', 'Asia/Dubai',
+  'Asia/Kolkata', 'Asia/Singapore', 'Asia/Shanghai', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland',
+];
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const getTimeZones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return FALLBACK_TIME_ZONES;
+  }
+};
+
+export const isValidTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "America/New_York" -> "New York"
+export const getTimeZoneCity = (zone: string) => zone.split('/').pop()!.replace(/_/g, ' ');
+
+// Short name of the zone at the given moment, e.g. "EST" or "GMT+2"
+export const getTimeZoneAbbreviation = (zone: string, at: Date = new Date()) =>
+  new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+    .formatToParts(at).find(part => part.type === 'timeZoneName')?.value || zone;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const getFormatter = (zone: string) => {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+};
+
+// The zone's clock at an instant, as a Date whose local fields show that clock
+export function toZonedWallClock(instant: Date, zone: string): Date {
+  const parts = Object.fromEntries(getFormatter(zone).formatToParts(instant).map(part => [part.type, part.value]));
+  return new Date(+parts.year, +parts.month - 1, +parts.day, +parts.hour % 24, +parts.minute, +parts.second);
+}
+
+// Offset of the zone's clock from UTC at an instant
+export const getOffsetMs = (zone: string, instantMs: number) => {
+  const wall = toZonedWallClock(new Date(instantMs), zone);
+  const wallAsUtc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds());
+  return wallAsUtc - Math.floor(instantMs / 1000) * 1000;
+};
+
+// The instant the zone's clock shows the local fields of `wall`
+export function fromZonedWallClock(wall: Date, zone: string): Date {
+  const wallAsUtc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds());
+  // The second pass corrects the offset when the first guess lands across a DST change
+  const guess = wallAsUtc - getOffsetMs(zone, wallAsUtc);
+  return new Date(wallAsUtc - getOffsetMs(zone, guess));
+}
+
+const convertWallClock = (wall: Date, fromZone: string, toZone: string) =>
+  toZonedWallClock(fromZonedWallClock(wall, fromZone), toZone);
+
+// The date and time fields of a timed event moved from one zone's clock to another's
+export function convertEventTimes(event: CalendarEvent, fromZone: string, toZone: string): EventTimes {
+  const times: EventTimes = { date: event.date, endDate: event.endDate, startTime: event.startTime, endTime: event.endTime };
+  if (event.isAllDay || !event.startTime || fromZone === toZone || !isValidTimeZone(fromZone) || !isValidTimeZone(toZone)) return times;
+
+  const start = convertWallClock(getEventStart(event), fromZone, toZone);
+  const converted: EventTimes = { date: startOfDay(start).toISOString(), startTime: format(start, 'HH:mm') };
+  if (event.endTime) {
+    const end = convertWallClock(getEventEnd(event), fromZone, toZone);
+    converted.endTime = format(end, 'HH:mm');
+    converted.endDate = isSameDay(start, end) ? undefined : startOfDay(end).toISOString();
+  } else if (event.endDate) {
+    converted.endDate = event.endDate;
+  }
+  return converted;
+}
+
+// The event as seen from the given zone (this computer's by default)
+export const localizeEvent = (event: CalendarEvent, zone = getLocalTimeZone()): CalendarEvent =>
+  event.timeZone && !event.isAllDay ? { ...event, ...convertEventTimes(event, event.timeZone, zone) } : event;
+
+// Times picked in this computer's zone, stored in the event's own zone
+export const delocalizeEvent = (event: CalendarEvent, zone = getLocalTimeZone()): CalendarEvent =>
+  event.timeZone && !event.isAllDay ? { ...event, ...convertEventTimes(event, zone, event.timeZone) } : event;
@@ -0,0 +1,110 @@
+// Done to-do items
+// Items remember when they were completed. Lists can archive them once they have been done for a
+// while: archived items stay in the workspace with `archivedAt` set, but only the list's archive
+// shows them. A subtree is archived only once all of it qualifies.
+
+import type { CompletedTodoMode, ModuleRecord, TodoItem } from '../types';
+import { collectSubtree } from './trash';
+import { getTodoListId } from './boards';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COMPLETED_MODE_OPTIONS: { mode: CompletedTodoMode; label: string }[] = [
+  { mode: 'show', label: 'Show done items' },
+  { mode: 'collapse', label: 'Collapse done items' },
+  { mode: 'hide', label: 'Hide done items' },
+];
+
+export const ARCHIVE_AFTER_OPTIONS = [1, 7, 30, 90];
+
+export const describeArchiveAfter = (days: number) => days === 1 ? 'a day' : `${days} days`;
+
+// `completedAt` follows the done state; items already in that state keep theirs
+export const setTodoDone = (todo: TodoItem, done: boolean, now = new Date()): TodoItem =>
+  todo.done === done ? todo : { ...todo, done, completedAt: done ? now.toISOString() : undefined };
+
+// Archive period of each list: the shortest one of the modules showing it
+export function getArchivePeriods(modules: ModuleRecord[]): Map<string, number> {
+  const periods = new Map<string, number>();
+  modules.forEach(m => {
+    if (m.type !== 'todo' || m.todoFilter || !m.archiveAfterDays) return;
+    const listId = getTodoListId(m);
+    periods.set(listId, Math.min(periods.get(listId) ?? Infinity, m.archiveAfterDays));
+  });
+  return periods;
+}
+
+// Archive the done items that are past their list's period. Items done before completion times were
+// recorded start counting now. Returns `todos` itself when nothing changes.
+export function archiveCompletedTodos(todos: TodoItem[], periods: Map<string, number>, now = new Date()): TodoItem[] {
+  const stamp = now.toISOString();
+  const changes = new Map<string, Partial<TodoItem>>();
+  const isDue = (todo: TodoItem) => {
+    const days = periods.get(todo.originModuleId);
+    if (!todo.done || todo.archivedAt || !days) return false;
+    if (!todo.completedAt) {
+      changes.set(todo.id, { completedAt: stamp });
+      return false;
+    }
+    return now.getTime() - new Date(todo.completedAt).getTime() >= days * DAY_MS;
+  };
+
+  const due = new Set(todos.filter(isDue).map(t => t.id));
+  due.forEach(id => {
+    if (collectSubtree(todos, id).every(t => t.archivedAt || due.has(t.id))) changes.set(id, { archivedAt: stamp });
+  });
+  return changes.size > 0 ? todos.map(t => changes.has(t.id) ? { ...t, ...changes.get(t.id) } : t) : todos;
+}
+
+// Lists whose items with sub-items are done exactly when all of those are
+export const getDerivedDoneListIds = (modules: ModuleRecord[]): Set<string> =>
+  new Set(modules.filter(m => m.type === 'todo' && !m.todoFilter && m.parentDoneFromChildren).map(getTodoListId));
+
+// Done state of the items with sub-items in `listIds`, worked out from the bottom up. Archived items
+// are left out. Returns `todos` itself when nothing changes.
+export function syncParentDone(todos: TodoItem[], listIds: Set<string>, now = new Date()): TodoItem[] {
+  const children = new Map<string, TodoItem[]>();
+  todos.forEach(t => {
+    if (t.parentId && !t.archivedAt) children.set(t.parentId, [...(children.get(t.parentId) || []), t]);
+  });
+
+  const derived = new Map<string, boolean>();
+  const isDone = (todo: TodoItem, path: Set<string>): boolean => {
+    const kids = children.get(todo.id);
+    if (!kids || !listIds.has(todo.originModuleId) || path.has(todo.id)) return todo.done;
+    if (!derived.has(todo.id)) {
+      const next = new Set(path).add(todo.id);
+      derived.set(todo.id, kids.every(kid => isDone(kid, next)));
+    }
+    return derived.get(todo.id)!;
+  };
+
+  let changed = false;
+  const next = todos.map(t => {
+    if (t.archivedAt) return t;
+    const synced = setTodoDone(t, isDone(t, new Set()), now);
+    if (synced !== t) changed = true;
+    return synced;
+  });
+  return changed ? next : todos;
+}
+
+// Archived items of a list whose parent is not archived with them, newest first
+export const getArchivedRoots = (todos: TodoItem[], listId: string): TodoItem[] => {
+  const archived = new Set(todos.filter(t => t.archivedAt && t.originModuleId === listId).map(t => t.id));
+  return todos
+    .filter(t => archived.has(t.id) && !(t.parentId && archived.has(t.parentId)))
+    .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''));
+};
+
+// Back into the list, done as it was
+export const unarchiveTodo = (todos: TodoItem[], id: string): TodoItem[] => {
+  const ids = new Set(collectSubtree(todos, id).map(t => t.id));
+  return todos.map(t => ids.has(t.id) && t.archivedAt ? { ...t, archivedAt: undefined } : t);
+};
+
+// Done items among `items` whose whole subtree is done, without the ones under another of them
+export const getClearableRoots = (items: TodoItem[]): TodoItem[] => {
+  const clearable = new Set(items.filter(t => t.done && collectSubtree(items, t.id).every(c => c.done)).map(t => t.id));
+  return items.filter(t => clearable.has(t.id) && !(t.parentId && clearable.has(t.parentId)));
+};
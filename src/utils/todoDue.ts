@@ -0,0 +1,92 @@
+// Due dates and priorities of to-do items
+// A due date is a day key ('yyyy-MM-dd') with an optional 'HH:mm' time on this computer's clock.
+// Due items are also shown by calendar modules as generated events, like holidays.
+
+import { addMinutes, differenceInCalendarDays, endOfDay, format, isThisYear, startOfDay } from 'date-fns';
+import type { CalendarEvent, TodoItem, TodoPriority, TodoSort } from '../types';
+import { parseDateKey } from './recurrence';
+
+const TODO_EVENT_ID_PREFIX = 'todo:';
+export const TODO_EVENT_CATEGORY = 'To-do';
+// Length of the block a timed to-do takes in time grids
+const TODO_EVENT_MINUTES = 30;
+
+export const PRIORITIES: { priority: TodoPriority; label: string; color: string; rank: number }[] = [
+  { priority: 'high', label: 'High', color: '#dc3545', rank: 3 },
+  { priority: 'medium', label: 'Medium', color: '#fd7e14', rank: 2 },
+  { priority: 'low', label: 'Low', color: '#17a2b8', rank: 1 },
+];
+
+export const TODO_SORT_OPTIONS: { sort: TodoSort; label: string }[] = [
+  { sort: 'manual', label: 'Manual' },
+  { sort: 'due', label: 'Due date' },
+  { sort: 'priority', label: 'Priority' },
+];
+
+export const getPriorityInfo = (priority?: TodoPriority) => PRIORITIES.find(p => p.priority === priority);
+
+// When the item is due; items without a time are due at the end of their day
+export const getTodoDue = (todo: TodoItem): Date | null => {
+  if (!todo.dueDate) return null;
+  const day = parseDateKey(todo.dueDate);
+  if (!todo.dueTime) return endOfDay(day);
+  const [hours, minutes] = todo.dueTime.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+};
+
+export const isOverdue = (todo: TodoItem, now = new Date()) => {
+  const due = getTodoDue(todo);
+  return !todo.done && !!due && due < now;
+};
+
+// "Today 15:00", "Tomorrow", "Fri", "Mar 5", "Mar 5, 2027"
+export const describeDue = (todo: TodoItem, now = new Date()) => {
+  if (!todo.dueDate) return '';
+  const day = parseDateKey(todo.dueDate);
+  const days = differenceInCalendarDays(day, now);
+  const label = days === 0 ? 'Today'
+    : days === 1 ? 'Tomorrow'
+    : days === -1 ? 'Yesterday'
+    : days > 1 && days < 7 ? format(day, 'EEE')
+    : format(day, isThisYear(day) ? 'MMM d' : 'MMM d, yyyy');
+  return todo.dueTime ? `${label} ${todo.dueTime}` : label;
+};
+
+const compareDue = (a: TodoItem, b: TodoItem) => {
+  const dueA = getTodoDue(a);
+  const dueB = getTodoDue(b);
+  if (!dueA || !dueB) return dueA ? -1 : dueB ? 1 : 0;
+  return dueA.getTime() - dueB.getTime();
+};
+
+const comparePriority = (a: TodoItem, b: TodoItem) =>
+  (getPriorityInfo(b.priority)?.rank || 0) - (getPriorityInfo(a.priority)?.rank || 0);
+
+// Siblings in the chosen order; 'manual' keeps them as they are
+export const sortTodos = (items: TodoItem[], sort: TodoSort = 'manual'): TodoItem[] => {
+  if (sort === 'due') return [...items].sort((a, b) => compareDue(a, b) || comparePriority(a, b));
+  if (sort === 'priority') return [...items].sort((a, b) => comparePriority(a, b) || compareDue(a, b));
+  return items;
+};
+
+export const isTodoEvent = (event: CalendarEvent) => event.id.startsWith(TODO_EVENT_ID_PREFIX);
+export const getTodoIdFromEvent = (event: CalendarEvent) => event.id.slice(TODO_EVENT_ID_PREFIX.length);
+
+// Open items with a due date, as events for calendar modules
+export function getTodoEvents(todos: TodoItem[]): CalendarEvent[] {
+  return todos.filter(t => !t.done && t.dueDate).map(todo => {
+    const day = startOfDay(parseDateKey(todo.dueDate!));
+    const due = getTodoDue(todo)!;
+    return {
+      id: `${TODO_EVENT_ID_PREFIX}${todo.id}`,
+      title: todo.text,
+      date: day.toISOString(),
+      startTime: todo.dueTime,
+      endTime: todo.dueTime ? format(addMinutes(due, TODO_EVENT_MINUTES), 'HH:mm') : undefined,
+      isAllDay: !todo.dueTime,
+      notify: false,
+      color: todo.color || getPriorityInfo(todo.priority)?.color || '#6c757d',
+      category: TODO_EVENT_CATEGORY,
+    };
+  });
+}
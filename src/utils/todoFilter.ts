@@ -0,0 +1,58 @@
+// Tags and saved filters of to-do items
+// A to-do module with a filter is a smart list: it shows the matching items of every list, and
+// changes made there are ordinary changes to those items.
+
+import { addDays, endOfDay, startOfDay } from 'date-fns';
+import type { TodoDueFilter, TodoFilter, TodoItem } from '../types';
+import { getTodoDue, isOverdue } from './todoDue';
+
+export const DUE_FILTER_OPTIONS: { due: TodoDueFilter; label: string }[] = [
+  { due: 'overdue', label: 'Overdue' },
+  { due: 'today', label: 'Due today' },
+  { due: 'week', label: 'Due within a week' },
+  { due: 'any', label: 'Has a due date' },
+  { due: 'none', label: 'No due date' },
+];
+
+// Tags in use, most used first
+export const getAllTags = (todos: TodoItem[]): string[] => {
+  const counts = new Map<string, number>();
+  todos.forEach(t => t.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+const matchesDue = (todo: TodoItem, due: TodoDueFilter, now: Date) => {
+  const dueAt = getTodoDue(todo);
+  switch (due) {
+    case 'overdue': return isOverdue(todo, now);
+    case 'today': return !!dueAt && dueAt >= startOfDay(now) && dueAt <= endOfDay(now);
+    case 'week': return !!dueAt && dueAt <= endOfDay(addDays(now, 7)) && (dueAt >= startOfDay(now) || isOverdue(todo, now));
+    case 'any': return !!dueAt;
+    case 'none': return !dueAt;
+  }
+};
+
+// Criteria that are unset match every item
+export const matchesTodoFilter = (todo: TodoItem, filter: TodoFilter, now = new Date()) => {
+  if (filter.tags?.length) {
+    const tags = todo.tags || [];
+    const matches = filter.matchAllTags ? filter.tags.every(t => tags.includes(t)) : filter.tags.some(t => tags.includes(t));
+    if (!matches) return false;
+  }
+  if (filter.done === 'open' && todo.done) return false;
+  if (filter.done === 'done' && !todo.done) return false;
+  if (filter.color && (todo.color || '#333333').toLowerCase() !== filter.color.toLowerCase()) return false;
+  if (filter.hasImages && !todo.images?.length) return false;
+  if (filter.due && !matchesDue(todo, filter.due, now)) return false;
+  return true;
+};
+
+export const describeTodoFilter = (filter: TodoFilter) => {
+  const parts: string[] = [];
+  if (filter.tags?.length) parts.push(filter.tags.map(t => `#${t}`).join(filter.matchAllTags ? ' + ' : ' / '));
+  if (filter.done) parts.push(filter.done === 'open' ? 'open' : 'done');
+  if (filter.due) parts.push(DUE_FILTER_OPTIONS.find(o => o.due === filter.due)!.label.toLowerCase());
+  if (filter.color) parts.push('one color');
+  if (filter.hasImages) parts.push('with images');
+  return parts.length > 0 ? parts.join(' · ') : 'All items';
+};
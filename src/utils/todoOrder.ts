@@ -0,0 +1,96 @@
+// Manual order of to-do items
+// `order` is the position of an item among its siblings (same list, same parent). Items without one,
+// e.g. from older workspaces or archives, come after the ordered ones in the order they are stored.
+
+import type { TodoItem } from '../types';
+import { collectSubtree } from './trash';
+
+export type TodoDropPosition = 'before' | 'after' | 'inside';
+export type TodoMoveStep = 'up' | 'down' | 'indent' | 'outdent';
+
+const isSibling = (todo: TodoItem, listId: string, parentId?: string) =>
+  todo.originModuleId === listId && (todo.parentId || undefined) === (parentId || undefined);
+
+// Stable, so unordered items keep the order they come in
+export const sortByOrder = (items: TodoItem[]): TodoItem[] =>
+  [...items].sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || 0);
+
+export const getSiblings = (todos: TodoItem[], listId: string, parentId?: string): TodoItem[] =>
+  sortByOrder(todos.filter(t => isSibling(t, listId, parentId)));
+
+// Position for an item added at the end of its siblings
+export const getNextOrder = (todos: TodoItem[], listId: string, parentId?: string) =>
+  todos.filter(t => isSibling(t, listId, parentId)).reduce((max, t) => Math.max(max, (t.order ?? -1) + 1), 0);
+
+// Number siblings groups that have unordered items. Children were listed alphabetically before
+// they could be ordered, so they keep that order.
+export function assignMissingOrder(todos: TodoItem[]): TodoItem[] {
+  const groups = new Map<string, TodoItem[]>();
+  todos.forEach(t => {
+    const key = `${t.originModuleId}|${t.parentId || ''}`;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const orders = new Map<string, number>();
+  groups.forEach(group => {
+    if (group.every(t => t.order !== undefined)) return;
+    const unordered = group.filter(t => t.order === undefined);
+    if (group[0].parentId) unordered.sort((a, b) => a.text.localeCompare(b.text));
+    [...sortByOrder(group.filter(t => t.order !== undefined)), ...unordered].forEach((t, i) => orders.set(t.id, i));
+  });
+  return orders.size > 0 ? todos.map(t => orders.has(t.id) ? { ...t, order: orders.get(t.id) } : t) : todos;
+}
+
+// Renumber `siblings` in the given order and write them back into `todos`
+const applyOrder = (todos: TodoItem[], siblings: TodoItem[]) => {
+  const orders = new Map(siblings.map((t, i) => [t.id, i]));
+  return todos.map(t => orders.has(t.id) && t.order !== orders.get(t.id) ? { ...t, order: orders.get(t.id) } : t);
+};
+
+// Move an item (with its subtree) before, after or into another item of the list, or to the end of
+// the list when there is no target. Dropping an item into its own subtree changes nothing.
+export function placeTodo(todos: TodoItem[], itemId: string, targetId: string | null, position: TodoDropPosition, listId: string): TodoItem[] {
+  const item = todos.find(t => t.id === itemId);
+  if (!item || itemId === targetId) return todos;
+  const target = targetId ? todos.find(t => t.id === targetId) : undefined;
+  if (target && collectSubtree(todos, itemId).some(t => t.id === target.id)) return todos;
+
+  const parentId = !target ? undefined : position === 'inside' ? target.id : target.parentId;
+  const moved = { ...item, originModuleId: listId, parentId };
+
+  // Close the gap the item leaves, then open one where it goes
+  let next = todos.map(t => t.id === itemId ? moved : t);
+  next = applyOrder(next, getSiblings(todos, item.originModuleId, item.parentId).filter(t => t.id !== itemId));
+  const siblings = getSiblings(next, listId, parentId).filter(t => t.id !== itemId);
+  const targetIndex = target && position !== 'inside' ? siblings.findIndex(t => t.id === target.id) : -1;
+  const insertAt = targetIndex === -1 ? siblings.length : position === 'after' ? targetIndex + 1 : targetIndex;
+  siblings.splice(insertAt, 0, moved);
+  next = applyOrder(next, siblings);
+
+  // The subtree follows its root into another list
+  if (item.originModuleId !== listId) {
+    const descendants = new Set(collectSubtree(todos, itemId).slice(1).map(t => t.id));
+    next = next.map(t => descendants.has(t.id) ? { ...t, originModuleId: listId } : t);
+  }
+  return next;
+}
+
+// Keyboard moves: swap with a neighbour, become the last child of the item above, or follow the parent
+export function stepTodo(todos: TodoItem[], itemId: string, step: TodoMoveStep): TodoItem[] {
+  const item = todos.find(t => t.id === itemId);
+  if (!item) return todos;
+  const siblings = getSiblings(todos, item.originModuleId, item.parentId);
+  const index = siblings.findIndex(t => t.id === itemId);
+  const listId = item.originModuleId;
+
+  switch (step) {
+    case 'up':
+      return index > 0 ? placeTodo(todos, itemId, siblings[index - 1].id, 'before', listId) : todos;
+    case 'down':
+      return index < siblings.length - 1 ? placeTodo(todos, itemId, siblings[index + 1].id, 'after', listId) : todos;
+    case 'indent':
+      return index > 0 ? placeTodo(todos, itemId, siblings[index - 1].id, 'inside', listId) : todos;
+    case 'outdent':
+      return item.parentId ? placeTodo(todos, itemId, item.parentId, 'after', listId) : todos;
+  }
+}
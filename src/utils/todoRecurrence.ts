@@ -0,0 +1,95 @@
+// Recurring to-do items
+// A recurring item has a rule like a recurring event. Completing it adds the next item right after
+// it: an open copy with its sub-items, due on the rule's next date. The rule and the completion
+// history move on to the copy, so checking the done item again does not add another one.
+
+import { addDays, differenceInCalendarDays, format, max, startOfDay } from 'date-fns';
+import type { TodoCompletion, TodoItem } from '../types';
+import { createId } from './ids';
+import { getNextRuleDate, parseDateKey, toDateKey } from './recurrence';
+import { placeTodo } from './todoOrder';
+import { collectSubtree } from './trash';
+
+// Enough to see how a chore has been going
+const HISTORY_LIMIT = 50;
+
+// The rule's next date after the item's due date, skipping dates already past; items without a due
+// date count from the day they are done. Null once the rule has ended.
+export function getNextDueDate(todo: TodoItem, now = new Date()): string | null {
+  const rule = todo.recurrence;
+  if (!rule || (rule.count !== undefined && rule.count <= 1)) return null;
+  const today = startOfDay(now);
+  const due = todo.dueDate ? parseDateKey(todo.dueDate) : today;
+  const next = getNextRuleDate(due, { ...rule, count: undefined }, max([addDays(due, 1), today]));
+  return next ? toDateKey(next) : null;
+}
+
+// "Due Fri, Oct 16 · done Oct 19, 09:30 (3 days late)"
+export function describeCompletion(completion: TodoCompletion): string {
+  const completedAt = new Date(completion.completedAt);
+  const done = `done ${format(completedAt, 'MMM d, HH:mm')}`;
+  if (!completion.dueDate) return done.charAt(0).toUpperCase() + done.slice(1);
+  const late = differenceInCalendarDays(completedAt, parseDateKey(completion.dueDate));
+  return `Due ${format(parseDateKey(completion.dueDate), 'EEE, MMM d')} · ${done}${late > 0 ? ` (${late} day${late === 1 ? '' : 's'} late)` : ''}`;
+}
+
+// Copy of a recurring item's subtree for its next date
+function createNextInstance(todos: TodoItem[], root: TodoItem, dueDate: string, now: Date): TodoItem[] {
+  const subtree = collectSubtree(todos, root.id);
+  const ids = new Map(subtree.map(t => [t.id, createId('todo')]));
+  // Sub-items keep their distance to the item's due date
+  const shift = root.dueDate ? differenceInCalendarDays(parseDateKey(dueDate), parseDateKey(root.dueDate)) : 0;
+
+  return subtree.map(t => {
+    const copy: TodoItem = {
+      ...t,
+      id: ids.get(t.id)!,
+      parentId: t.parentId && (ids.get(t.parentId) || t.parentId),
+      done: false,
+      completedAt: undefined,
+      archivedAt: undefined,
+      images: root.recurrenceKeepsImages ? t.images : undefined,
+      dueDate: t.dueDate && toDateKey(addDays(parseDateKey(t.dueDate), shift)),
+    };
+    if (t.id !== root.id) return copy;
+    const completion = { dueDate: root.dueDate, completedAt: root.completedAt || now.toISOString() };
+    return {
+      ...copy,
+      dueDate,
+      recurrence: root.recurrence!.count ? { ...root.recurrence!, count: root.recurrence!.count - 1 } : root.recurrence,
+      completions: [...(root.completions || []), completion].slice(-HISTORY_LIMIT),
+    };
+  });
+}
+
+// Add the next items of the recurring items done in the change from `before` to `after`. Items done
+// together with a recurring item above them come along with its copy.
+export function addNextInstances(before: TodoItem[], after: TodoItem[], now = new Date()): TodoItem[] {
+  const wasDone = new Set(before.filter(t => t.done).map(t => t.id));
+  const completed = after.filter(t => t.done && !wasDone.has(t.id) && t.recurrence && !t.archivedAt);
+  if (completed.length === 0) return after;
+
+  const completedIds = new Set(completed.map(t => t.id));
+  const byId = new Map(after.map(t => [t.id, t]));
+  const hasCompletedAncestor = (todo: TodoItem) => {
+    const seen = new Set<string>();
+    for (let parent = todo.parentId ? byId.get(todo.parentId) : undefined; parent && !seen.has(parent.id); parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+      if (completedIds.has(parent.id)) return true;
+      seen.add(parent.id);
+    }
+    return false;
+  };
+
+  let next = after;
+  completed.filter(t => !hasCompletedAncestor(t)).forEach(root => {
+    // Once the rule has ended, the last item keeps it and the history
+    const dueDate = getNextDueDate(root, now);
+    if (!dueDate) return;
+    const instance = createNextInstance(next, root, dueDate, now);
+    // The done items keep their dates but give up their rules and history
+    const moved = new Set(collectSubtree(next, root.id).map(t => t.id));
+    next = next.map(t => moved.has(t.id) && (t.recurrence || t.completions) ? { ...t, recurrence: undefined, recurrenceKeepsImages: undefined, completions: undefined } : t);
+    next = placeTodo([...next, ...instance], instance[0].id, root.id, 'after', root.originModuleId);
+  });
+  return next;
+}
@@ -0,0 +1,68 @@
+// Recycle bin helpers
+import type { CalendarEvent, TodoItem, TrashEntry } from '../types';
+import { removeImage } from './imageUtils';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A todo followed by all of its descendants
+export const collectSubtree = (todos: TodoItem[], rootId: string): TodoItem[] => {
+  const root = todos.find(t => t.id === rootId);
+  if (!root) return [];
+  const result = [root];
+  const visited = new Set([rootId]);
+  for (let i = 0; i < result.length; i++) {
+    todos
+      .filter(t => t.parentId === result[i].id && !visited.has(t.id))
+      .forEach(t => { visited.add(t.id); result.push(t); });
+  }
+  return result;
+};
+
+export const getTrashedTodos = (entry: TrashEntry): TodoItem[] =>
+  entry.kind === 'event' ? [] : entry.todos;
+
+export const getDaysLeft = (entry: TrashEntry, retentionDays: number, now = Date.now()) =>
+  Math.ceil((new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS - now) / DAY_MS);
+
+export const isExpired = (entry: TrashEntry, retentionDays: number, now = Date.now()) =>
+  getDaysLeft(entry, retentionDays, now) <= 0;
+
+// Attachment files in use; events split from a series share their attachments
+export const getAttachmentPaths = (events: CalendarEvent[]): Set<string> =>
+  new Set(events.flatMap(e => (e.attachments || []).map(a => a.path)));
+
+// Attachment files of `event` that are no longer used by `remaining`
+export const getUnusedAttachments = (event: CalendarEvent, remaining: CalendarEvent[]): string[] => {
+  const inUse = getAttachmentPaths(remaining);
+  return (event.attachments || []).map(a => a.path).filter(path => !inUse.has(path));
+};
+
+// Image files in use; recurring todos and duplicated boards share them
+export const getImagePaths = (todos: TodoItem[]): Set<string> =>
+  new Set(todos.flatMap(t => (t.images || []).map(img => img.path)));
+
+// Files referred to by todos, events and trash entries
+export const getFilePaths = (state: { todos: TodoItem[]; events: CalendarEvent[]; trash: TrashEntry[] }): Set<string> => new Set([
+  ...getImagePaths([...state.todos, ...state.trash.flatMap(getTrashedTodos)]),
+  ...getAttachmentPaths([...state.events, ...state.trash.flatMap(entry => entry.kind === 'event' ? [entry.event] : [])]),
+]);
+
+// Image files of trashed todos and attachments of trashed events stay on disk until the entry is purged,
+// and after that while `events`/`todos` still use them. Returns the files to remove on purge.
+export function getPurgedFiles(entry: TrashEntry, events: CalendarEvent[] = [], todos: TodoItem[] = []): string[] {
+  if (entry.kind === 'event') return getUnusedAttachments(entry.event, events);
+  const inUse = getImagePaths(todos);
+  return [...getImagePaths(getTrashedTodos(entry))].filter(path => !inUse.has(path));
+}
+
+// A file that cannot be removed is logged and skipped
+export async function removeFiles(paths: string[]): Promise<void> {
+  for (const path of new Set(paths)) {
+    try {
+      await removeImage(path);
+    } catch (error) {
+      console.error(`Error removing file ${path}:`, error);
+    }
+  }
+}
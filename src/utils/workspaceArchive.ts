@@ -0,0 +1,310 @@
+// Workspace archives: a single zip file holding a board's modules, todos, events and binary assets,
+// or those of the whole workspace (every board, all todos and events, the trash, event categories and
+// holiday settings)
+// Layout:
+//   manifest.json            board (or boards), todos, events and the rest of the workspace
+//   whiteboards/<id>.png     whiteboard drawings (module content refers to the file)
+//   images/<todoId>/<file>   todo images (image paths refer to the files)
+//   attachments/<eventId>/<file>  event attachments (attachment paths refer to the files)
+
+import JSZip from 'jszip';
+import type { Board, CalendarEvent, EventCategory, HolidaySettings, ModuleRecord, TodoItem, TrashEntry } from '../types';
+import { cloneModules, cloneTodos, getTodoListId } from './boards';
+import { createId } from './ids';
+import { saveAttachmentData, saveImageData } from './imageUtils';
+import { getIpcRenderer } from './ipc';
+
+interface NodeFs {
+  existsSync: (p: string) => boolean;
+  readFileSync: (p: string) => Uint8Array;
+  writeFileSync: (p: string, data: Uint8Array) => void;
+}
+interface NodePath {
+  basename: (p: string) => string;
+}
+declare const require: (id: string) => unknown;
+
+const fs = require('fs') as NodeFs;
+const path = require('path') as NodePath;
+
+const ARCHIVE_FORMAT = 'workspace-archive';
+// Version 2 added whole-workspace archives
+const ARCHIVE_VERSION = 2;
+const MANIFEST_FILE = 'manifest.json';
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+
+type ArchiveBoard = Pick<Board, 'name' | 'modules' | 'layoutFree' | 'layoutStructured'>;
+
+// Everything of a workspace besides its todos and events
+export interface ArchiveWorkspace {
+  boards: Board[];
+  trash: TrashEntry[];
+  categories: EventCategory[];
+  holidaySettings: HolidaySettings;
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  board?: ArchiveBoard; // Board archives
+  workspace?: ArchiveWorkspace; // Whole-workspace archives
+  todos: TodoItem[];
+  events: CalendarEvent[];
+}
+
+interface ArchiveContent {
+  todos: TodoItem[]; // Image paths point into `zip`
+  events: CalendarEvent[]; // Attachment paths point into `zip`
+  zip: JSZip;
+}
+
+export type WorkspaceArchive =
+  | ArchiveContent & { kind: 'board'; board: ArchiveBoard }
+  | ArchiveContent & { kind: 'workspace'; workspace: ArchiveWorkspace };
+
+// Board contents with fresh IDs, ready to be merged into (or swapped into) the workspace
+export interface ImportedBoardContent extends ArchiveBoard {
+  todos: TodoItem[];
+  events: CalendarEvent[];
+}
+
+// A whole workspace with fresh IDs
+export interface ImportedWorkspace extends ArchiveWorkspace {
+  todos: TodoItem[];
+  events: CalendarEvent[];
+}
+
+export const openArchiveSaveDialog = async (defaultName: string): Promise<string | null> => {
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) return null;
+  return await ipcRenderer.invoke('save-archive-dialog', defaultName) as string | null;
+};
+
+export const openArchiveFileDialog = async (): Promise<string | null> => {
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) return null;
+  return await ipcRenderer.invoke('open-archive-dialog') as string | null;
+};
+
+// Whiteboard drawings go into the zip as PNG files
+const packModule = (zip: JSZip, m: ModuleRecord): ModuleRecord => {
+  if (m.type !== 'whiteboard' || !m.content?.startsWith(PNG_DATA_URL_PREFIX)) return m;
+  const entry = `whiteboards/${m.i}.png`;
+  zip.file(entry, m.content.slice(PNG_DATA_URL_PREFIX.length), { base64: true });
+  return { ...m, content: entry };
+};
+
+const packTodo = (zip: JSZip, t: TodoItem): TodoItem => {
+  if (!t.images) return t;
+  const images = t.images.flatMap(img => {
+    if (!fs.existsSync(img.path)) {
+      console.warn(`Skipping missing image ${img.path}`);
+      return [];
+    }
+    const entry = `images/${t.id}/${path.basename(img.path)}`;
+    zip.file(entry, fs.readFileSync(img.path));
+    return [{ ...img, path: entry }];
+  });
+  return { ...t, images };
+};
+
+const packEvent = (zip: JSZip, e: CalendarEvent): CalendarEvent => {
+  if (!e.attachments) return e;
+  const attachments = e.attachments.flatMap(attachment => {
+    if (!fs.existsSync(attachment.path)) {
+      console.warn(`Skipping missing attachment ${attachment.path}`);
+      return [];
+    }
+    const entry = `attachments/${e.id}/${path.basename(attachment.path)}`;
+    zip.file(entry, fs.readFileSync(attachment.path));
+    return [{ ...attachment, path: entry }];
+  });
+  return { ...e, attachments };
+};
+
+const writeArchive = async (zip: JSZip, manifest: Omit<ArchiveManifest, 'format' | 'version' | 'exportedAt'>, filePath: string) => {
+  zip.file(MANIFEST_FILE, JSON.stringify({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), ...manifest }, null, 2));
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }));
+};
+
+// Write the board, the todos of its lists and the given events to filePath
+export async function exportWorkspaceArchive(
+  board: Board,
+  allTodos: TodoItem[],
+  events: CalendarEvent[],
+  filePath: string
+): Promise<void> {
+  const zip = new JSZip();
+  const listIds = new Set(board.modules.filter(m => m.type === 'todo').map(getTodoListId));
+  await writeArchive(zip, {
+    board: {
+      name: board.name,
+      modules: board.modules.map(m => packModule(zip, m)),
+      layoutFree: board.layoutFree,
+      layoutStructured: board.layoutStructured,
+    },
+    todos: allTodos.filter(t => listIds.has(t.originModuleId)).map(t => packTodo(zip, t)),
+    events: events.map(e => ({ ...packEvent(zip, e), boardId: undefined })),
+  }, filePath);
+}
+
+// Write every board, all todos and events, the trash, event categories and holiday settings to filePath
+export async function exportWholeWorkspace(workspace: ArchiveWorkspace, todos: TodoItem[], events: CalendarEvent[], filePath: string): Promise<void> {
+  const zip = new JSZip();
+  const trash = workspace.trash.map((entry): TrashEntry => {
+    if (entry.kind === 'event') return { ...entry, event: packEvent(zip, entry.event) };
+    const packed = { ...entry, todos: entry.todos.map(t => packTodo(zip, t)) };
+    return packed.kind === 'module' ? { ...packed, module: packModule(zip, packed.module) } : packed;
+  });
+  await writeArchive(zip, {
+    workspace: {
+      ...workspace,
+      boards: workspace.boards.map(b => ({ ...b, modules: b.modules.map(m => packModule(zip, m)) })),
+      trash,
+    },
+    todos: todos.map(t => packTodo(zip, t)),
+    events: events.map(e => packEvent(zip, e)),
+  }, filePath);
+}
+
+// Read and validate an archive. Whiteboard drawings are restored to data URLs;
+// todo images and event attachments stay inside the zip until the archive is instantiated.
+export async function readWorkspaceArchive(filePath: string): Promise<WorkspaceArchive> {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error('Not a workspace archive (manifest.json is missing)');
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) throw new Error('Not a workspace archive');
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than this app supports`);
+  }
+
+  const unpackModule = async (m: ModuleRecord): Promise<ModuleRecord> => {
+    if (m.type !== 'whiteboard' || !m.content) return m;
+    const drawing = zip.file(m.content);
+    return { ...m, content: drawing ? PNG_DATA_URL_PREFIX + await drawing.async('base64') : '' };
+  };
+  const content = { todos: manifest.todos || [], events: manifest.events || [], zip };
+
+  if (manifest.workspace) {
+    const { workspace } = manifest;
+    const boards = await Promise.all(workspace.boards.map(async b => ({ ...b, modules: await Promise.all(b.modules.map(unpackModule)) })));
+    const trash = await Promise.all((workspace.trash || []).map(async (entry): Promise<TrashEntry> =>
+      entry.kind === 'module' ? { ...entry, module: await unpackModule(entry.module) } : entry));
+    return { ...content, kind: 'workspace', workspace: { ...workspace, boards, trash } };
+  }
+  if (!manifest.board) throw new Error('Not a workspace archive (no board in manifest.json)');
+  const modules = await Promise.all(manifest.board.modules.map(unpackModule));
+  return { ...content, kind: 'board', board: { ...manifest.board, modules } };
+}
+
+// Copy the images of todos that have their new IDs into app storage
+async function restoreTodoImages(todos: TodoItem[], zip: JSZip): Promise<void> {
+  for (const todo of todos) {
+    if (!todo.images) continue;
+    const images: NonNullable<TodoItem['images']> = [];
+    for (const img of todo.images) {
+      const file = zip.file(img.path);
+      if (!file) continue;
+      try {
+        images.push({ ...img, id: createId('img'), path: saveImageData(await file.async('uint8array'), img.path, todo.id) });
+      } catch (error) {
+        console.error(`Error restoring image ${img.path}:`, error);
+      }
+    }
+    todo.images = images;
+  }
+}
+
+// A fresh ID for the event, with its attachments copied into app storage
+async function restoreEvent(event: CalendarEvent, zip: JSZip): Promise<CalendarEvent> {
+  const restored = { ...event, id: createId('evt') };
+  if (event.attachments) {
+    restored.attachments = [];
+    for (const attachment of event.attachments) {
+      const file = zip.file(attachment.path);
+      if (!file) continue;
+      try {
+        restored.attachments.push({ ...attachment, id: createId('att'), path: saveAttachmentData(await file.async('uint8array'), attachment.path, restored.id) });
+      } catch (error) {
+        console.error(`Error restoring attachment ${attachment.path}:`, error);
+      }
+    }
+  }
+  return restored;
+}
+
+// Give every module, todo and event a fresh ID and copy the todo images and event attachments into app storage
+export async function instantiateArchive(archive: WorkspaceArchive & { kind: 'board' }): Promise<ImportedBoardContent> {
+  const { modules, layoutFree, layoutStructured, listIdMap } = cloneModules(archive.board, false);
+  const { todos } = cloneTodos(archive.todos, listIdMap);
+  await restoreTodoImages(todos, archive.zip);
+
+  const events: CalendarEvent[] = [];
+  for (const event of archive.events) events.push(await restoreEvent(event, archive.zip));
+
+  return {
+    name: archive.board.name,
+    modules,
+    layoutFree,
+    layoutStructured,
+    todos,
+    events,
+  };
+}
+
+// The same for a whole workspace. Boards, lists and todos get fresh IDs too, so the result can be
+// added to a workspace it came from; boards that shared a list still do.
+export async function instantiateWholeWorkspace(archive: WorkspaceArchive & { kind: 'workspace' }): Promise<ImportedWorkspace> {
+  const { workspace, zip } = archive;
+  const boardIdMap = new Map(workspace.boards.map(b => [b.id, createId('board')]));
+  const listIdMap = new Map<string, string>();
+  const mapList = (listId: string) => {
+    if (!listIdMap.has(listId)) listIdMap.set(listId, createId('mod'));
+    return listIdMap.get(listId)!;
+  };
+  const relinkList = (m: ModuleRecord): ModuleRecord => m.type === 'todo' ? { ...m, todoListId: mapList(getTodoListId(m)) } : m;
+
+  const boards = workspace.boards.map(b => {
+    const { modules, layoutFree, layoutStructured } = cloneModules(b, true);
+    return { ...b, id: boardIdMap.get(b.id)!, modules: modules.map(relinkList), layoutFree, layoutStructured };
+  });
+
+  // One ID map over the workspace and the trash, so trashed sub-items find their parents again
+  const trashedTodos = workspace.trash.flatMap(entry => entry.kind === 'event' ? [] : entry.todos);
+  const todoIdMap = new Map([...archive.todos, ...trashedTodos].map(t => [t.id, createId('todo')]));
+  const remapTodos = async (todos: TodoItem[]) => {
+    const remapped = todos.map(t => ({
+      ...t,
+      id: todoIdMap.get(t.id)!,
+      originModuleId: mapList(t.originModuleId),
+      parentId: t.parentId && todoIdMap.get(t.parentId),
+    }));
+    await restoreTodoImages(remapped, zip);
+    return remapped;
+  };
+  const remapEvent = async (event: CalendarEvent) =>
+    ({ ...await restoreEvent(event, zip), boardId: event.boardId && boardIdMap.get(event.boardId) });
+
+  const events: CalendarEvent[] = [];
+  for (const event of archive.events) events.push(await remapEvent(event));
+
+  const trash: TrashEntry[] = [];
+  for (const entry of workspace.trash) {
+    const base = { id: createId('trash'), deletedAt: entry.deletedAt, boardId: boardIdMap.get(entry.boardId) || entry.boardId };
+    if (entry.kind === 'event') trash.push({ ...base, kind: 'event', event: await remapEvent(entry.event) });
+    else if (entry.kind === 'todo') trash.push({ ...base, kind: 'todo', todos: await remapTodos(entry.todos) });
+    else trash.push({ ...entry, ...base, module: { ...relinkList(entry.module), i: createId('mod') }, todos: await remapTodos(entry.todos) });
+  }
+
+  return {
+    boards,
+    todos: await remapTodos(archive.todos),
+    events,
+    trash,
+    categories: workspace.categories || [],
+    holidaySettings: workspace.holidaySettings,
+  };
+}
@@ -0,0 +1,121 @@
+// Workspace persistence
+// State is kept in a versioned JSON document owned by the Electron main process
+// (see electron/main.cjs). Outside Electron we fall back to localStorage.
+
+import { getIpcRenderer } from './ipc';
+
+type StoreData = Record<string, unknown>;
+
+interface StoreDocument {
+  schemaVersion: number;
+  data: StoreData;
+  backupPath?: string; // Set when the store came from a newer build and was copied here first
+}
+
+// What the main process answers when the store file could not be read; it was renamed to `corruptPath`
+interface CorruptStore {
+  corruptPath: string;
+}
+
+// A copy of the store the user may want back: unreadable, or written by a newer build
+export interface StoreBackup {
+  path: string;
+  reason: 'corrupt' | 'newer';
+}
+
+// Prefix of the keys the app used to keep in localStorage
+const LEGACY_KEY_PREFIX = 'ws_';
+const SAVE_DELAY_MS = 300;
+
+let cache: StoreData | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let storeBackup: StoreBackup | null = null;
+
+// Collect the old localStorage keys so the main process can migrate them on first run
+function readLegacyLocalStorage(): StoreData {
+  const legacy: StoreData = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(LEGACY_KEY_PREFIX)) continue;
+    try {
+      legacy[key] = JSON.parse(localStorage.getItem(key) || 'null');
+    } catch (error) {
+      console.error(`Skipping unreadable legacy key ${key}:`, error);
+    }
+  }
+  return legacy;
+}
+
+function getStore(): StoreData {
+  if (cache) return cache;
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) {
+    cache = {};
+    return cache;
+  }
+  try {
+    let doc = ipcRenderer.sendSync('load-workspace-store') as StoreDocument | CorruptStore | null;
+    // An unreadable store is not a first run: the legacy keys would replace the user's data
+    if (doc && 'corruptPath' in doc) {
+      storeBackup = { path: doc.corruptPath, reason: 'corrupt' };
+      cache = {};
+      return cache;
+    }
+    if (!doc) {
+      doc = ipcRenderer.sendSync('import-legacy-workspace-store', readLegacyLocalStorage()) as StoreDocument;
+    }
+    if (doc?.backupPath) storeBackup = { path: doc.backupPath, reason: 'newer' };
+    cache = doc?.data || {};
+  } catch (error) {
+    console.error('Error loading workspace store:', error);
+    cache = {};
+  }
+  return cache;
+}
+
+export const loadState = <T,>(key: string, defaultVal: T): T => {
+  if (!getIpcRenderer()) {
+    try {
+      const saved = localStorage.getItem(key);
+      if (saved) return JSON.parse(saved);
+    } catch (e) { console.error(e); }
+    return defaultVal;
+  }
+  const store = getStore();
+  return key in store ? (store[key] as T) : defaultVal;
+};
+
+export const saveState = <T,>(key: string, value: T): void => {
+  if (!getIpcRenderer()) {
+    localStorage.setItem(key, JSON.stringify(value));
+    return;
+  }
+  const store = getStore();
+  store[key] = value;
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    getIpcRenderer()?.invoke('save-workspace-store', store).catch((error: unknown) => {
+      console.error('Error saving workspace store:', error);
+    });
+  }, SAVE_DELAY_MS);
+};
+
+// The copy of the store set aside this session, if there is one; reported once
+export const takeStoreBackup = (): StoreBackup | null => {
+  const backup = storeBackup;
+  storeBackup = null;
+  return backup;
+};
+
+// Write any pending changes synchronously (used when the window is closing)
+export const flushStore = (): void => {
+  if (!saveTimer || !cache) return;
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  getIpcRenderer()?.sendSync('save-workspace-store-sync', cache);
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeunload', flushStore);
+}